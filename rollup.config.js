@@ -106,4 +106,23 @@ export default [
                       }),
                   ],
     },
+    {
+        // The host simulator is shipped on its own, so that it never ends up in the bundles of the SDK
+        input: 'src/testing/index.ts',
+        output: [
+            {
+                file: 'dist/testing/index.js',
+                format: 'cjs',
+                sourcemap: true,
+                banner,
+            },
+            {
+                file: 'dist/testing/index.esm.js',
+                format: 'es',
+                sourcemap: true,
+                banner,
+            },
+        ],
+        plugins: mode === 'production' ? productionPlugins : commonPlugins,
+    },
 ];
@@ -3,11 +3,12 @@
 
 import {v4} from 'uuid';
 import {
+    EmbeddedExperience,
     EmbeddingContextFrameOptions,
     ExperienceFrameMetadata,
     IEmbeddingContext,
 } from '@common/embedding-context/types';
-import {FrameOptions} from '@experience/base-experience/types';
+import {CommandOptions, Experiences, FrameOptions, UrlProvider} from '@experience/base-experience/types';
 import {ControlOptions} from '@experience/control-experience/types';
 import {VisualContentOptions} from '@experience/visual-experience/types';
 import {VisualExperience} from '@experience/visual-experience/visual-experience';
@@ -17,32 +18,68 @@ import {QSearchContentOptions} from '@experience/q-search-experience/types';
 import {ConsoleExperience} from '@experience/console-experience/console-experience';
 import {DashboardExperience} from '@experience/dashboard-experience/dashboard-experience';
 import {QSearchExperience} from '@experience/q-search-experience/q-search-experience';
-import {ChangeEventLevel, ChangeEventName, EmbeddingEvents} from '@common/events/types';
+import {ChangeEventLevel, ChangeEventName, EmbeddingEventOf, MessageEventName} from '@common/events/types';
 import {ChangeEvent} from '@common/events/events';
 import {ControlExperience} from '@experience/control-experience/control-experience';
 import {EventManager} from '@common/event-manager/event-manager';
+import {ALL_EXPERIENCES, EventFilter, EventListener, WaitForOptions} from '@common/event-manager/types';
+import {EventStream} from '@common/event-manager/event-stream';
 import {DefaultLogger, LogProvider} from '../log-provider/log-provider';
+import {
+    BodyNotFoundError,
+    ContextDestroyedError,
+    InvalidFrameOptionsError,
+    InvalidUrlError,
+    MissingUrlError,
+    UrlNotAllowedError,
+} from '@common/errors/errors';
+import {EmbeddingErrorCode} from '@common/errors/types';
+import {EmbeddingTransportFactory} from '@common/transport/types';
+import {TrafficRecorder} from '@common/recorder/traffic-recorder';
+import {SDK_VERSION} from '@experience/base-experience/frame/experience-frame';
+import {Iframe} from '@common/iframe/iframe';
 
 /**
  * The embedding context creates an additional zero-pixel iframe and appends it into the body element on the page to centralize communication between the SDK and the embedded QuickSight content
  */
 export class EmbeddingContext implements IEmbeddingContext {
     private readonly experienceIdentifiers: Set<string>;
+    private readonly experiences: Set<EmbeddedExperience>;
     private readonly eventManager: EventManager;
     private readonly contextId: string;
     private readonly contextOnChange;
+    private readonly commandOptions?: CommandOptions;
+    private readonly allowedOrigins?: string[];
+    private readonly allowedHosts?: string[];
+    private readonly allowedRegions?: string[];
+    private readonly createTransport?: EmbeddingTransportFactory;
+    private readonly recorder: TrafficRecorder;
     private controlOptions?: ControlOptions;
+    private controlExperience?: ControlExperience;
     private readonly logger: LogProvider;
+    private urlProvider?: UrlProvider;
+    private isDestroyed = false;
 
     constructor(contextFrameOptions: EmbeddingContextFrameOptions) {
         // The contextId is shared with experiences to create a communication context
         // Experiences with not-matching contextId is outside the communication context
         this.contextId = v4();
         this.experienceIdentifiers = new Set();
+        this.experiences = new Set();
 
         // The eventManager instance below is passed to all experiences to create a unified event management
         this.eventManager = new EventManager();
         this.contextOnChange = contextFrameOptions.onChange;
+        // Defaults for the timeout, retries and abort signal of the commands sent to every experience of the context
+        this.commandOptions = contextFrameOptions.commandOptions;
+        // Origins other than the QuickSight host that messages are accepted from, e.g. when QuickSight is proxied
+        this.allowedOrigins = contextFrameOptions.allowedOrigins;
+        // Embed urls pointing at other hosts or regions are rejected before any frame is created
+        this.allowedHosts = contextFrameOptions.allowedHosts?.map(host => host.toLowerCase());
+        this.allowedRegions = contextFrameOptions.allowedRegions?.map(region => region.toLowerCase());
+        // Replaces how messages are exchanged with the frames, e.g. with an in-memory transport in unit tests
+        this.createTransport = contextFrameOptions.createTransport;
+        this.recorder = new TrafficRecorder(SDK_VERSION);
         this.logger = new DefaultLogger();
     }
 
@@ -51,14 +88,16 @@ export class EmbeddingContext implements IEmbeddingContext {
         contentOptions: VisualContentOptions = {}
     ): Promise<VisualExperience> => {
         this.validateFrameOptions(frameOptions, 'embedVisual');
+        this.validateUrlPolicy(frameOptions.url, 'embedVisual');
         const controlOptions = this.buildControlOptions(frameOptions);
-
-        return new VisualExperience(
+        const experience = new VisualExperience(
             frameOptions,
             contentOptions,
             controlOptions,
             this.experienceIdentifiers
         ).setLogProvider(this.logger);
+
+        return this.trackExperience(experience);
     };
 
     public embedDashboard = async (
@@ -66,13 +105,16 @@ export class EmbeddingContext implements IEmbeddingContext {
         contentOptions: DashboardContentOptions = {}
     ): Promise<DashboardExperience> => {
         this.validateFrameOptions(frameOptions, 'embedDashboard');
+        this.validateUrlPolicy(frameOptions.url, 'embedDashboard');
         const controlOptions = this.buildControlOptions(frameOptions);
-        return new DashboardExperience(
+        const experience = new DashboardExperience(
             frameOptions,
             contentOptions,
             controlOptions,
             this.experienceIdentifiers
         ).setLogProvider(this.logger);
+
+        return this.trackExperience(experience);
     };
 
     public embedConsole = async (
@@ -80,13 +122,16 @@ export class EmbeddingContext implements IEmbeddingContext {
         contentOptions: ConsoleContentOptions = {}
     ): Promise<ConsoleExperience> => {
         this.validateFrameOptions(frameOptions, 'embedConsole');
+        this.validateUrlPolicy(frameOptions.url, 'embedConsole');
         const controlOptions = this.buildControlOptions(frameOptions);
-        return new ConsoleExperience(
+        const experience = new ConsoleExperience(
             frameOptions,
             contentOptions,
             controlOptions,
             this.experienceIdentifiers
         ).setLogProvider(this.logger);
+
+        return this.trackExperience(experience);
     };
 
     public embedQSearchBar = async (
@@ -94,16 +139,109 @@ export class EmbeddingContext implements IEmbeddingContext {
         contentOptions: QSearchContentOptions = {}
     ): Promise<QSearchExperience> => {
         this.validateFrameOptions(frameOptions, 'embedQSearchBar');
+        this.validateUrlPolicy(frameOptions.url, 'embedQSearchBar');
         const controlOptions = this.buildControlOptions(frameOptions);
-        return new QSearchExperience(
+        const experience = new QSearchExperience(
             frameOptions,
             contentOptions,
             controlOptions,
             this.experienceIdentifiers
         ).setLogProvider(this.logger);
+
+        return this.trackExperience(experience);
+    };
+
+    /**
+     * Sets the callback used to mint a new embed url when an experience refreshes its session without an explicit url
+     */
+    public setUrlProvider = (urlProvider: UrlProvider) => {
+        this.urlProvider = urlProvider;
+        return this;
+    };
+
+    /**
+     * Starts recording the commands sent to, and the responses and events received from, every frame of the context.
+     * A recording that is in progress is discarded
+     */
+    public startRecording = () => {
+        return this.recorder.start();
+    };
+
+    public stopRecording = () => {
+        return this.recorder.stop();
+    };
+
+    /**
+     * Adds a listener for the events of every experience embedded through this context,
+     * selected by one or more event names or by a predicate
+     */
+    public addEventListener = <EventName extends MessageEventName>(
+        filter: EventFilter<EventName>,
+        listener: EventListener<EmbeddingEventOf<EventName>>
+    ) => {
+        return this.eventManager.subscribe(ALL_EXPERIENCES, filter, listener, {cleanUp: true});
+    };
+
+    /**
+     * Streams the events of every experience embedded through this context, optionally only those with the given
+     * event names. The stream completes when the context is destroyed
+     */
+    public events = <EventName extends MessageEventName = MessageEventName>(eventNames?: EventName | EventName[]) => {
+        return new EventStream<EmbeddingEventOf<EventName>>(this.eventManager, ALL_EXPERIENCES, eventNames);
+    };
+
+    /**
+     * Resolves with the next matching event of any experience embedded through this context
+     */
+    public waitFor = <EventName extends MessageEventName>(filter: EventFilter<EventName>, options?: WaitForOptions) => {
+        return this.eventManager.waitFor(ALL_EXPERIENCES, filter, options);
+    };
+
+    /**
+     * Unmounts every experience embedded through this context, removes the control frame and releases all listeners.
+     * The context can not be used to embed new experiences once destroyed.
+     */
+    public destroy = () => {
+        if (this.isDestroyed) {
+            return;
+        }
+
+        this.isDestroyed = true;
+        this.experiences.forEach(experience => experience.unmount());
+        this.experiences.clear();
+        this.controlExperience?.unmount();
+        this.controlExperience = undefined;
+        this.controlOptions = undefined;
+        this.experienceIdentifiers.clear();
+        this.eventManager.cleanUpCallbacksForExperience(ALL_EXPERIENCES);
+
+        this.onChange(
+            new ChangeEvent(
+                ChangeEventName.CONTEXT_DESTROYED,
+                ChangeEventLevel.INFO,
+                'The embedding context was destroyed',
+                {
+                    contextId: this.contextId,
+                }
+            ),
+            {frame: null}
+        );
+    };
+
+    private trackExperience = <Experience extends EmbeddedExperience>(experience: Experience) => {
+        this.experiences.add(experience);
+        this.eventManager.addEventListenerForCleanup(experience.getExperienceId(), () =>
+            this.experiences.delete(experience)
+        );
+
+        return experience;
     };
 
     private validateFrameOptions = (frameOptions: FrameOptions, methodName: string) => {
+        if (this.isDestroyed) {
+            throw new ContextDestroyedError(`${methodName} is called on a destroyed embedding context`);
+        }
+
         if (!frameOptions) {
             const errorMessage = `${methodName} is called without frameOptions`;
             this.onChange(
@@ -117,7 +255,7 @@ export class EmbeddingContext implements IEmbeddingContext {
                 ),
                 {frame: null}
             );
-            throw new Error(errorMessage);
+            throw new InvalidFrameOptionsError(errorMessage, EmbeddingErrorCode.NO_FRAME_OPTIONS);
         }
 
         if (typeof frameOptions !== 'object' || Array.isArray(frameOptions)) {
@@ -129,7 +267,7 @@ export class EmbeddingContext implements IEmbeddingContext {
                 }),
                 {frame: null}
             );
-            throw new Error(errorMessage);
+            throw new InvalidFrameOptionsError(errorMessage, EmbeddingErrorCode.INVALID_FRAME_OPTIONS);
         }
 
         const recognizedKeys = [
@@ -141,6 +279,10 @@ export class EmbeddingContext implements IEmbeddingContext {
             'withIframePlaceholder',
             'onChange',
             'className',
+            'iframeAttributes',
+            'lazy',
+            'loadTimeoutMs',
+            'sessionRecovery',
         ];
 
         const unrecognizedFrameOptionNames = Object.keys(frameOptions).filter(key => !recognizedKeys.includes(key));
@@ -156,39 +298,143 @@ export class EmbeddingContext implements IEmbeddingContext {
 
             this.logger?.warn(warnMessage);
         }
+
+        const iframeAttributeProblems = frameOptions.iframeAttributes
+            ? Iframe.validateAttributes(frameOptions.iframeAttributes)
+            : [];
+
+        if (iframeAttributeProblems.length > 0) {
+            const errorMessage = `${methodName} is called with iframeAttributes QuickSight can not load with: ${iframeAttributeProblems.join(
+                ', '
+            )}`;
+            this.onChange(
+                new ChangeEvent(ChangeEventName.INVALID_FRAME_OPTIONS, ChangeEventLevel.ERROR, errorMessage, {
+                    methodName,
+                    iframeAttributeProblems,
+                }),
+                {frame: null}
+            );
+            throw new InvalidFrameOptionsError(errorMessage, EmbeddingErrorCode.INVALID_FRAME_OPTIONS);
+        }
+    };
+
+    private validateUrlPolicy = (url: string, methodName: string) => {
+        if (!url || (!this.allowedHosts && !this.allowedRegions)) {
+            return;
+        }
+
+        const hostname = this.getUrlHostname(url);
+        let errorMessage: string | undefined;
+
+        if (!hostname) {
+            errorMessage = `${methodName} is called with an embed url that can not be parsed`;
+        } else if (
+            this.allowedHosts &&
+            !this.allowedHosts.some(allowedHost => this.isHostMatch(hostname, allowedHost))
+        ) {
+            errorMessage = `${methodName} is called with an embed url of a host that is not allowed: "${hostname}"`;
+        } else if (this.allowedRegions && !this.allowedRegions.includes(this.getRegion(hostname) ?? '')) {
+            errorMessage = `${methodName} is called with an embed url of a region that is not allowed: "${hostname}"`;
+        }
+
+        if (errorMessage) {
+            this.onChange(
+                new ChangeEvent(ChangeEventName.URL_NOT_ALLOWED, ChangeEventLevel.ERROR, errorMessage, {
+                    methodName,
+                    url,
+                }),
+                {frame: null}
+            );
+            throw new UrlNotAllowedError(errorMessage);
+        }
+    };
+
+    private getUrlHostname = (url: string) => {
+        try {
+            return new URL(url).hostname.toLowerCase();
+        } catch (error) {
+            return undefined;
+        }
+    };
+
+    // An allowed host starting with "*." matches its subdomains, e.g. "*.quicksight.aws.amazon.com"
+    private isHostMatch = (hostname: string, allowedHost: string) => {
+        if (allowedHost.startsWith('*.')) {
+            return hostname.endsWith(allowedHost.slice(1));
+        }
+
+        return hostname === allowedHost;
+    };
+
+    // QuickSight hosts start with the region, e.g. "us-east-1.quicksight.aws.amazon.com"
+    private getRegion = (hostname: string) => {
+        return /^([a-z]{2}(?:-gov)?-[a-z]+-\d+)\./.exec(hostname)?.[1];
     };
 
     private buildControlOptions = (frameOptions: FrameOptions): ControlOptions => {
         if (!this.controlOptions) {
             if (!frameOptions.url) {
-                throw new Error('URL is missing in frame options, but is a required field');
+                throw new MissingUrlError('URL is missing in frame options, but is a required field');
             }
 
             const urlInfo = this.getControlUrlInfo(frameOptions.url);
 
-            const controlFrame = new ControlExperience(
+            this.controlExperience = new ControlExperience(
                 this.getBodyElement(),
                 {
                     eventManager: this.eventManager,
                     urlInfo,
                     contextId: this.contextId,
+                    allowedOrigins: this.allowedOrigins,
+                    createTransport: this.createTransport,
+                    recorder: this.recorder,
                 },
                 this.onChange
             ).setLogger(this.logger);
 
             this.controlOptions = {
                 eventManager: this.eventManager,
-                sendToControlFrame: controlFrame.send,
+                sendToControlFrame: this.controlExperience.send,
                 contextId: this.contextId,
                 timeout: ControlExperience.FRAME_TIMEOUT,
+                commandOptions: this.commandOptions,
+                allowedOrigins: this.allowedOrigins,
                 urlInfo,
+                getSessionUrl: this.getSessionUrl,
+                refreshControlFrame: this.refreshControlFrame,
+                onFrameMessage: this.controlExperience.handleMessageEvent,
+                onChannelChange: this.controlExperience.onChannelChange,
+                registerFrameWindow: this.controlExperience.registerFrameWindow,
+                createTransport: this.createTransport,
+                recorder: this.recorder,
             };
         }
 
         return this.controlOptions;
     };
 
-    private onChange = (event: EmbeddingEvents, metadata?: ExperienceFrameMetadata) => {
+    private getSessionUrl = async (experience: Experiences) => {
+        if (!this.urlProvider) {
+            throw new MissingUrlError('No url provider has been set on the embedding context');
+        }
+
+        return this.urlProvider(experience);
+    };
+
+    // Embed urls of a new session point at a new session id, so the control frame is moved to the new session as well
+    private refreshControlFrame = (url: string) => {
+        this.validateUrlPolicy(url, 'refreshSession');
+        const urlInfo = this.getControlUrlInfo(url);
+
+        if (!this.controlOptions || urlInfo.sessionId === this.controlOptions.urlInfo.sessionId) {
+            return;
+        }
+
+        this.controlOptions.urlInfo = urlInfo;
+        this.controlExperience?.refresh(urlInfo);
+    };
+
+    private onChange = (event: EmbeddingEventOf<ChangeEventName>, metadata?: ExperienceFrameMetadata) => {
         if (this.contextOnChange) {
             this.contextOnChange(event, metadata);
         }
@@ -198,7 +444,7 @@ export class EmbeddingContext implements IEmbeddingContext {
         const matches: Array<string> = /^(https:\/\/[^/]+)\/(embedding|embed)\/([^/]+)\/[^?]+\?(.*)/i.exec(url) || [];
 
         if (matches?.length < 4) {
-            throw new Error(`Invalid embedding url: "${url}"`);
+            throw new InvalidUrlError(`Invalid embedding url: "${url}"`);
         }
 
         return {
@@ -216,7 +462,7 @@ export class EmbeddingContext implements IEmbeddingContext {
             const message = 'could not locate <body> element in the page';
             this.onChange(new ChangeEvent(ChangeEventName.NO_BODY, ChangeEventLevel.ERROR, message), {frame: null});
 
-            throw new Error(message);
+            throw new BodyNotFoundError(message);
         }
 
         return body;
@@ -1,13 +1,29 @@
 // Copyright 2023 Amazon.com, Inc. or its affiliates. All Rights Reserved.
 // SPDX-License-Identifier: Apache-2.0
 
-import {ExperienceType, FrameOptions, IBaseExperience} from '@experience/base-experience/types';
+import {
+    CommandOptions,
+    ExperienceType,
+    FrameOptions,
+    IBaseExperience,
+    UrlProvider,
+} from '@experience/base-experience/types';
 import {DashboardContentOptions} from '@experience/dashboard-experience/types';
 import {VisualContentOptions} from '@experience/visual-experience/types';
 import {QSearchContentOptions} from '@experience/q-search-experience/types';
 import {ConsoleContentOptions} from '@experience/console-experience/types';
 import {EmbeddingIFrameElement} from '../iframe';
-import {EventListener} from '../event-manager';
+import {EmbeddingEventOf, MessageEventName} from '../events';
+import {
+    ChangeEventListener,
+    EventFilter,
+    EventListener,
+    EventStream,
+    EventSubscription,
+    WaitForOptions,
+} from '../event-manager';
+import {EmbeddingTransportFactory} from '../transport';
+import {TrafficRecorder, TrafficRecording} from '../recorder';
 import {DashboardExperience} from '@experience/dashboard-experience/dashboard-experience';
 import {VisualExperience} from '@experience/visual-experience/visual-experience';
 import {ConsoleExperience} from '@experience/console-experience/console-experience';
@@ -18,7 +34,12 @@ export type ExperienceFrameMetadata = {
 };
 
 export type EmbeddingContextFrameOptions = {
-    onChange?: EventListener;
+    onChange?: ChangeEventListener;
+    commandOptions?: CommandOptions;
+    allowedOrigins?: string[];
+    allowedHosts?: string[];
+    allowedRegions?: string[];
+    createTransport?: EmbeddingTransportFactory;
 };
 
 export interface IContextExperience extends IBaseExperience {
@@ -29,6 +50,8 @@ export interface InternalContextExperience extends IContextExperience {
     contextId: string;
 }
 
+export type EmbeddedExperience = DashboardExperience | VisualExperience | ConsoleExperience | QSearchExperience;
+
 export type IEmbeddingContext = {
     embedDashboard: (
         frameOptions: FrameOptions,
@@ -37,4 +60,19 @@ export type IEmbeddingContext = {
     embedVisual: (frameOptions: FrameOptions, contentOptions?: VisualContentOptions) => Promise<VisualExperience>;
     embedQSearchBar: (frameOptions: FrameOptions, contentOptions?: QSearchContentOptions) => Promise<QSearchExperience>;
     embedConsole: (frameOptions: FrameOptions, contentOptions?: ConsoleContentOptions) => Promise<ConsoleExperience>;
+    setUrlProvider: (urlProvider: UrlProvider) => IEmbeddingContext;
+    destroy: () => void;
+    startRecording: () => TrafficRecorder;
+    stopRecording: () => TrafficRecording;
+    addEventListener: <EventName extends MessageEventName>(
+        filter: EventFilter<EventName>,
+        listener: EventListener<EmbeddingEventOf<EventName>>
+    ) => EventSubscription;
+    events: <EventName extends MessageEventName = MessageEventName>(
+        eventNames?: EventName | EventName[]
+    ) => EventStream<EmbeddingEventOf<EventName>>;
+    waitFor: <EventName extends MessageEventName>(
+        filter: EventFilter<EventName>,
+        options?: WaitForOptions
+    ) => Promise<EmbeddingEventOf<EventName>>;
 };
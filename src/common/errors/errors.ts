@@ -0,0 +1,247 @@
+// Copyright 2023 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+
+import {EmbeddingErrorCode} from './types';
+import {ResponseMessage} from '../events/events';
+
+/**
+ * Base class of the errors thrown by the SDK, the code tells what went wrong without parsing the message
+ */
+export class EmbeddingError extends Error {
+    public readonly code: EmbeddingErrorCode;
+
+    constructor(code: EmbeddingErrorCode, message: string) {
+        super(message);
+        // Restores the prototype chain, which is lost when extending built-ins with an ES5 target
+        Object.setPrototypeOf(this, new.target.prototype);
+        this.name = 'EmbeddingError';
+        this.code = code;
+    }
+}
+
+export class InvalidUrlError extends EmbeddingError {
+    constructor(message: string) {
+        super(EmbeddingErrorCode.INVALID_URL, message);
+        this.name = 'InvalidUrlError';
+    }
+}
+
+export class UrlNotAllowedError extends EmbeddingError {
+    constructor(message: string) {
+        super(EmbeddingErrorCode.URL_NOT_ALLOWED, message);
+        this.name = 'UrlNotAllowedError';
+    }
+}
+
+export class MissingUrlError extends EmbeddingError {
+    constructor(message: string) {
+        super(EmbeddingErrorCode.NO_URL, message);
+        this.name = 'MissingUrlError';
+    }
+}
+
+export class ContainerNotFoundError extends EmbeddingError {
+    constructor(
+        message: string,
+        code: typeof EmbeddingErrorCode.NO_CONTAINER | typeof EmbeddingErrorCode.INVALID_CONTAINER
+    ) {
+        super(code, message);
+        this.name = 'ContainerNotFoundError';
+    }
+}
+
+export class BodyNotFoundError extends EmbeddingError {
+    constructor(message: string) {
+        super(EmbeddingErrorCode.NO_BODY, message);
+        this.name = 'BodyNotFoundError';
+    }
+}
+
+export class InvalidFrameOptionsError extends EmbeddingError {
+    constructor(
+        message: string,
+        code: typeof EmbeddingErrorCode.NO_FRAME_OPTIONS | typeof EmbeddingErrorCode.INVALID_FRAME_OPTIONS
+    ) {
+        super(code, message);
+        this.name = 'InvalidFrameOptionsError';
+    }
+}
+
+/**
+ * Rejection of the load of an experience frame that did not load in time
+ */
+export class FrameTimeoutError extends EmbeddingError {
+    public readonly timeoutMs?: number;
+
+    constructor(message: string, timeoutMs?: number) {
+        super(EmbeddingErrorCode.FRAME_NOT_CREATED, message);
+        this.name = 'FrameTimeoutError';
+        this.timeoutMs = timeoutMs;
+    }
+}
+
+/**
+ * Thrown when the experience frame could not be created, or is used before it has been created
+ */
+export class FrameNotCreatedError extends EmbeddingError {
+    constructor(message: string) {
+        super(EmbeddingErrorCode.FRAME_NOT_CREATED, message);
+        this.name = 'FrameNotCreatedError';
+    }
+}
+
+/**
+ * Thrown when an experience frame is used after it has been unmounted, or removed from the document
+ */
+export class FrameUnmountedError extends EmbeddingError {
+    constructor(message: string) {
+        super(EmbeddingErrorCode.FRAME_UNMOUNTED, message);
+        this.name = 'FrameUnmountedError';
+    }
+}
+
+/**
+ * Thrown when an experience is used before its frame has been set up
+ */
+export class ExperienceNotInitializedError extends EmbeddingError {
+    constructor(message: string) {
+        super(EmbeddingErrorCode.EXPERIENCE_NOT_INITIALIZED, message);
+        this.name = 'ExperienceNotInitializedError';
+    }
+}
+
+/**
+ * Thrown when an embedding context is used after it has been destroyed
+ */
+export class ContextDestroyedError extends EmbeddingError {
+    constructor(message: string) {
+        super(EmbeddingErrorCode.CONTEXT_DESTROYED, message);
+        this.name = 'ContextDestroyedError';
+    }
+}
+
+/**
+ * Thrown when an experience is not one of the experience types of the SDK
+ */
+export class InvalidExperienceError extends EmbeddingError {
+    constructor(message: string) {
+        super(EmbeddingErrorCode.INVALID_EXPERIENCE, message);
+        this.name = 'InvalidExperienceError';
+    }
+}
+
+/**
+ * Thrown when no event listener has been registered for an experience
+ */
+export class UnknownExperienceError extends EmbeddingError {
+    public readonly experienceId: string;
+
+    constructor(experienceId: string, message: string) {
+        super(EmbeddingErrorCode.UNKNOWN_EXPERIENCE, message);
+        this.name = 'UnknownExperienceError';
+        this.experienceId = experienceId;
+    }
+}
+
+/**
+ * Thrown when an event listener is registered without an experience, or is not a function
+ */
+export class InvalidEventListenerError extends EmbeddingError {
+    constructor(message: string) {
+        super(EmbeddingErrorCode.INVALID_EVENT_LISTENER, message);
+        this.name = 'InvalidEventListenerError';
+    }
+}
+
+/**
+ * Rejection of a command that did not receive a response from the experience in time
+ */
+export class CommandTimeoutError extends EmbeddingError {
+    public readonly eventName: string;
+    public readonly timeoutMs: number;
+
+    constructor(eventName: string, timeoutMs: number) {
+        super(EmbeddingErrorCode.COMMAND_TIMED_OUT, `${eventName} timed out`);
+        this.name = 'CommandTimeoutError';
+        this.eventName = eventName;
+        this.timeoutMs = timeoutMs;
+    }
+}
+
+/**
+ * Rejection of a command that was cancelled before the experience responded,
+ * either through its abort signal or because the experience frame went away
+ */
+export class CommandAbortedError extends EmbeddingError {
+    public readonly eventName: string;
+
+    constructor(eventName: string, message = `${eventName} was aborted`) {
+        super(EmbeddingErrorCode.COMMAND_ABORTED, message);
+        this.name = 'CommandAbortedError';
+        this.eventName = eventName;
+    }
+}
+
+/**
+ * Rejection of a command the experience responded to without the expected result
+ */
+export class CommandRejectedError extends EmbeddingError {
+    public readonly eventName: string;
+    public readonly response?: ResponseMessage;
+
+    constructor(eventName: string, message: string, response?: ResponseMessage) {
+        super(EmbeddingErrorCode.COMMAND_REJECTED, message);
+        this.name = 'CommandRejectedError';
+        this.eventName = eventName;
+        this.response = response;
+    }
+}
+
+/**
+ * Rejection of a wait for an event that the experience did not emit in time
+ */
+export class EventTimeoutError extends EmbeddingError {
+    public readonly timeoutMs: number;
+
+    constructor(message: string, timeoutMs: number) {
+        super(EmbeddingErrorCode.EVENT_TIMED_OUT, message);
+        this.name = 'EventTimeoutError';
+        this.timeoutMs = timeoutMs;
+    }
+}
+
+/**
+ * Rejection of a wait for an event when the experience is unmounted, or the embedding context destroyed, before it arrives
+ */
+export class EventAbortedError extends EmbeddingError {
+    constructor(message: string) {
+        super(EmbeddingErrorCode.EVENT_ABORTED, message);
+        this.name = 'EventAbortedError';
+    }
+}
+
+/**
+ * Thrown when a parameter can not be built from the given values
+ */
+export class InvalidParameterError extends EmbeddingError {
+    public readonly parameterName: string;
+
+    constructor(parameterName: string, message: string) {
+        super(EmbeddingErrorCode.INVALID_PARAMETER, message);
+        this.name = 'InvalidParameterError';
+        this.parameterName = parameterName;
+    }
+}
+
+/**
+ * Thrown when a filter group builder is given a filter or a scope QuickSight would not accept
+ */
+export class InvalidFilterGroupError extends EmbeddingError {
+    public readonly filterGroupId: string;
+
+    constructor(filterGroupId: string, message: string) {
+        super(EmbeddingErrorCode.INVALID_FILTER_GROUP, message);
+        this.name = 'InvalidFilterGroupError';
+        this.filterGroupId = filterGroupId;
+    }
+}
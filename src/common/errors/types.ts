@@ -0,0 +1,26 @@
+// Copyright 2023 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+
+import {ErrorChangeEventName} from '../events/messages';
+
+/**
+ * Errors that are also reported through a change event carry the name of that change event as their code
+ */
+export const EmbeddingErrorCode = {
+    ...ErrorChangeEventName,
+    COMMAND_TIMED_OUT: 'COMMAND_TIMED_OUT',
+    COMMAND_ABORTED: 'COMMAND_ABORTED',
+    COMMAND_REJECTED: 'COMMAND_REJECTED',
+    EVENT_TIMED_OUT: 'EVENT_TIMED_OUT',
+    EVENT_ABORTED: 'EVENT_ABORTED',
+    INVALID_PARAMETER: 'INVALID_PARAMETER',
+    INVALID_FILTER_GROUP: 'INVALID_FILTER_GROUP',
+    FRAME_UNMOUNTED: 'FRAME_UNMOUNTED',
+    EXPERIENCE_NOT_INITIALIZED: 'EXPERIENCE_NOT_INITIALIZED',
+    CONTEXT_DESTROYED: 'CONTEXT_DESTROYED',
+    INVALID_EXPERIENCE: 'INVALID_EXPERIENCE',
+    UNKNOWN_EXPERIENCE: 'UNKNOWN_EXPERIENCE',
+    INVALID_EVENT_LISTENER: 'INVALID_EVENT_LISTENER',
+} as const;
+
+export type EmbeddingErrorCode = (typeof EmbeddingErrorCode)[keyof typeof EmbeddingErrorCode];
@@ -1,9 +1,42 @@
 // Copyright 2023 Amazon.com, Inc. or its affiliates. All Rights Reserved.
 // SPDX-License-Identifier: Apache-2.0
 
-import {ExperienceIdentifier, EventListener} from './types';
-import {EmbeddingEvents} from '../events';
+import {
+    ALL_EXPERIENCES,
+    EventFilter,
+    EventListener,
+    EventPredicate,
+    EventSubscription,
+    ExperienceIdentifier,
+    SubscriptionOptions,
+    WaitForOptions,
+} from './types';
+import {EmbeddingEventOf, EmbeddingEvents, MessageEventName} from '../events';
 import {CleanUpCallback} from '../types';
+import {
+    EventAbortedError,
+    EventTimeoutError,
+    InvalidEventListenerError,
+    UnknownExperienceError,
+} from '../errors/errors';
+
+const toEventPredicate = (filter: EventFilter): EventPredicate => {
+    if (typeof filter === 'function') {
+        return filter;
+    }
+
+    const eventNames: string[] = Array.isArray(filter) ? filter : [filter];
+
+    return event => eventNames.includes(event.eventName);
+};
+
+const describeEventFilter = (filter: EventFilter) => {
+    if (typeof filter === 'function') {
+        return 'an event matching the predicate';
+    }
+
+    return Array.isArray(filter) ? filter.join(' or ') : filter;
+};
 
 /**
  * Manages the event listeners for the experiences within an embedding context
@@ -19,11 +52,11 @@ export class EventManager {
 
     public addEventListener = (experienceId: ExperienceIdentifier, listener: EventListener, cleanUp?: boolean) => {
         if (!experienceId) {
-            throw new Error('Experience identifier is required when calling addEventListener');
+            throw new InvalidEventListenerError('Experience identifier is required when calling addEventListener');
         }
 
         if (typeof listener !== 'function') {
-            throw new Error('Invalid type provided for event listener');
+            throw new InvalidEventListenerError('Invalid type provided for event listener');
         }
 
         const experienceIdentifierSpecificListeners = this.eventListeners.get(experienceId);
@@ -45,21 +78,124 @@ export class EventManager {
         const experienceIdentifierSpecificListeners = this.eventListeners.get(experienceId);
 
         if (!experienceIdentifierSpecificListeners) {
-            throw new Error(`Unable to find experience specific event listeners: ${experienceId}`);
+            throw new UnknownExperienceError(
+                experienceId,
+                `Unable to find experience specific event listeners: ${experienceId}`
+            );
         }
 
         experienceIdentifierSpecificListeners.forEach((listener: EventListener) => {
             listener(event);
         });
 
+        this.eventListeners.get(ALL_EXPERIENCES)?.forEach((listener: EventListener) => {
+            listener(event);
+        });
+
         return this;
     };
 
+    /**
+     * Adds a listener that only receives the events selected by the filter.
+     * Pass ALL_EXPERIENCES as the identifier to receive the events of every experience
+     */
+    public subscribe = <EventName extends MessageEventName>(
+        experienceId: ExperienceIdentifier,
+        filter: EventFilter<EventName>,
+        listener: EventListener<EmbeddingEventOf<EventName>>,
+        options: SubscriptionOptions = {}
+    ): EventSubscription => {
+        const matches = toEventPredicate(filter);
+
+        const handler: EventListener = (event, metadata) => {
+            if (!matches(event)) {
+                return;
+            }
+
+            if (options.once) {
+                subscription.remove();
+            }
+
+            listener(event as EmbeddingEventOf<EventName>, metadata);
+        };
+
+        // The cleanup callback is unregistered along with the listener, so that removed subscriptions do not pile up
+        const cleanUp = () => this.removeEventListener(experienceId, handler);
+        const subscription = {
+            remove: () => {
+                this.removeEventListener(experienceId, handler);
+                this.removeEventListenerForCleanup(experienceId, cleanUp);
+            },
+        };
+
+        this.addEventListener(experienceId, handler);
+
+        if (options.cleanUp) {
+            this.addEventListenerForCleanup(experienceId, cleanUp);
+        }
+
+        return subscription;
+    };
+
+    public once = <EventName extends MessageEventName>(
+        experienceId: ExperienceIdentifier,
+        filter: EventFilter<EventName>,
+        listener: EventListener<EmbeddingEventOf<EventName>>,
+        cleanUp?: boolean
+    ): EventSubscription => {
+        return this.subscribe(experienceId, filter, listener, {once: true, cleanUp});
+    };
+
+    /**
+     * Resolves with the next event selected by the filter.
+     * Rejects with an EventAbortedError when the experience is cleaned up before the event arrives
+     */
+    public waitFor = <EventName extends MessageEventName>(
+        experienceId: ExperienceIdentifier,
+        filter: EventFilter<EventName>,
+        options: WaitForOptions = {}
+    ): Promise<EmbeddingEventOf<EventName>> => {
+        const {timeout} = options;
+
+        return new Promise((resolve, reject) => {
+            let timeoutId: ReturnType<typeof setTimeout> | undefined;
+
+            const settle = () => {
+                clearTimeout(timeoutId);
+                this.removeEventListenerForCleanup(experienceId, abort);
+            };
+
+            const abort = () => {
+                clearTimeout(timeoutId);
+                subscription.remove();
+                reject(new EventAbortedError(`Stopped waiting for ${describeEventFilter(filter)}`));
+            };
+
+            const subscription = this.once(experienceId, filter, event => {
+                settle();
+                resolve(event);
+            });
+
+            this.addEventListenerForCleanup(experienceId, abort);
+
+            if (timeout !== undefined) {
+                timeoutId = setTimeout(() => {
+                    settle();
+                    subscription.remove();
+                    reject(new EventTimeoutError(`Timed out waiting for ${describeEventFilter(filter)}`, timeout));
+                }, timeout);
+            }
+        });
+    };
+
     public removeEventListener = (experienceId: ExperienceIdentifier, listener: EventListener) => {
         const experienceIdentifierSpecificListeners = this.eventListeners.get(experienceId);
 
         if (!experienceIdentifierSpecificListeners) {
-            throw new Error(`Unable to find experience specific event listeners: ${experienceId}`);
+            throw new UnknownExperienceError(
+                experienceId,
+                `Unable to find experience specific event listeners: ${experienceId}`
+            );
         }
 
         const updateEventListeners = experienceIdentifierSpecificListeners.filter(
@@ -78,6 +214,17 @@ export class EventManager {
         this.cleanUpCallbacks.set(experienceId, experienceIdentifierSpecificListenersForCleanup);
     };
 
+    public removeEventListenerForCleanup = (experienceId: ExperienceIdentifier, cleanupCallback: CleanUpCallback) => {
+        const experienceIdentifierSpecificListenersForCleanup = this.cleanUpCallbacks.get(experienceId);
+
+        if (experienceIdentifierSpecificListenersForCleanup) {
+            this.cleanUpCallbacks.set(
+                experienceId,
+                experienceIdentifierSpecificListenersForCleanup.filter(callback => callback !== cleanupCallback)
+            );
+        }
+    };
+
     public cleanUpCallbacksForExperience = (experienceId: ExperienceIdentifier) => {
         const experienceIdentifierSpecificListenersForCleanup = this.cleanUpCallbacks.get(experienceId);
 
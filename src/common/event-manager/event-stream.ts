@@ -0,0 +1,110 @@
+// Copyright 2023 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+
+import {EventManager} from './event-manager';
+import {EventFilter, EventObserver, EventStreamSubscription, EventSubscription, ExperienceIdentifier} from './types';
+import {EmbeddingEvents} from '../events';
+
+/**
+ * Events of an experience, or of every experience of a context, that can be consumed with `for await`
+ * or converted into an observable. Every subscriber and iterator gets its own listener, which is removed when
+ * it unsubscribes and completed when the experience frame is removed or the context is destroyed
+ */
+export class EventStream<Event extends EmbeddingEvents = EmbeddingEvents> {
+    private readonly eventManager: EventManager;
+    private readonly experienceId: ExperienceIdentifier;
+    private readonly filter: EventFilter;
+
+    constructor(eventManager: EventManager, experienceId: ExperienceIdentifier, filter: EventFilter = () => true) {
+        this.eventManager = eventManager;
+        this.experienceId = experienceId;
+        this.filter = filter;
+
+        // Observable libraries such as RxJS look the interop method up under Symbol.observable when it is polyfilled
+        const observableSymbol = (Symbol as {observable?: symbol}).observable;
+
+        if (observableSymbol) {
+            Object.defineProperty(this, observableSymbol, {value: this['@@observable']});
+        }
+    }
+
+    public subscribe = (observerOrNext?: EventObserver<Event> | ((event: Event) => void)): EventStreamSubscription => {
+        const observer = typeof observerOrNext === 'function' ? {next: observerOrNext} : observerOrNext ?? {};
+
+        const streamSubscription = {
+            closed: false,
+            unsubscribe: () => {
+                if (!streamSubscription.closed) {
+                    streamSubscription.closed = true;
+                    subscription.remove();
+                    this.eventManager.removeEventListenerForCleanup(this.experienceId, complete);
+                }
+            },
+        };
+
+        const complete = () => {
+            if (!streamSubscription.closed) {
+                streamSubscription.closed = true;
+                observer.complete?.();
+            }
+        };
+
+        const subscription: EventSubscription = this.eventManager.subscribe(
+            this.experienceId,
+            this.filter,
+            event => observer.next?.(event as Event),
+            {cleanUp: true}
+        );
+
+        this.eventManager.addEventListenerForCleanup(this.experienceId, complete);
+
+        return streamSubscription;
+    };
+
+    public '@@observable' = () => this;
+
+    public [Symbol.asyncIterator] = (): AsyncIterator<Event> => {
+        const bufferedEvents: Event[] = [];
+        const pendingResults: ((result: IteratorResult<Event>) => void)[] = [];
+        let isDone = false;
+
+        const finish = () => {
+            isDone = true;
+            pendingResults.splice(0).forEach(resolve => resolve({done: true, value: undefined}));
+        };
+
+        const subscription = this.subscribe({
+            next: event => {
+                const resolve = pendingResults.shift();
+
+                if (resolve) {
+                    resolve({done: false, value: event});
+                } else {
+                    bufferedEvents.push(event);
+                }
+            },
+            complete: finish,
+        });
+
+        return {
+            next: () => {
+                const event = bufferedEvents.shift();
+
+                if (event) {
+                    return Promise.resolve({done: false, value: event});
+                }
+
+                if (isDone) {
+                    return Promise.resolve({done: true, value: undefined});
+                }
+
+                return new Promise(resolve => pendingResults.push(resolve));
+            },
+            return: () => {
+                subscription.unsubscribe();
+                finish();
+                return Promise.resolve({done: true, value: undefined});
+            },
+        };
+    };
+}
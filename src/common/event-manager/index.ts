@@ -3,3 +3,4 @@
 
 export * from './types';
 export * from './event-manager';
+export * from './event-stream';
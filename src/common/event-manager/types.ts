@@ -2,8 +2,57 @@
 // SPDX-License-Identifier: Apache-2.0
 
 import {ExperienceFrameMetadata} from '../embedding-context';
-import {EmbeddingEvents} from '../events';
+import {ChangeEventName, EmbeddingEventOf, EmbeddingEvents, MessageEventName} from '../events';
 
 export type ExperienceIdentifier = string;
 
-export type EventListener = (event: EmbeddingEvents, metadata?: ExperienceFrameMetadata) => void;
+/**
+ * Listeners registered under this identifier receive the events of every experience of the embedding context
+ */
+export const ALL_EXPERIENCES: ExperienceIdentifier = '*';
+
+export type EventListener<Event extends EmbeddingEvents = EmbeddingEvents> = (
+    event: Event,
+    metadata?: ExperienceFrameMetadata
+) => void;
+
+export type MessageEventListener = EventListener<EmbeddingEventOf<MessageEventName>>;
+
+export type ChangeEventListener = EventListener<EmbeddingEventOf<ChangeEventName>>;
+
+export type EventPredicate = (event: EmbeddingEvents) => boolean;
+
+/**
+ * Selects the events delivered to a listener, either by one or more event names or through a predicate
+ */
+export type EventFilter<EventName extends MessageEventName = MessageEventName> =
+    | EventName
+    | EventName[]
+    | EventPredicate;
+
+export type SubscriptionOptions = {
+    // Removes the listener after the first matching event
+    once?: boolean;
+    // Removes the listener when the experience is cleaned up
+    cleanUp?: boolean;
+};
+
+export type WaitForOptions = {
+    // Rejects with an EventTimeoutError when no matching event arrives within this many milliseconds
+    timeout?: number;
+};
+
+export type EventSubscription = {
+    remove: () => void;
+};
+
+export type EventObserver<Event extends EmbeddingEvents = EmbeddingEvents> = {
+    next?: (event: Event) => void;
+    error?: (error: unknown) => void;
+    complete?: () => void;
+};
+
+export type EventStreamSubscription = {
+    closed: boolean;
+    unsubscribe: () => void;
+};
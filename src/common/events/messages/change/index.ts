@@ -1,10 +1,13 @@
 import {ChangeEvent} from '@common/events/events';
 
 export const InfoChangeEventName = {
+    FRAME_DEFERRED: 'FRAME_DEFERRED',
     FRAME_STARTED: 'FRAME_STARTED',
     FRAME_MOUNTED: 'FRAME_MOUNTED',
     FRAME_LOADED: 'FRAME_LOADED',
     FRAME_REMOVED: 'FRAME_REMOVED',
+    CONTEXT_DESTROYED: 'CONTEXT_DESTROYED',
+    SESSION_REFRESHED: 'SESSION_REFRESHED',
 } as const;
 
 export type InfoChangeEventName = (typeof InfoChangeEventName)[keyof typeof InfoChangeEventName];
@@ -16,8 +19,11 @@ export const ErrorChangeEventName = {
     INVALID_CONTAINER: 'INVALID_CONTAINER',
     NO_URL: 'NO_URL',
     INVALID_URL: 'INVALID_URL',
+    URL_NOT_ALLOWED: 'URL_NOT_ALLOWED',
     NO_FRAME_OPTIONS: 'NO_FRAME_OPTIONS',
     INVALID_FRAME_OPTIONS: 'INVALID_FRAME_OPTIONS',
+    SESSION_RECOVERY_FAILED: 'SESSION_RECOVERY_FAILED',
+    RETRY_FAILED: 'RETRY_FAILED',
 } as const;
 
 export type ErrorChangeEventName = (typeof ErrorChangeEventName)[keyof typeof ErrorChangeEventName];
@@ -26,6 +32,8 @@ export const WarnChangeEventName = {
     UNRECOGNIZED_CONTENT_OPTIONS: 'UNRECOGNIZED_CONTENT_OPTIONS',
     UNRECOGNIZED_FRAME_OPTIONS: 'UNRECOGNIZED_FRAME_OPTIONS',
     UNRECOGNIZED_EVENT_TARGET: 'UNRECOGNIZED_EVENT_TARGET',
+    UNTRUSTED_MESSAGE_ORIGIN: 'UNTRUSTED_MESSAGE_ORIGIN',
+    MALFORMED_MESSAGE: 'MALFORMED_MESSAGE',
 } as const;
 
 export type WarnChangeEventName = (typeof WarnChangeEventName)[keyof typeof WarnChangeEventName];
@@ -33,16 +41,24 @@ export type WarnChangeEventName = (typeof WarnChangeEventName)[keyof typeof Warn
 export type ChangeMessageEvents =
     | ChangeEvent<typeof InfoChangeEventName.FRAME_LOADED, string>
     | ChangeEvent<typeof InfoChangeEventName.FRAME_MOUNTED, string>
+    | ChangeEvent<typeof InfoChangeEventName.FRAME_DEFERRED, string>
     | ChangeEvent<typeof InfoChangeEventName.FRAME_STARTED, string>
     | ChangeEvent<typeof InfoChangeEventName.FRAME_REMOVED, string>
+    | ChangeEvent<typeof InfoChangeEventName.CONTEXT_DESTROYED, string>
+    | ChangeEvent<typeof InfoChangeEventName.SESSION_REFRESHED, string>
     | ChangeEvent<typeof WarnChangeEventName.UNRECOGNIZED_CONTENT_OPTIONS, string>
     | ChangeEvent<typeof WarnChangeEventName.UNRECOGNIZED_FRAME_OPTIONS, string>
     | ChangeEvent<typeof WarnChangeEventName.UNRECOGNIZED_EVENT_TARGET, string>
+    | ChangeEvent<typeof WarnChangeEventName.UNTRUSTED_MESSAGE_ORIGIN, string>
+    | ChangeEvent<typeof WarnChangeEventName.MALFORMED_MESSAGE, string>
     | ChangeEvent<typeof ErrorChangeEventName.FRAME_NOT_CREATED, string>
     | ChangeEvent<typeof ErrorChangeEventName.NO_BODY, string>
     | ChangeEvent<typeof ErrorChangeEventName.NO_CONTAINER, string>
     | ChangeEvent<typeof ErrorChangeEventName.INVALID_CONTAINER, string>
     | ChangeEvent<typeof ErrorChangeEventName.INVALID_URL, string>
+    | ChangeEvent<typeof ErrorChangeEventName.URL_NOT_ALLOWED, string>
     | ChangeEvent<typeof ErrorChangeEventName.NO_URL, string>
     | ChangeEvent<typeof ErrorChangeEventName.NO_FRAME_OPTIONS, string>
-    | ChangeEvent<typeof ErrorChangeEventName.INVALID_FRAME_OPTIONS, string>;
+    | ChangeEvent<typeof ErrorChangeEventName.INVALID_FRAME_OPTIONS, string>
+    | ChangeEvent<typeof ErrorChangeEventName.SESSION_RECOVERY_FAILED, string>
+    | ChangeEvent<typeof ErrorChangeEventName.RETRY_FAILED, string>;
@@ -1,5 +1,5 @@
 import {EmbeddingEvent, TargetedMessageEvent} from '@common/events/events';
-import {Parameter} from '../../../types';
+import {Parameter, ParameterChange} from '../../../types';
 import {Datapoint} from '@experience/dashboard-experience/types';
 
 export const InfoMessageEventName = {
@@ -40,6 +40,7 @@ export type InfoMessageEvents =
           typeof InfoMessageEventName.PARAMETERS_CHANGED,
           {
               changedParameters: Parameter[];
+              parameterChanges?: ParameterChange[];
           }
       >
     | EmbeddingEvent<
@@ -3,6 +3,7 @@ import {EmbeddingMessageEvent, ErrorResponse, SuccessResponse, TargetedMessageEv
 
 export const InvokerMessageEventName = {
     ACKNOWLEDGE: 'ACKNOWLEDGE',
+    ESTABLISH_MESSAGE_CHANNEL: 'ESTABLISH_MESSAGE_CHANNEL',
     INITIATE_PRINT: 'INITIATE_PRINT',
     NAVIGATE_TO_DASHBOARD: 'NAVIGATE_TO_DASHBOARD',
     CLOSE_Q_SEARCH: 'CLOSE_Q_SEARCH',
@@ -19,6 +20,7 @@ export type InvokerMessageEvents =
           typeof InvokerMessageEventName.ACKNOWLEDGE,
           {eventName: string; eventTarget?: InternalExperiences}
       >
+    | TargetedMessageEvent<typeof InvokerMessageEventName.ESTABLISH_MESSAGE_CHANNEL, undefined>
     | EmbeddingMessageEvent<typeof InvokerMessageEventName.INITIATE_PRINT, SuccessResponse | ErrorResponse>
     | EmbeddingMessageEvent<typeof InvokerMessageEventName.NAVIGATE_TO_DASHBOARD, SuccessResponse | ErrorResponse>
     | EmbeddingMessageEvent<typeof InvokerMessageEventName.CLOSE_Q_SEARCH, SuccessResponse | ErrorResponse>
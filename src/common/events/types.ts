@@ -20,6 +20,7 @@ import {
     InvokerMessageEvents,
 } from './messages';
 import type {FilterGroup, ThemeConfiguration} from '@aws-sdk/client-quicksight';
+import type {EmbeddingEvent} from './events';
 
 export const ChangeEventName = {
     ...InfoChangeEventName,
@@ -76,3 +77,23 @@ export type EmbeddingEvents =
     | SetterMessageEvents
     | InfoMessageEvents
     | InvokerMessageEvents;
+
+/**
+ * Messages received from QuickSight always carry the message that is part of their definition
+ */
+export type WithMessage<Event extends EmbeddingEvents> = Event extends EmbeddingEvent<EventNames, infer Message>
+    ? undefined extends Message
+        ? Event
+        : Event & {message: Message}
+    : Event;
+
+/**
+ * Maps every event name to the event emitted under it, so the message of an event is typed from its name alone
+ */
+export type EmbeddingEventMap = {
+    [EventName in EventNames]: EventName extends MessageEventName
+        ? WithMessage<Extract<EmbeddingEvents, {eventName: EventName}>>
+        : Extract<EmbeddingEvents, {eventName: EventName}>;
+};
+
+export type EmbeddingEventOf<EventName extends EventNames> = EmbeddingEventMap[EventName];
@@ -0,0 +1,287 @@
+// Copyright 2023 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+
+import {v4} from 'uuid';
+import type {ColumnIdentifier, Filter, FilterGroup, FilterScopeConfiguration} from '@aws-sdk/client-quicksight';
+import {
+    CategoryFilterOptions,
+    FilterGroupBuilderOptions,
+    NumericRangeFilterOptions,
+    RelativeDatesFilterOptions,
+    TimeRangeFilterOptions,
+    TopBottomFilterOptions,
+} from './types';
+import {InvalidFilterGroupError} from '../errors/errors';
+import type {Sheet, Visual} from '@experience/dashboard-experience/types';
+
+const ALL_VISUALS = 'ALL_VISUALS';
+
+const isPositiveInteger = (value?: number) => typeof value === 'number' && Number.isInteger(value) && value > 0;
+
+/**
+ * Builds a filter group for addFilterGroups and updateFilterGroups, e.g.
+ * `new FilterGroupBuilder().categoryFilter(column, ['WA']).scopeToSheets(sheet).build()`.
+ * Filters and scopes are validated when they are added, and the ids that are not given are generated
+ */
+export class FilterGroupBuilder {
+    private readonly filterGroupId: string;
+    private readonly crossDataset: NonNullable<FilterGroupBuilderOptions['crossDataset']>;
+    private readonly filters: Filter[] = [];
+    // Visual ids scoped by sheet id, or ALL_VISUALS for the sheets scoped as a whole
+    private readonly sheetScopes: Map<string, string[] | typeof ALL_VISUALS> = new Map();
+    private isScopedToAllSheets = false;
+
+    constructor(options: FilterGroupBuilderOptions = {}) {
+        this.filterGroupId = options.filterGroupId ?? v4();
+        this.crossDataset = options.crossDataset ?? 'SINGLE_DATASET';
+    }
+
+    public categoryFilter = (column: ColumnIdentifier, values: string[], options: CategoryFilterOptions = {}) => {
+        this.validateColumn(column);
+
+        if (!options.selectAll && values.length === 0) {
+            this.fail(`The category filter of ${column.ColumnName} requires at least one value`);
+        }
+
+        this.filters.push({
+            CategoryFilter: {
+                FilterId: options.filterId ?? v4(),
+                Column: column,
+                Configuration: {
+                    FilterListConfiguration: {
+                        MatchOperator: options.matchOperator ?? 'EQUALS',
+                        ...(options.selectAll
+                            ? {SelectAllOptions: 'FILTER_ALL_VALUES'}
+                            : {CategoryValues: [...values]}),
+                    },
+                },
+            },
+        });
+
+        return this;
+    };
+
+    public numericRangeFilter = (column: ColumnIdentifier, options: NumericRangeFilterOptions) => {
+        const {minimum, maximum} = options;
+        this.validateColumn(column);
+
+        if (minimum === undefined && maximum === undefined) {
+            this.fail(`The numeric range filter of ${column.ColumnName} requires a minimum or a maximum`);
+        }
+
+        if ([minimum, maximum].some(value => value !== undefined && !isFinite(value))) {
+            this.fail(`The bounds of the numeric range filter of ${column.ColumnName} must be finite numbers`);
+        }
+
+        if (minimum !== undefined && maximum !== undefined && minimum > maximum) {
+            this.fail(`The minimum of the numeric range filter of ${column.ColumnName} is greater than its maximum`);
+        }
+
+        this.filters.push({
+            NumericRangeFilter: {
+                FilterId: options.filterId ?? v4(),
+                Column: column,
+                IncludeMinimum: options.includeMinimum ?? true,
+                IncludeMaximum: options.includeMaximum ?? true,
+                RangeMinimum: minimum === undefined ? undefined : {StaticValue: minimum},
+                RangeMaximum: maximum === undefined ? undefined : {StaticValue: maximum},
+                NullOption: options.nullOption ?? 'NON_NULLS_ONLY',
+            },
+        });
+
+        return this;
+    };
+
+    public timeRangeFilter = (column: ColumnIdentifier, options: TimeRangeFilterOptions) => {
+        const {from, to} = options;
+        this.validateColumn(column);
+
+        if (!from && !to) {
+            this.fail(`The time range filter of ${column.ColumnName} requires a start or an end`);
+        }
+
+        if ([from, to].some(date => date && isNaN(date.getTime()))) {
+            this.fail(`The time range filter of ${column.ColumnName} requires valid dates`);
+        }
+
+        if (from && to && from.getTime() > to.getTime()) {
+            this.fail(`The time range filter of ${column.ColumnName} starts after it ends`);
+        }
+
+        this.filters.push({
+            TimeRangeFilter: {
+                FilterId: options.filterId ?? v4(),
+                Column: column,
+                IncludeMinimum: options.includeMinimum ?? true,
+                IncludeMaximum: options.includeMaximum ?? true,
+                RangeMinimumValue: from ? {StaticValue: from} : undefined,
+                RangeMaximumValue: to ? {StaticValue: to} : undefined,
+                NullOption: options.nullOption ?? 'NON_NULLS_ONLY',
+                TimeGranularity: options.timeGranularity,
+            },
+        });
+
+        return this;
+    };
+
+    public relativeDatesFilter = (column: ColumnIdentifier, options: RelativeDatesFilterOptions) => {
+        const {relativeDateType, relativeDateValue} = options;
+        this.validateColumn(column);
+
+        if ((relativeDateType === 'LAST' || relativeDateType === 'NEXT') && !isPositiveInteger(relativeDateValue)) {
+            this.fail(`The relative dates filter of ${column.ColumnName} requires a positive number of periods`);
+        }
+
+        this.filters.push({
+            RelativeDatesFilter: {
+                FilterId: options.filterId ?? v4(),
+                Column: column,
+                AnchorDateConfiguration: {AnchorOption: options.anchorOption ?? 'NOW'},
+                TimeGranularity: options.timeGranularity,
+                MinimumGranularity: options.minimumGranularity,
+                RelativeDateType: relativeDateType,
+                RelativeDateValue: relativeDateValue,
+                NullOption: options.nullOption ?? 'NON_NULLS_ONLY',
+            },
+        });
+
+        return this;
+    };
+
+    public topBottomFilter = (column: ColumnIdentifier, options: TopBottomFilterOptions) => {
+        this.validateColumn(column);
+        this.validateColumn(options.sortBy);
+
+        if (!isPositiveInteger(options.limit)) {
+            this.fail(`The top bottom filter of ${column.ColumnName} requires a positive limit`);
+        }
+
+        this.filters.push({
+            TopBottomFilter: {
+                FilterId: options.filterId ?? v4(),
+                Column: column,
+                Limit: options.limit,
+                AggregationSortConfigurations: [
+                    {
+                        Column: options.sortBy,
+                        SortDirection: options.sortDirection ?? 'DESC',
+                        AggregationFunction: {
+                            NumericalAggregationFunction: {SimpleNumericalAggregation: options.aggregation ?? 'SUM'},
+                        },
+                    },
+                ],
+            },
+        });
+
+        return this;
+    };
+
+    public scopeToAllSheets = () => {
+        this.isScopedToAllSheets = true;
+        return this;
+    };
+
+    /**
+     * Scopes the filter group to every visual of the sheets, given as ids or as returned by getSheets.
+     * A sheet can not be scoped as a whole once some of its visuals are scoped
+     */
+    public scopeToSheets = (...sheets: Array<string | Sheet>) => {
+        sheets.forEach(sheet => {
+            const sheetId = this.getSheetId(sheet);
+
+            if (Array.isArray(this.sheetScopes.get(sheetId))) {
+                this.fail(`Sheet ${sheetId} can not be scoped as a whole, some of its visuals are scoped`);
+            }
+
+            this.sheetScopes.set(sheetId, ALL_VISUALS);
+        });
+
+        return this;
+    };
+
+    /**
+     * Scopes the filter group to visuals of a sheet, given as ids or as returned by getSheetVisuals.
+     * The visuals of a sheet that is scoped as a whole can not be scoped
+     */
+    public scopeToVisuals = (sheet: string | Sheet, visuals: Array<string | Visual>) => {
+        const sheetId = this.getSheetId(sheet);
+        const sheetScope = this.sheetScopes.get(sheetId) ?? [];
+
+        if (visuals.length === 0) {
+            this.fail(`The scope of sheet ${sheetId} requires at least one visual`);
+        }
+
+        if (sheetScope === ALL_VISUALS) {
+            return this.fail(`The visuals of sheet ${sheetId} can not be scoped, the sheet is scoped as a whole`);
+        }
+
+        const visualIds = visuals.map(visual => (typeof visual === 'string' ? visual : visual.VisualId));
+        this.sheetScopes.set(sheetId, [...sheetScope, ...visualIds.filter(id => !sheetScope.includes(id))]);
+
+        return this;
+    };
+
+    public build = (): FilterGroup => {
+        if (this.filters.length === 0) {
+            this.fail('The filter group requires at least one filter');
+        }
+
+        if (this.isScopedToAllSheets && this.sheetScopes.size > 0) {
+            this.fail('The filter group can not be scoped to all sheets and to selected sheets');
+        }
+
+        if (!this.isScopedToAllSheets && this.sheetScopes.size === 0) {
+            this.fail('The filter group requires a scope');
+        }
+
+        const filterIds = this.filters.map(filter => Object.values(filter).find(Boolean)?.FilterId);
+        const duplicateFilterId = filterIds.find((filterId, index) => filterIds.indexOf(filterId) !== index);
+
+        if (duplicateFilterId) {
+            this.fail(`The filter id ${duplicateFilterId} is used by more than one filter`);
+        }
+
+        return {
+            FilterGroupId: this.filterGroupId,
+            Filters: [...this.filters],
+            ScopeConfiguration: this.buildScopeConfiguration(),
+            CrossDataset: this.crossDataset,
+        };
+    };
+
+    private buildScopeConfiguration = (): FilterScopeConfiguration => {
+        if (this.isScopedToAllSheets) {
+            return {AllSheets: {}};
+        }
+
+        return {
+            SelectedSheets: {
+                SheetVisualScopingConfigurations: Array.from(this.sheetScopes, ([sheetId, visualIds]) =>
+                    visualIds === ALL_VISUALS
+                        ? {SheetId: sheetId, Scope: ALL_VISUALS}
+                        : {SheetId: sheetId, Scope: 'SELECTED_VISUALS', VisualIds: visualIds}
+                ),
+            },
+        };
+    };
+
+    private getSheetId = (sheet: string | Sheet) => {
+        const sheetId = typeof sheet === 'string' ? sheet : sheet.SheetId;
+
+        if (!sheetId) {
+            this.fail('The scope of the filter group requires sheet ids');
+        }
+
+        return sheetId;
+    };
+
+    private validateColumn = (column: ColumnIdentifier) => {
+        if (!column?.DataSetIdentifier || !column?.ColumnName) {
+            this.fail('Filters require a column with a data set identifier and a column name');
+        }
+    };
+
+    private fail = (message: string): never => {
+        throw new InvalidFilterGroupError(this.filterGroupId, message);
+    };
+}
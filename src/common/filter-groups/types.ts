@@ -0,0 +1,65 @@
+// Copyright 2023 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+
+import type {
+    AnchorOption,
+    CategoryFilterMatchOperator,
+    ColumnIdentifier,
+    CrossDatasetTypes,
+    FilterNullOption,
+    RelativeDateType,
+    SimpleNumericalAggregationFunction,
+    SortDirection,
+    TimeGranularity,
+} from '@aws-sdk/client-quicksight';
+
+export type FilterGroupBuilderOptions = {
+    filterGroupId?: string; // default=a generated id
+    crossDataset?: CrossDatasetTypes; // default='SINGLE_DATASET'
+};
+
+export type CategoryFilterOptions = {
+    filterId?: string;
+    matchOperator?: CategoryFilterMatchOperator; // default='EQUALS'
+    // Filters nothing out, the values are ignored
+    selectAll?: boolean; // default=false
+};
+
+export type NumericRangeFilterOptions = {
+    filterId?: string;
+    minimum?: number;
+    maximum?: number;
+    includeMinimum?: boolean; // default=true
+    includeMaximum?: boolean; // default=true
+    nullOption?: FilterNullOption; // default='NON_NULLS_ONLY'
+};
+
+export type TimeRangeFilterOptions = {
+    filterId?: string;
+    from?: Date;
+    to?: Date;
+    includeMinimum?: boolean; // default=true
+    includeMaximum?: boolean; // default=true
+    nullOption?: FilterNullOption; // default='NON_NULLS_ONLY'
+    timeGranularity?: TimeGranularity;
+};
+
+export type RelativeDatesFilterOptions = {
+    filterId?: string;
+    relativeDateType: RelativeDateType;
+    timeGranularity: TimeGranularity;
+    // Number of periods, required for 'LAST' and 'NEXT'
+    relativeDateValue?: number;
+    minimumGranularity?: TimeGranularity;
+    anchorOption?: AnchorOption; // default='NOW'
+    nullOption?: FilterNullOption; // default='NON_NULLS_ONLY'
+};
+
+export type TopBottomFilterOptions = {
+    filterId?: string;
+    limit: number;
+    // Column whose aggregated values rank the values of the filtered column
+    sortBy: ColumnIdentifier;
+    sortDirection?: SortDirection; // default='DESC', the top values
+    aggregation?: SimpleNumericalAggregationFunction; // default='SUM'
+};
@@ -2,10 +2,74 @@
 // SPDX-License-Identifier: Apache-2.0
 
 import {CreatePostRequestOptions, PostRequest} from '../types';
-import {EmbeddingIFrameElement, IframeOptions} from './types';
+import {
+    EmbeddingIFrameElement,
+    IframeAttributes,
+    IframeOptions,
+    IframePlaceholderOptions,
+    PlaceholderRenderer,
+    PlaceholderState,
+} from './types';
+import {MissingUrlError} from '../errors/errors';
 
 export class Iframe {
     static IFRAME_CLASS_NAME = 'quicksight-embedding-iframe';
+
+    static REQUIRED_SANDBOX_TOKENS = ['allow-scripts', 'allow-same-origin'];
+
+    static SANDBOX_TOKENS = [
+        'allow-downloads',
+        'allow-forms',
+        'allow-modals',
+        'allow-orientation-lock',
+        'allow-pointer-lock',
+        'allow-popups',
+        'allow-popups-to-escape-sandbox',
+        'allow-presentation',
+        'allow-same-origin',
+        'allow-scripts',
+        'allow-storage-access-by-user-activation',
+        'allow-top-navigation',
+        'allow-top-navigation-by-user-activation',
+        'allow-top-navigation-to-custom-protocols',
+    ];
+
+    // Without a referrer that carries the origin, QuickSight can not check that the embedding domain is allowed
+    static REJECTED_REFERRER_POLICIES: ReferrerPolicy[] = ['no-referrer', 'same-origin'];
+
+    // Describes why the attributes would prevent QuickSight from loading in the frame, the list is empty when they do not
+    static validateAttributes = (iframeAttributes: IframeAttributes) => {
+        const {sandbox, allow, referrerPolicy, title, ...ariaAttributes} = iframeAttributes;
+        const problems: string[] = [];
+
+        if (sandbox) {
+            sandbox
+                .filter(token => !Iframe.SANDBOX_TOKENS.includes(token))
+                .forEach(token => problems.push(`'${token}' is not a sandbox token`));
+            Iframe.REQUIRED_SANDBOX_TOKENS.filter(token => !sandbox.includes(token)).forEach(token =>
+                problems.push(`sandbox must include '${token}'`)
+            );
+        }
+
+        if (allow !== undefined && typeof allow !== 'string') {
+            problems.push('allow must be a string');
+        }
+
+        if (referrerPolicy && Iframe.REJECTED_REFERRER_POLICIES.includes(referrerPolicy)) {
+            problems.push(`referrerPolicy '${referrerPolicy}' does not send the embedding domain to QuickSight`);
+        }
+
+        if (title !== undefined && typeof title !== 'string') {
+            problems.push('title must be a string');
+        }
+
+        Object.keys(ariaAttributes)
+            .filter(name => !name.startsWith('aria-'))
+            .forEach(name => problems.push(`'${name}' is not a supported iframe attribute`));
+
+        return problems;
+    };
+
     private readonly iframeName: string;
     private readonly width: string;
     private readonly height: string;
@@ -14,7 +78,11 @@ export class Iframe {
     private readonly payload: IframeOptions['payload'];
     private readonly src: string;
     private readonly onLoad: IframeOptions['onLoad'];
+    private readonly iframeAttributes: IframeOptions['iframeAttributes'];
+    private readonly onRetry: IframeOptions['onRetry'];
     private readonly iframe: EmbeddingIFrameElement;
+    private readonly placeholderOptions?: IframePlaceholderOptions;
+    private placeholderState: PlaceholderState = PlaceholderState.HIDDEN;
     private iframePlaceholder?: HTMLElement;
     private classNames = [Iframe.IFRAME_CLASS_NAME];
     private postRequest?: PostRequest;
@@ -31,6 +99,8 @@ export class Iframe {
             withIframePlaceholder,
             payload,
             className,
+            iframeAttributes,
+            onRetry,
         } = options;
 
         this.width = width;
@@ -39,6 +109,8 @@ export class Iframe {
         this.iframeName = id;
 
         this.loading = loading;
+        this.iframeAttributes = iframeAttributes;
+        this.onRetry = onRetry;
 
         if (className) {
             this.classNames.push(className);
@@ -49,7 +121,8 @@ export class Iframe {
         this.src = src;
 
         if (withIframePlaceholder) {
-            this.createIframePlaceholder(withIframePlaceholder);
+            this.placeholderOptions = this.getPlaceholderOptions(withIframePlaceholder);
+            this.createIframePlaceholder();
         }
 
         this.iframe = this.createIframe();
@@ -58,7 +131,85 @@ export class Iframe {
 
     public getIframe = () => this.iframe;
 
-    private createIframePlaceholder = (withIframePlaceholder: IframeOptions['withIframePlaceholder']) => {
+    public getPlaceholderState = () => this.placeholderState;
+
+    /**
+     * Shows the placeholder of the given state in place of the iframe, or the iframe when the state has no placeholder.
+     * Does nothing when the iframe is created without placeholders
+     */
+    public setPlaceholderState = (state: PlaceholderState, errorCode?: string) => {
+        if (!this.iframePlaceholder) {
+            return;
+        }
+
+        this.placeholderState = state;
+        const placeholderContent = this.renderPlaceholder(state, errorCode);
+
+        if (!placeholderContent) {
+            this.hidePlaceholder();
+            return;
+        }
+
+        this.iframePlaceholder.textContent = '';
+        this.iframePlaceholder.appendChild(placeholderContent);
+
+        if (!this.iframePlaceholder.parentNode) {
+            this.container.insertBefore(this.iframePlaceholder, this.iframe);
+            this.iframe.style.opacity = '0';
+            this.iframe.style.position = 'absolute';
+        }
+    };
+
+    public remove = () => {
+        this.iframe.removeEventListener('load', this.onLoadLocal);
+        this.iframePlaceholder?.remove();
+        this.postRequest?.remove();
+        this.iframe.remove();
+    };
+
+    // A placeholder element, or true for the built-in spinner, is only shown while loading
+    private getPlaceholderOptions = (
+        withIframePlaceholder: NonNullable<IframeOptions['withIframePlaceholder']>
+    ): IframePlaceholderOptions => {
+        if (typeof withIframePlaceholder === 'boolean') {
+            return {};
+        }
+
+        if ((withIframePlaceholder as HTMLElement).nodeName) {
+            return {loading: withIframePlaceholder as HTMLElement};
+        }
+
+        return withIframePlaceholder as IframePlaceholderOptions;
+    };
+
+    private renderPlaceholder = (state: PlaceholderState, errorCode?: string) => {
+        const {loading = this.createLoaderSVG, timedOut, error, sessionExpired} = this.placeholderOptions ?? {};
+        const placeholders: Record<PlaceholderState, Element | PlaceholderRenderer | undefined> = {
+            [PlaceholderState.LOADING]: loading,
+            [PlaceholderState.TIMED_OUT]: timedOut,
+            [PlaceholderState.ERROR]: error,
+            [PlaceholderState.SESSION_EXPIRED]: sessionExpired,
+            [PlaceholderState.HIDDEN]: undefined,
+        };
+        const placeholder = placeholders[state];
+
+        if (typeof placeholder !== 'function') {
+            return placeholder;
+        }
+
+        return placeholder({state, errorCode, retry: () => this.onRetry?.()});
+    };
+
+    private hidePlaceholder = () => {
+        if (this.iframePlaceholder?.parentNode) {
+            this.iframePlaceholder.remove();
+            this.iframe.style.position = '';
+            this.iframe.style.opacity = '1';
+            this.iframe.style.transition = 'opacity .5s ease-in-out';
+        }
+    };
+
+    private createIframePlaceholder = () => {
         this.iframePlaceholder = document.createElement('div');
         this.iframePlaceholder.id = `${this.iframeName}-placeholder`;
         this.iframePlaceholder.style.width = this.width;
@@ -72,14 +223,8 @@ export class Iframe {
             this.iframePlaceholder.style.height = this.height;
         }
 
-        if (withIframePlaceholder && typeof withIframePlaceholder !== 'boolean') {
-            this.iframePlaceholder.appendChild(withIframePlaceholder);
-        } else {
-            const loaderSVG = this.createLoaderSVG();
-            this.iframePlaceholder.appendChild(loaderSVG);
-        }
-
         this.container.appendChild(this.iframePlaceholder);
+        this.setPlaceholderState(PlaceholderState.LOADING);
     };
 
     private createIframe = () => {
@@ -94,6 +239,8 @@ export class Iframe {
             iframe.loading = this.loading;
         }
 
+        this.applyIframeAttributes(iframe);
+
         iframe.style.border = '0px';
         iframe.style.padding = '0px';
 
@@ -122,12 +269,40 @@ export class Iframe {
         return iframe;
     };
 
+    // The sandbox and referrer policy only apply to the navigations that start after they are set
+    private applyIframeAttributes = (iframe: EmbeddingIFrameElement) => {
+        const {sandbox, allow, referrerPolicy, title, ...ariaAttributes} = this.iframeAttributes ?? {};
+
+        if (sandbox) {
+            iframe.setAttribute('sandbox', sandbox.join(' '));
+        }
+
+        if (allow) {
+            iframe.allow = allow;
+        }
+
+        if (referrerPolicy) {
+            iframe.referrerPolicy = referrerPolicy;
+        }
+
+        if (title) {
+            iframe.title = title;
+        }
+
+        Object.entries(ariaAttributes).forEach(([name, value]) => {
+            if (value !== undefined) {
+                iframe.setAttribute(name, value);
+            }
+        });
+    };
+
+    // An iframe that loads after timing out is shown after all, errors are only reported once the content loaded
     private onLoadLocal = (event: Event) => {
-        if (this.iframePlaceholder) {
-            this.iframePlaceholder.remove();
-            this.iframe.style.position = '';
-            this.iframe.style.opacity = '1';
-            this.iframe.style.transition = 'opacity .5s ease-in-out';
+        if (
+            this.placeholderState === PlaceholderState.LOADING ||
+            this.placeholderState === PlaceholderState.TIMED_OUT
+        ) {
+            this.setPlaceholderState(PlaceholderState.HIDDEN);
         }
 
         this.onLoad?.(event);
@@ -137,7 +312,7 @@ export class Iframe {
     private createPostRequest = (postRequestOptions: CreatePostRequestOptions): PostRequest => {
         const {src, container, target, payload} = postRequestOptions;
         if (!src) {
-            throw new Error('No source has been provided.');
+            throw new MissingUrlError('No source has been provided.');
         }
 
         const form = document.createElement('form');
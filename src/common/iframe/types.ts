@@ -5,6 +5,51 @@ export interface EmbeddingIFrameElement extends HTMLIFrameElement {
     loading: string;
 }
 
+/**
+ * Attributes of the experience iframe that are not managed by the SDK, applied before the experience is requested
+ */
+export type IframeAttributes = {
+    // Sandbox tokens of the frame, QuickSight needs allow-scripts and allow-same-origin to run
+    sandbox?: string[];
+    // Permissions policy of the frame, e.g. 'fullscreen; clipboard-write'
+    allow?: string;
+    // QuickSight checks the embedding domain with the referrer, so policies that drop it are rejected
+    referrerPolicy?: ReferrerPolicy;
+    title?: string;
+    [ariaAttribute: `aria-${string}`]: string | undefined;
+};
+
+export const PlaceholderState = {
+    LOADING: 'LOADING',
+    TIMED_OUT: 'TIMED_OUT',
+    ERROR: 'ERROR',
+    SESSION_EXPIRED: 'SESSION_EXPIRED',
+    HIDDEN: 'HIDDEN',
+} as const;
+
+export type PlaceholderState = (typeof PlaceholderState)[keyof typeof PlaceholderState];
+
+export type PlaceholderRenderContext = {
+    state: PlaceholderState;
+    // Error code of the ERROR_OCCURRED event the error and session expired placeholders are shown for
+    errorCode?: string;
+    // Reloads the experience, e.g. from the click handler of a retry button
+    retry: () => void;
+};
+
+export type PlaceholderRenderer = (context: PlaceholderRenderContext) => Element;
+
+/**
+ * Placeholders shown in place of the experience iframe in each state, the iframe is shown in states without one.
+ * The built-in spinner is shown while loading unless another loading placeholder is given
+ */
+export type IframePlaceholderOptions = {
+    loading?: HTMLElement | PlaceholderRenderer;
+    timedOut?: PlaceholderRenderer;
+    error?: PlaceholderRenderer;
+    sessionExpired?: PlaceholderRenderer;
+};
+
 export type IframeOptions = {
     id: string;
     src: string;
@@ -13,7 +58,9 @@ export type IframeOptions = {
     height?: string;
     onLoad?: (event: Event) => void;
     loading?: 'eager' | 'lazy';
-    withIframePlaceholder?: boolean | HTMLElement;
+    withIframePlaceholder?: boolean | HTMLElement | IframePlaceholderOptions;
+    onRetry?: () => void;
     payload?: {[key: string]: string};
     className?: string;
+    iframeAttributes?: IframeAttributes;
 };
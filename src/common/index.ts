@@ -1,6 +1,12 @@
+export * from './errors';
 export * from './events';
 export * from './embedding-context';
 export * from './event-manager';
+export * from './filter-groups';
 export * from './log-provider/log-provider';
 export * from './iframe';
+export * from './parameters';
+export * from './transport';
+export * from './recorder';
+export * from './validation';
 export * from './types';
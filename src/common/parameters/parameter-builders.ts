@@ -0,0 +1,93 @@
+// Copyright 2023 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+
+import {ALL_VALUES, DateParameterOptions} from './types';
+import {Parameter, ParameterValue} from '../types';
+import {InvalidParameterError} from '../errors/errors';
+
+const toArray = <Value>(values: Value | Value[]): Value[] => (Array.isArray(values) ? values : [values]);
+
+const pad = (value: number, length = 2) => `${value}`.padStart(length, '0');
+
+const buildParameter = <Value>(
+    name: string,
+    values: Value | Value[],
+    toParameterValue: (value: Value) => ParameterValue
+): Parameter => {
+    if (!name) {
+        throw new InvalidParameterError(name, 'The parameter name is required');
+    }
+
+    const parameterValues = toArray(values);
+
+    // Select every value with allValuesParameter, an empty list is not read as such
+    if (parameterValues.length === 0) {
+        throw new InvalidParameterError(name, `Parameter ${name} requires at least one value`);
+    }
+
+    return {Name: name, Values: parameterValues.map(toParameterValue)};
+};
+
+/**
+ * Formats a date the way QuickSight reads date parameters, e.g. `2023-05-29 14:30:00`
+ */
+export const formatDateParameterValue = (date: Date, options: DateParameterOptions = {}) => {
+    const isLocal = options.timeZone === 'local';
+    const [year, month, day] = isLocal
+        ? [date.getFullYear(), date.getMonth() + 1, date.getDate()]
+        : [date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate()];
+    const [hours, minutes, seconds] = isLocal
+        ? [date.getHours(), date.getMinutes(), date.getSeconds()]
+        : [date.getUTCHours(), date.getUTCMinutes(), date.getUTCSeconds()];
+
+    return `${pad(year, 4)}-${pad(month)}-${pad(day)} ${pad(hours)}:${pad(minutes)}:${pad(seconds)}`;
+};
+
+export const stringParameter = (name: string, values: string | string[]): Parameter => {
+    return buildParameter(name, values, value => {
+        if (typeof value !== 'string') {
+            throw new InvalidParameterError(name, `Parameter ${name} only accepts strings`);
+        }
+
+        return value;
+    });
+};
+
+export const numberParameter = (name: string, values: number | number[]): Parameter => {
+    return buildParameter(name, values, value => {
+        if (typeof value !== 'number' || !isFinite(value)) {
+            throw new InvalidParameterError(name, `Parameter ${name} only accepts finite numbers`);
+        }
+
+        return value;
+    });
+};
+
+export const dateParameter = (name: string, values: Date | Date[], options?: DateParameterOptions): Parameter => {
+    return buildParameter(name, values, value => {
+        if (!(value instanceof Date) || isNaN(value.getTime())) {
+            throw new InvalidParameterError(name, `Parameter ${name} only accepts valid dates`);
+        }
+
+        return formatDateParameterValue(value, options);
+    });
+};
+
+/**
+ * Selects every value of a parameter, as if nothing was selected in its control
+ */
+export const allValuesParameter = (name: string): Parameter => {
+    return buildParameter(name, ALL_VALUES, value => value);
+};
+
+/**
+ * Describes the parameters that the experience does not have, given the parameters returned by getParameters.
+ * The list is empty when every parameter is known
+ */
+export const validateParameterNames = (parameters: Parameter[], knownParameters: Parameter[]) => {
+    const knownNames = knownParameters.map(({Name}) => Name);
+
+    return parameters
+        .filter(({Name}) => !knownNames.includes(Name))
+        .map(({Name}) => `Parameter ${Name} does not exist in the experience`);
+};
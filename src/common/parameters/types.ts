@@ -0,0 +1,12 @@
+// Copyright 2023 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+
+/**
+ * Value QuickSight reads as every value of a parameter, as if nothing was selected in its control
+ */
+export const ALL_VALUES = 'ALL_VALUES';
+
+export type DateParameterOptions = {
+    // Dates are formatted with their UTC time unless the local time of the browser is asked for
+    timeZone?: 'UTC' | 'local';
+};
@@ -0,0 +1,67 @@
+// Copyright 2023 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+
+import {EmbeddingEvents, EventNames, PostMessageEvent} from '../events';
+import {ExperienceIdentifier} from '../event-manager';
+import {TrafficEntryType, TrafficRecording} from './types';
+
+/**
+ * Records the messages that cross the boundary of the embedded frames, so that issues can be reproduced offline.
+ * Nothing is recorded until the recorder is started
+ */
+export class TrafficRecorder {
+    private readonly sdkVersion: string;
+    private recording?: TrafficRecording;
+    private isActive = false;
+
+    constructor(sdkVersion: string) {
+        this.sdkVersion = sdkVersion;
+    }
+
+    public start = () => {
+        this.isActive = true;
+        this.recording = {
+            sdkVersion: this.sdkVersion,
+            startedAt: Date.now(),
+            entries: [],
+        };
+
+        return this;
+    };
+
+    public stop = () => {
+        if (this.isActive && this.recording) {
+            this.isActive = false;
+            this.recording.stoppedAt = Date.now();
+        }
+
+        return this.getRecording();
+    };
+
+    public isRecording = () => this.isActive;
+
+    public getRecording = (): TrafficRecording => {
+        return this.recording ?? {sdkVersion: this.sdkVersion, startedAt: Date.now(), entries: []};
+    };
+
+    public export = () => JSON.stringify(this.getRecording());
+
+    public record = (
+        type: TrafficEntryType,
+        experienceId: ExperienceIdentifier,
+        eventName: EventNames,
+        messageEvent: PostMessageEvent | EmbeddingEvents
+    ) => {
+        if (!this.isActive || !this.recording) {
+            return;
+        }
+
+        this.recording.entries.push({
+            type,
+            timestamp: Date.now(),
+            experienceId,
+            eventName,
+            messageEvent,
+        });
+    };
+}
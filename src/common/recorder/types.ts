@@ -0,0 +1,31 @@
+// Copyright 2023 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+
+import {EmbeddingEvents, EventNames, PostMessageEvent} from '../events';
+import {ExperienceIdentifier} from '../event-manager';
+
+export const TrafficEntryType = {
+    // Outgoing, posted by the SDK to a frame
+    COMMAND: 'COMMAND',
+    // Incoming, the answer of a frame to a command
+    RESPONSE: 'RESPONSE',
+    // Incoming, sent by a frame on its own and handed to the event listeners of the experience
+    EVENT: 'EVENT',
+} as const;
+
+export type TrafficEntryType = (typeof TrafficEntryType)[keyof typeof TrafficEntryType];
+
+export type TrafficEntry = {
+    type: TrafficEntryType;
+    timestamp: number;
+    experienceId: ExperienceIdentifier;
+    eventName: EventNames;
+    messageEvent: PostMessageEvent | EmbeddingEvents;
+};
+
+export type TrafficRecording = {
+    sdkVersion: string;
+    startedAt: number;
+    stoppedAt?: number;
+    entries: TrafficEntry[];
+};
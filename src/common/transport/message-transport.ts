@@ -0,0 +1,126 @@
+// Copyright 2023 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+
+import {PostMessageEvent} from '../events';
+import {EmbeddingTransport, EmbeddingTransportOptions} from './types';
+
+/**
+ * The default transport of the SDK.
+ * Messages go through window.postMessage until the frame accepts a dedicated MessageChannel port,
+ * from then on everything is exchanged over the port and the window is no longer listened to
+ */
+export class MessageTransport implements EmbeddingTransport {
+    private readonly options: EmbeddingTransportOptions;
+    private port?: MessagePort;
+    private offeredPort?: MessagePort;
+    private isListeningToWindow = false;
+    private isClosed = false;
+
+    constructor(options: EmbeddingTransportOptions) {
+        this.options = options;
+        this.listenToWindow();
+    }
+
+    public isChannelEstablished = () => !!this.port;
+
+    public postMessage = (message: PostMessageEvent) => {
+        if (this.port) {
+            this.port.postMessage(message);
+            return;
+        }
+
+        this.options.getTargetWindow()?.postMessage(message, this.options.getTargetOrigin());
+    };
+
+    /**
+     * Offers the frame one end of a new MessageChannel along with the handshake message.
+     * Hosts that support it confirm by answering the handshake over the port, other hosts ignore it
+     */
+    public connect = (handshake: PostMessageEvent) => {
+        const targetWindow = this.options.getTargetWindow();
+
+        if (this.isClosed || !targetWindow || typeof MessageChannel === 'undefined') {
+            return;
+        }
+
+        this.disconnect();
+
+        const channel = new MessageChannel();
+        const port = channel.port1;
+
+        port.onmessage = (event: MessageEvent<PostMessageEvent>) => {
+            if (this.port === port) {
+                this.options.onMessage(event.data);
+            } else if (event.data?.eventId === handshake.eventId && this.isSuccessMessage(event.data)) {
+                this.establish(port);
+            }
+        };
+
+        this.offeredPort = port;
+        targetWindow.postMessage(handshake, this.options.getTargetOrigin(), [channel.port2]);
+    };
+
+    // Drops the port of a frame that is going away, messages fall back to the window until a new port is accepted
+    public disconnect = () => {
+        const wasEstablished = !!this.port;
+
+        this.offeredPort?.close();
+        this.port?.close();
+        this.offeredPort = undefined;
+        this.port = undefined;
+
+        if (this.isClosed) {
+            return;
+        }
+
+        this.listenToWindow();
+
+        if (wasEstablished) {
+            this.options.onChannelChange?.(false);
+        }
+    };
+
+    public close = () => {
+        this.isClosed = true;
+        this.disconnect();
+        this.stopListeningToWindow();
+    };
+
+    private establish = (port: MessagePort) => {
+        this.port = port;
+        this.offeredPort = undefined;
+        this.stopListeningToWindow();
+        this.options.onChannelChange?.(true);
+    };
+
+    private windowMessageListener = (event: MessageEvent<PostMessageEvent>) => {
+        if (!this.options.acceptsMessage(event.data)) {
+            return;
+        }
+
+        if (!this.options.isTrustedMessage(event)) {
+            this.options.onUntrustedMessage?.(event);
+            return;
+        }
+
+        this.options.onMessage(event.data);
+    };
+
+    private listenToWindow = () => {
+        if (!this.isListeningToWindow) {
+            this.isListeningToWindow = true;
+            window.addEventListener('message', this.windowMessageListener);
+        }
+    };
+
+    private stopListeningToWindow = () => {
+        if (this.isListeningToWindow) {
+            this.isListeningToWindow = false;
+            window.removeEventListener('message', this.windowMessageListener);
+        }
+    };
+
+    private isSuccessMessage = (message: PostMessageEvent) => {
+        return (message.message as {success?: boolean} | undefined)?.success === true;
+    };
+}
@@ -0,0 +1,37 @@
+// Copyright 2023 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+
+import {PostMessageEvent} from '../events';
+import {InternalExperiences} from '../../experiences/base-experience';
+
+export type EmbeddingTransportOptions = {
+    // The experience of the frame, it is the target of every message posted to the frame
+    eventTarget: InternalExperiences;
+    // The window of the embedded frame, it changes whenever the frame is reloaded
+    getTargetWindow: () => Window | null | undefined;
+    getTargetOrigin: () => string;
+    // Tells whether a message posted to the window is meant for the frame, e.g. the response to a pending command
+    acceptsMessage: (message?: PostMessageEvent) => boolean;
+    isTrustedMessage: (event: MessageEvent<PostMessageEvent>) => boolean;
+    // Receives the responses and events of the frame
+    onMessage: (message: PostMessageEvent) => void;
+    onUntrustedMessage?: (event: MessageEvent<PostMessageEvent>) => void;
+    // Called when the frame stops, or starts again, relying on messages posted to the window
+    onChannelChange?: (isEstablished: boolean) => void;
+};
+
+/**
+ * Carries the messages exchanged with a single embedded frame
+ */
+export interface EmbeddingTransport {
+    // Sends a command, or an acknowledgment, to the frame
+    postMessage: (message: PostMessageEvent) => void;
+    // Called each time the frame loads, with the handshake message that offers the frame a dedicated channel
+    connect: (handshake: PostMessageEvent) => void;
+    // Called before the frame is reloaded
+    disconnect: () => void;
+    // Called once the frame is unmounted, the transport must release its listeners
+    close: () => void;
+}
+
+export type EmbeddingTransportFactory = (options: EmbeddingTransportOptions) => EmbeddingTransport;
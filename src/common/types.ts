@@ -22,6 +22,13 @@ export interface Parameter {
     Values: ParameterValue[];
 }
 
+/**
+ * How a parameter reported by PARAMETERS_CHANGED changed, PreviousValues is undefined when the SDK did not know its value
+ */
+export interface ParameterChange extends Parameter {
+    PreviousValues?: ParameterValue[];
+}
+
 export type ParametersAsObject = Record<string, Primitives | Primitives[]>;
 
 export type CleanUpCallback = () => void;
@@ -0,0 +1,76 @@
+// Copyright 2023 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+
+import {InfoMessageEventName} from '../events/messages';
+import {Schema} from './types';
+import {
+    anySchema,
+    arraySchema,
+    numberSchema,
+    numericSchema,
+    objectSchema,
+    optionalSchema,
+    stringSchema,
+} from './schema';
+
+export const DATAPOINT_SCHEMA = objectSchema({
+    FormattedValues: arraySchema(objectSchema({})),
+    RawValues: arraySchema(objectSchema({})),
+    Columns: arraySchema(objectSchema({})),
+    SelectedColumnIndex: optionalSchema(numberSchema),
+});
+
+const sizeSchema = objectSchema({
+    height: optionalSchema(numericSchema),
+});
+
+/**
+ * Schemas of the messages QuickSight sends with each info event, events that carry no message accept any value
+ */
+export const INFO_MESSAGE_SCHEMAS: Record<InfoMessageEventName, Schema> = {
+    [InfoMessageEventName.CALLBACK_OPERATION_INVOKED]: objectSchema({
+        CustomActionId: stringSchema,
+        DashboardId: stringSchema,
+        VisualId: stringSchema,
+        SheetId: stringSchema,
+        Datapoints: arraySchema(DATAPOINT_SCHEMA),
+    }),
+    [InfoMessageEventName.CONTENT_LOADED]: optionalSchema(objectSchema({title: optionalSchema(stringSchema)})),
+    [InfoMessageEventName.EXPERIENCE_INITIALIZED]: anySchema,
+    [InfoMessageEventName.ERROR_OCCURRED]: optionalSchema(objectSchema({errorCode: optionalSchema(stringSchema)})),
+    [InfoMessageEventName.SIZE_CHANGED]: objectSchema({
+        height: optionalSchema(numericSchema),
+        width: optionalSchema(numericSchema),
+    }),
+    [InfoMessageEventName.PARAMETERS_CHANGED]: objectSchema({
+        changedParameters: arraySchema(objectSchema({Name: stringSchema, Values: arraySchema(anySchema)})),
+    }),
+    [InfoMessageEventName.SELECTED_SHEET_CHANGED]: objectSchema({
+        selectedSheet: objectSchema({Name: optionalSchema(stringSchema), SheetId: stringSchema}),
+    }),
+    [InfoMessageEventName.MODAL_OPENED]: anySchema,
+    [InfoMessageEventName.Q_SEARCH_CLOSED]: sizeSchema,
+    [InfoMessageEventName.Q_SEARCH_OPENED]: sizeSchema,
+    [InfoMessageEventName.Q_SEARCH_SIZE_CHANGED]: sizeSchema,
+    [InfoMessageEventName.Q_SEARCH_ENTERED_FULLSCREEN]: anySchema,
+    [InfoMessageEventName.Q_SEARCH_EXITED_FULLSCREEN]: anySchema,
+};
+
+const isInfoMessageEventName = (eventName: string): eventName is InfoMessageEventName => {
+    return Object.prototype.hasOwnProperty.call(INFO_MESSAGE_SCHEMAS, eventName);
+};
+
+/**
+ * Describes what is wrong with the message of an event, the list is empty for valid messages
+ * and for events that have no schema
+ */
+export const validateMessage = (eventName: string, message: unknown) => {
+    return isInfoMessageEventName(eventName) ? INFO_MESSAGE_SCHEMAS[eventName](message, 'message') : [];
+};
+
+/**
+ * Describes what is wrong with the datapoints of a CALLBACK_OPERATION_INVOKED event
+ */
+export const validateDatapoints = (datapoints: unknown) => {
+    return arraySchema(DATAPOINT_SCHEMA)(datapoints, 'Datapoints');
+};
@@ -0,0 +1,65 @@
+// Copyright 2023 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+
+import {ObjectShape, Schema} from './types';
+
+const isObject = (value: unknown): value is Record<string, unknown> => {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+};
+
+export const anySchema: Schema = () => [];
+
+export const stringSchema: Schema = (value, path) => {
+    return typeof value === 'string' ? [] : [`${path} must be a string`];
+};
+
+export const numberSchema: Schema = (value, path) => {
+    return typeof value === 'number' && isFinite(value) ? [] : [`${path} must be a number`];
+};
+
+/**
+ * Accepts numbers and strings holding a number, such as the sizes reported by the experiences
+ */
+export const numericSchema: Schema = (value, path) => {
+    const isNumeric =
+        (typeof value === 'number' && isFinite(value)) ||
+        (typeof value === 'string' && value.trim() !== '' && isFinite(Number(value)));
+
+    return isNumeric ? [] : [`${path} must be numeric`];
+};
+
+/**
+ * Accepts absent values, QuickSight may send null as well as leave the property out
+ */
+export const optionalSchema = (schema: Schema): Schema => {
+    return (value, path) => (value === undefined || value === null ? [] : schema(value, path));
+};
+
+export const arraySchema = (itemSchema: Schema): Schema => {
+    return (value, path) => {
+        if (!Array.isArray(value)) {
+            return [`${path} must be an array`];
+        }
+
+        return value.reduce<string[]>(
+            (errors, item, index) => errors.concat(itemSchema(item, `${path}[${index}]`)),
+            []
+        );
+    };
+};
+
+/**
+ * Checks the listed properties of an object, other properties are allowed and left unchecked
+ */
+export const objectSchema = (shape: ObjectShape): Schema => {
+    return (value, path) => {
+        if (!isObject(value)) {
+            return [`${path} must be an object`];
+        }
+
+        return Object.keys(shape).reduce<string[]>(
+            (errors, key) => errors.concat(shape[key](value[key], `${path}.${key}`)),
+            []
+        );
+    };
+};
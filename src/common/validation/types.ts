@@ -0,0 +1,10 @@
+// Copyright 2023 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+
+/**
+ * Checks a value and describes every problem found in it, the list is empty when the value is valid.
+ * The path names the value in the descriptions, e.g. `message.changedParameters[0].Name`
+ */
+export type Schema = (value: unknown, path: string) => string[];
+
+export type ObjectShape = Record<string, Schema>;
@@ -2,20 +2,37 @@
 // SPDX-License-Identifier: Apache-2.0
 
 import {
+    CommandOptions,
     ContentOptions,
     Experiences,
     ExperienceType,
     FrameOptions,
     InternalExperiences,
     InternalExperienceInfo,
+    SESSION_EXPIRY_ERROR_CODES,
+    SessionState,
     TransformedContentOptions,
 } from './types';
 import {BaseExperienceFrame} from './frame/experience-frame';
 import {ControlOptions} from '../control-experience';
-import {ChangeEventLevel, ChangeEventName, EventMessageValues, MessageEventName} from '@common/events/types';
+import {
+    ChangeEventLevel,
+    ChangeEventName,
+    EmbeddingEventOf,
+    EmbeddingEvents,
+    EventMessageValues,
+    MessageEventName,
+} from '@common/events/types';
 import {ChangeEvent, EmbeddingMessageEvent, ResponseMessage, TargetedMessageEvent} from '@common/events/events';
-import {EventListener} from '@common/event-manager/types';
+import {EventFilter, EventListener, WaitForOptions} from '@common/event-manager/types';
+import {EventStream} from '@common/event-manager/event-stream';
 import {LogProvider} from '../../common';
+import {
+    ExperienceNotInitializedError,
+    InvalidExperienceError,
+    InvalidUrlError,
+    MissingUrlError,
+} from '@common/errors/errors';
 
 export abstract class BaseExperience<
     ExperienceContentOptions extends ContentOptions,
@@ -37,6 +54,10 @@ export abstract class BaseExperience<
     protected readonly controlOptions: ControlOptions;
     protected readonly experienceIdentifiers: Set<string>;
     protected logger?: LogProvider;
+    // The frame of an expired session may never answer, so its state is captured with a short timeout
+    protected readonly SESSION_STATE_TIMEOUT_MS = 1000;
+    private isRecoveringSession = false;
+    private isTornDown = false;
 
     protected constructor(
         frameOptions: FrameOptions,
@@ -71,14 +92,15 @@ export abstract class BaseExperience<
             return [contextId, experienceType, discriminator].filter(Boolean).join('-');
         }
 
-        throw new Error('Invalid experience unable to build experience identifier');
+        throw new InvalidExperienceError('Invalid experience unable to build experience identifier');
     };
 
     public send = async <EventMessageValue extends EventMessageValues>(
-        messageEvent: EmbeddingMessageEvent<MessageEventName>
+        messageEvent: EmbeddingMessageEvent<MessageEventName>,
+        commandOptions?: CommandOptions
     ): Promise<ResponseMessage<EventMessageValue>> => {
         if (!this.experienceFrame || !this.internalExperience) {
-            throw new Error('Experience has not been initialized');
+            throw new ExperienceNotInitializedError('Experience has not been initialized');
         }
 
         const targetedMessageEvent = new TargetedMessageEvent(
@@ -88,11 +110,104 @@ export abstract class BaseExperience<
             messageEvent.data
         );
 
-        return this.experienceFrame.send(targetedMessageEvent);
+        return commandOptions
+            ? this.experienceFrame.send(targetedMessageEvent, commandOptions)
+            : this.experienceFrame.send(targetedMessageEvent);
     };
 
-    public addEventListener = (eventName: MessageEventName, listener: EventListener) => {
-        return this.experienceFrame.addInternalEventListener(eventName, listener);
+    /**
+     * Adds a listener for the events of the experience selected by one or more event names, or by a predicate
+     */
+    public addEventListener = <EventName extends MessageEventName>(
+        filter: EventFilter<EventName>,
+        listener: EventListener<EmbeddingEventOf<EventName>>
+    ) => {
+        return this.experienceFrame.addInternalEventListener(filter, listener);
+    };
+
+    /**
+     * Adds a listener that is removed after the first matching event
+     */
+    public once = <EventName extends MessageEventName>(
+        filter: EventFilter<EventName>,
+        listener: EventListener<EmbeddingEventOf<EventName>>
+    ) => {
+        return this.experienceFrame.addInternalEventListener(filter, listener, true);
+    };
+
+    /**
+     * Resolves with the next matching event of the experience, or rejects with an EventTimeoutError
+     * when the timeout elapses first
+     */
+    public waitFor = <EventName extends MessageEventName>(
+        filter: EventFilter<EventName>,
+        options?: WaitForOptions
+    ): Promise<EmbeddingEventOf<EventName>> => {
+        return this.experienceFrame.waitForEvent(filter, options);
+    };
+
+    /**
+     * Streams the events of the experience, optionally only those with the given event names.
+     * The stream completes when the experience frame is removed
+     */
+    public events = <EventName extends MessageEventName = MessageEventName>(eventNames?: EventName | EventName[]) => {
+        return new EventStream<EmbeddingEventOf<EventName>>(
+            this.controlOptions.eventManager,
+            this.experienceId,
+            eventNames
+        );
+    };
+
+    public getExperienceId = () => this.experienceId;
+
+    /**
+     * Resolves once the experience has initialized. Commands sent before that are queued and sent in order
+     */
+    public whenReady = (): Promise<void> => {
+        if (!this.experienceFrame) {
+            return Promise.reject(new ExperienceNotInitializedError('Experience has not been initialized'));
+        }
+
+        return this.experienceFrame.whenReady();
+    };
+
+    /**
+     * Resolves once the experience iframe loaded. Rejects with a FrameTimeoutError when it does not load
+     * within the load timeout of the frame options, and when the experience is unmounted before it loads
+     */
+    public get loaded(): Promise<void> {
+        return this.experienceFrame.whenLoaded();
+    }
+
+    /**
+     * Reloads the experience with a newly minted embed url, keeping what the user is looking at.
+     * When the url is omitted, it is requested from the url provider of the embedding context
+     */
+    public refreshSession = async (url?: string): Promise<void> => {
+        const sessionUrl = url ?? (await this.controlOptions.getSessionUrl?.(this.experience));
+
+        if (!sessionUrl) {
+            throw new MissingUrlError('A url is required to refresh the session');
+        }
+
+        this.validateSessionUrl(sessionUrl);
+
+        const sessionState = await this.captureSessionState();
+
+        this.controlOptions.refreshControlFrame?.(sessionUrl);
+        this.experienceFrame.reload(sessionUrl, this.getSessionContentOptions(sessionState));
+        this.restoreSessionState(sessionState);
+
+        this.frameOptions.onChange?.(
+            new ChangeEvent(ChangeEventName.SESSION_REFRESHED, ChangeEventLevel.INFO, 'The session was refreshed', {
+                experience: this.internalExperience,
+            }),
+            {frame: this.experienceFrame.iframe}
+        );
+    };
+
+    public unmount = () => {
+        this.experienceFrame.unmount();
     };
 
     public setLogProvider = (logProvider: LogProvider) => {
@@ -120,6 +235,15 @@ export abstract class BaseExperience<
         } while (this.experienceIdentifiers.has(experienceIdentifier));
 
         this.experienceIdentifiers.add(experienceIdentifier);
+        this.controlOptions.eventManager.addEventListenerForCleanup(experienceIdentifier, () => {
+            this.isTornDown = true;
+            this.experienceIdentifiers.delete(experienceIdentifier);
+        });
+
+        if (this.frameOptions.sessionRecovery) {
+            this.controlOptions.eventManager.addEventListener(experienceIdentifier, this.onSessionError, true);
+        }
+
         return {
             experienceIdentifier,
             internalExperience,
@@ -150,15 +274,121 @@ export abstract class BaseExperience<
         return filteredOptions;
     };
 
+    // Command options are only passed on when they are given, send receives the message event alone otherwise
+    protected sendCommand = <EventMessageValue extends EventMessageValues>(
+        messageEvent: EmbeddingMessageEvent<MessageEventName>,
+        commandOptions?: CommandOptions
+    ): Promise<ResponseMessage<EventMessageValue>> => {
+        return commandOptions
+            ? this.send<EventMessageValue>(messageEvent, commandOptions)
+            : this.send<EventMessageValue>(messageEvent);
+    };
+
+    // Experiences override the methods below to carry their state over to a refreshed session
+    protected captureSessionState = async (): Promise<SessionState> => ({});
+
+    protected getSessionContentOptions = (
+        // eslint-disable-next-line @typescript-eslint/no-unused-vars
+        sessionState: SessionState
+    ): TransformedExperienceContentOptions | undefined => undefined;
+
     protected abstract extractExperienceFromUrl: (url: string) => Experience;
 
+    protected validateSessionUrl = (url: string) => {
+        const experience = this.extractExperienceFromUrl(url);
+        const isSameExperience = Object.entries(experience).every(
+            ([key, value]) => this.experience[key as keyof Experience] === value
+        );
+
+        if (!isSameExperience) {
+            const message = 'The session url does not match the embedded experience';
+            this.frameOptions.onChange?.(
+                new ChangeEvent(ChangeEventName.INVALID_URL, ChangeEventLevel.ERROR, message, {url}),
+                {frame: this.experienceFrame.iframe}
+            );
+
+            throw new InvalidUrlError(message);
+        }
+    };
+
+    private onSessionError = (messageEvent: EmbeddingEvents) => {
+        if (messageEvent.eventName !== MessageEventName.ERROR_OCCURRED) {
+            return;
+        }
+
+        const errorCodes = this.frameOptions.sessionRecovery?.errorCodes ?? SESSION_EXPIRY_ERROR_CODES;
+        const errorCode = messageEvent.message?.errorCode;
+
+        if (errorCode && errorCodes.includes(errorCode)) {
+            this.recoverSession(errorCode);
+        }
+    };
+
+    // Re-embeds the experience with a url from the recovery url provider, backing off exponentially between attempts
+    private recoverSession = async (errorCode: string) => {
+        if (!this.frameOptions.sessionRecovery || this.isRecoveringSession) {
+            return;
+        }
+
+        const {urlProvider, maxAttempts = 3, backoffMs = 1000} = this.frameOptions.sessionRecovery;
+        this.isRecoveringSession = true;
+
+        for (let attempt = 1; attempt <= maxAttempts && !this.isTornDown; attempt++) {
+            try {
+                await this.refreshSession(await urlProvider(this.experience));
+                this.isRecoveringSession = false;
+                return;
+            } catch (error) {
+                this.logger?.warn(`Session recovery attempt ${attempt} of ${maxAttempts} failed`, error);
+
+                if (attempt < maxAttempts) {
+                    await new Promise(resolve => setTimeout(resolve, backoffMs * 2 ** (attempt - 1)));
+                }
+            }
+        }
+
+        this.isRecoveringSession = false;
+
+        // Nothing is left to recover once the experience is unmounted or its embedding context destroyed
+        if (this.isTornDown) {
+            return;
+        }
+
+        this.frameOptions.onChange?.(
+            new ChangeEvent(
+                ChangeEventName.SESSION_RECOVERY_FAILED,
+                ChangeEventLevel.ERROR,
+                `Failed to recover the session after ${maxAttempts} attempts`,
+                {
+                    experience: this.internalExperience,
+                    errorCode,
+                }
+            ),
+            {frame: this.experienceFrame.iframe}
+        );
+    };
+
+    // Filter groups can not be passed through the experience url, so they are restored once the experience initializes
+    private restoreSessionState = ({filterGroups}: SessionState) => {
+        if (!filterGroups?.length) {
+            return;
+        }
+
+        const listener = this.addEventListener(MessageEventName.EXPERIENCE_INITIALIZED, () => {
+            listener.remove();
+            this.send(new EmbeddingMessageEvent(MessageEventName.UPDATE_FILTER_GROUPS, filterGroups)).catch(error => {
+                this.logger?.warn('Failed to restore the filter groups after refreshing the session', error);
+            });
+        });
+    };
+
     private validateFrameOptions = () => {
         if (!this.frameOptions.url) {
             const message = 'Url is required for the experience';
             this.frameOptions.onChange?.(new ChangeEvent(ChangeEventName.NO_URL, ChangeEventLevel.ERROR, message), {
                 frame: null,
             });
-            throw new Error(message);
+            throw new MissingUrlError(message);
         }
     };
 }
@@ -3,15 +3,31 @@
 
 import {v4} from 'uuid';
 import {encode} from 'punycode';
-import {ContentOptions, FrameOptions, InternalExperiences, TransformedContentOptions} from '../types';
+import {
+    CommandOptions,
+    ContentOptions,
+    FrameOptions,
+    InternalExperiences,
+    LazyEmbeddingOptions,
+    SESSION_EXPIRY_ERROR_CODES,
+    TransformedContentOptions,
+    UrlProvider,
+} from '../types';
 import {ParametersAsObject} from '../../../common';
 import {ControlOptions} from '@experience/control-experience/types';
 import {ExperienceFrameMetadata} from '@common/embedding-context/types';
-import {EmbeddingIFrameElement} from '@common/iframe/types';
-import {EventListener} from '@common/event-manager/types';
+import {EmbeddingIFrameElement, PlaceholderState} from '@common/iframe/types';
+import {
+    ChangeEventListener,
+    EventFilter,
+    EventListener,
+    MessageEventListener,
+    WaitForOptions,
+} from '@common/event-manager/types';
 import {
     ChangeEventLevel,
     ChangeEventName,
+    EmbeddingEventOf,
     EmbeddingEvents,
     EventMessageValues,
     MessageEventName,
@@ -25,9 +41,49 @@ import {
     TargetedMessageEvent,
 } from '@common/events/events';
 import {Iframe} from '@common/iframe/iframe';
+import {MessageTransport} from '@common/transport/message-transport';
+import {EmbeddingTransport, EmbeddingTransportOptions} from '@common/transport/types';
+import {TrafficEntryType} from '@common/recorder/types';
+import {
+    CommandAbortedError,
+    CommandTimeoutError,
+    ContainerNotFoundError,
+    FrameNotCreatedError,
+    FrameTimeoutError,
+    FrameUnmountedError,
+    MissingUrlError,
+} from '@common/errors/errors';
+import {EmbeddingErrorCode} from '@common/errors/types';
 
 export const SDK_VERSION = '2.6.0';
 
+type Readiness = {
+    promise: Promise<void>;
+    resolve: () => void;
+    reject: (reason: Error) => void;
+};
+
+type PendingResponse = {
+    eventName: MessageEventName;
+    resolve: (responseMessageEvent: PostMessageEvent) => void;
+    cancel: (reason: string) => void;
+};
+
+type ResponseMessage = {success: false; errorCode: string; errors?: string} | {success: true};
+
+const createReadiness = (): Readiness => {
+    let resolve: () => void = () => undefined;
+    let reject: (reason: Error) => void = () => undefined;
+    const promise = new Promise<void>((_resolve, _reject) => {
+        resolve = _resolve;
+        reject = _reject;
+    });
+    // Nothing may be waiting when the frame is unmounted, which must not surface as an unhandled rejection
+    promise.catch(() => undefined);
+
+    return {promise, resolve, reject};
+};
+
 export abstract class BaseExperienceFrame<
     ExperienceContentOptions extends ContentOptions,
     TransformedExperienceContentOptions extends TransformedContentOptions,
@@ -36,12 +92,26 @@ export abstract class BaseExperienceFrame<
     protected readonly frameOptions: FrameOptions;
     protected readonly contentOptions: ExperienceContentOptions;
     protected readonly controlOptions: ControlOptions;
-    protected readonly transformedContentOptions: TransformedExperienceContentOptions;
+    protected transformedContentOptions: TransformedExperienceContentOptions;
     protected readonly experienceId: string;
     protected readonly internalExperience: InternalExperience;
     protected readonly onChange: EventListener;
     protected url: string;
+    protected readonly requiresInitialization: boolean = true;
     private readonly MESSAGE_RESPONSE_TIMEOUT = 5000;
+    private readonly pendingResponses: Map<string, PendingResponse> = new Map();
+    private readonly transport: EmbeddingTransport;
+    private readonly validateSessionUrl?: (url: string) => void;
+    private frame?: Iframe;
+    private mutationObserver?: MutationObserver;
+    private intersectionObserver?: IntersectionObserver;
+    private isDeferred = false;
+    private isUnmounted = false;
+    private isReady = false;
+    private isReadinessFailed = false;
+    private readiness: Readiness = createReadiness();
+    private isLoadSettled = false;
+    private loading: Readiness = createReadiness();
 
     public iframe: EmbeddingIFrameElement | null = null;
     public container: HTMLElement;
@@ -55,7 +125,8 @@ export abstract class BaseExperienceFrame<
         transformedContentOptions: TransformedExperienceContentOptions,
         internalExperience: InternalExperience,
         experienceIdentifier: string,
-        interceptMessage?: EventListener
+        interceptMessage?: EventListener,
+        validateSessionUrl?: (url: string) => void
     ) {
         this.frameOptions = frameOptions;
         this.contentOptions = contentOptions;
@@ -66,70 +137,84 @@ export abstract class BaseExperienceFrame<
         this.controlOptions = controlOptions;
         this.transformedContentOptions = transformedContentOptions;
         this.experienceId = experienceIdentifier;
+        this.validateSessionUrl = validateSessionUrl;
         this.url = this.validateBaseUrl(frameOptions.url);
+        this.transport = this.createTransport({
+            eventTarget: internalExperience,
+            getTargetWindow: () => this.iframe?.contentWindow,
+            getTargetOrigin: () => this.url,
+            acceptsMessage: message => !!message && this.pendingResponses.has(message.eventId),
+            isTrustedMessage: this.isTrustedMessage,
+            onMessage: this.onTransportMessage,
+            onUntrustedMessage: this.onUntrustedMessage,
+            onChannelChange: isEstablished => controlOptions.onChannelChange?.(experienceIdentifier, isEstablished),
+        });
 
         this.controlOptions.eventManager.addEventListener(this.experienceId, this.onMessage, true);
+        this.registerFrameWindow();
         this.initializeMutationObserver();
     }
 
     public send = async <EventMessageValue extends EventMessageValues = EventMessageValues>(
-        messageEvent: TargetedMessageEvent
+        messageEvent: TargetedMessageEvent,
+        commandOptions: CommandOptions = {}
     ): Promise<SuccessResponse | ErrorResponse<EventMessageValue> | DataResponse<EventMessageValue>> => {
-        if (!this.iframe) {
-            throw new Error(`Cannot send ${messageEvent.eventName}: No experience frame found`);
+        if (!this.iframe && !this.isDeferred) {
+            throw new FrameNotCreatedError(`Cannot send ${messageEvent.eventName}: No experience frame found`);
         }
 
-        const eventId = v4();
-        const message = new PostMessageEvent(
-            messageEvent.eventName,
-            messageEvent.eventTarget,
-            eventId,
-            Date.now(),
-            SDK_VERSION,
-            messageEvent.message,
-            messageEvent.data
-        );
+        const contextCommandOptions = this.controlOptions.commandOptions;
+        const timeoutMs = commandOptions.timeoutMs ?? contextCommandOptions?.timeoutMs ?? this.MESSAGE_RESPONSE_TIMEOUT;
+        const retries = commandOptions.retries ?? contextCommandOptions?.retries ?? 0;
+        const signal = commandOptions.signal ?? contextCommandOptions?.signal;
 
-        this.iframe?.contentWindow?.postMessage(message, this.url);
+        if (signal?.aborted) {
+            throw new CommandAbortedError(messageEvent.eventName);
+        }
 
-        if (messageEvent.eventName === MessageEventName.ACKNOWLEDGE) {
-            return Promise.resolve(new SuccessResponse());
+        // Commands are queued until the experience reports it is ready, acknowledgments are not commands.
+        // The time spent in the queue counts against the timeout of the command
+        const queuedAt = Date.now();
+
+        if (this.requiresInitialization && messageEvent.eventName !== MessageEventName.ACKNOWLEDGE) {
+            await this.waitUntilReady(messageEvent.eventName, timeoutMs, signal);
         }
 
-        return new Promise((resolve, reject) => {
-            const eventHandler = (
-                event: MessageEvent<
-                    PostMessageEvent<
-                        MessageEventName,
-                        | {success: false; errorCode: string; errors?: string}
-                        | {
-                              success: true;
-                          }
-                    >
-                >
-            ) => {
-                const responseMessageEvent = event.data;
-                if (responseMessageEvent?.eventId === eventId) {
-                    window.removeEventListener('message', eventHandler);
-
-                    if (responseMessageEvent.message?.success === true) {
-                        resolve(new SuccessResponse());
-                    } else if (responseMessageEvent.message?.success === false) {
-                        resolve(new ErrorResponse(responseMessageEvent.message));
-                    } else {
-                        resolve(new DataResponse(responseMessageEvent.message));
-                    }
-                }
-            };
+        const remainingMs = Math.max(timeoutMs - (Date.now() - queuedAt), 0);
 
-            window.addEventListener('message', eventHandler);
-            setTimeout(() => {
-                window.removeEventListener('message', eventHandler);
-                reject(`${messageEvent.eventName} timed out`);
-            }, this.MESSAGE_RESPONSE_TIMEOUT);
-        });
+        for (let attempt = 0; ; attempt++) {
+            try {
+                return await this.postCommand<EventMessageValue>(
+                    messageEvent,
+                    timeoutMs,
+                    signal,
+                    attempt === 0 ? remainingMs : timeoutMs
+                );
+            } catch (error) {
+                if (!(error instanceof CommandTimeoutError) || attempt >= retries) {
+                    throw error;
+                }
+            }
+        }
     };
 
+    /**
+     * Resolves once the experience has initialized and can receive commands.
+     * Rejects if the frame does not load in time, or if it is unmounted before that happens
+     */
+    public whenReady = () => this.readiness.promise;
+
+    /**
+     * Whether the experience can answer commands without queuing them
+     */
+    public isExperienceReady = () => !this.requiresInitialization || this.isReady;
+
+    /**
+     * Resolves once the experience iframe loaded.
+     * Rejects with a FrameTimeoutError if it does not load in time, or if the frame is unmounted before it loads
+     */
+    public whenLoaded = () => this.loading.promise;
+
     public buildParameterString = (parameters?: ParametersAsObject) => {
         if (!parameters || typeof parameters !== 'object') {
             return '';
@@ -172,7 +257,52 @@ export abstract class BaseExperienceFrame<
         return new URLSearchParams(filteredOptions).toString();
     };
 
+    /**
+     * Creates the experience iframe, or defers creating it until the container scrolls into view when the frame is lazy.
+     * Commands sent to a deferred frame are queued until the experience initializes
+     */
+    public mountExperienceIframe = () => {
+        if (!this.frameOptions.lazy) {
+            this.createExperienceIframe();
+            return;
+        }
+
+        const {urlProvider, rootMargin} = this.getLazyOptions();
+
+        // The frame stays deferred until the iframe is created, so that commands are queued while the url is minted
+        this.isDeferred = true;
+
+        // Without intersection observers, e.g. in older browsers, there is no way to tell the container is visible
+        if (typeof IntersectionObserver === 'undefined') {
+            this.createDeferredExperienceIframe(urlProvider);
+            return;
+        }
+
+        this.intersectionObserver = new IntersectionObserver(
+            entries => {
+                if (entries.some(entry => entry.isIntersecting)) {
+                    this.stopObservingVisibility();
+                    this.createDeferredExperienceIframe(urlProvider);
+                }
+            },
+            {rootMargin}
+        );
+        this.intersectionObserver.observe(this.container);
+
+        this.onChange(
+            new ChangeEvent(
+                ChangeEventName.FRAME_DEFERRED,
+                ChangeEventLevel.INFO,
+                'Creating the frame is deferred until the container is visible',
+                {
+                    experience: this.internalExperience,
+                }
+            )
+        );
+    };
+
     public createExperienceIframe = () => {
+        this.isDeferred = false;
         this.onChange(
             new ChangeEvent(ChangeEventName.FRAME_STARTED, ChangeEventLevel.INFO, 'Creating the frame', {
                 experience: this.internalExperience,
@@ -181,7 +311,7 @@ export abstract class BaseExperienceFrame<
 
         try {
             this.setTimeoutInstance();
-            this.iframe = new Iframe({
+            this.frame = new Iframe({
                 id: this.experienceId,
                 src: this.url,
                 width: this.frameOptions.width,
@@ -189,8 +319,12 @@ export abstract class BaseExperienceFrame<
                 container: this.container,
                 onLoad: this.onLoadHandler,
                 withIframePlaceholder: this.frameOptions.withIframePlaceholder,
+                onRetry: this.retry,
                 className: this.frameOptions.className,
-            }).getIframe();
+                iframeAttributes: this.frameOptions.iframeAttributes,
+                loading: this.frameOptions.lazy ? 'lazy' : undefined,
+            });
+            this.iframe = this.frame.getIframe();
         } catch (err) {
             this.onChange(
                 new ChangeEvent(
@@ -214,18 +348,67 @@ export abstract class BaseExperienceFrame<
         );
     };
 
-    public addInternalEventListener = (eventName: MessageEventName, listener: EventListener) => {
-        const handler = (messageEvent: EmbeddingEvents, metadata?: ExperienceFrameMetadata) => {
-            if (messageEvent.eventName === eventName) {
-                listener(messageEvent, metadata);
-            }
-        };
+    /**
+     * Replaces the experience iframe with a new one that points at the given base url.
+     * Event listeners of the experience are kept, so the experience keeps working with the new session
+     */
+    public reload = (baseUrl: string, transformedContentOptions?: TransformedExperienceContentOptions) => {
+        if (this.isUnmounted) {
+            throw new FrameUnmountedError('Cannot reload an unmounted experience frame');
+        }
 
-        this.controlOptions.eventManager.addEventListener(this.experienceId, handler, true);
+        if (transformedContentOptions) {
+            this.transformedContentOptions = transformedContentOptions;
+        }
 
-        return {
-            remove: () => this.controlOptions.eventManager.removeEventListener(this.experienceId, handler),
-        };
+        this.url = this.buildExperienceUrl(this.validateBaseUrl(baseUrl));
+
+        // The observer is paused so that replacing the iframe is not mistaken for the experience being removed
+        this.mutationObserver?.disconnect();
+        this.frame?.remove();
+        this.transport.disconnect();
+        this.cancelPendingResponses('The experience frame has been reloaded');
+
+        // Commands sent from now on wait for the new frame, commands that are still queued keep waiting
+        if (this.isReady || this.isReadinessFailed) {
+            this.isReady = false;
+            this.isReadinessFailed = false;
+            this.readiness = createReadiness();
+        }
+
+        if (this.isLoadSettled) {
+            this.isLoadSettled = false;
+            this.loading = createReadiness();
+        }
+
+        if (this.timeoutInstance) {
+            clearTimeout(this.timeoutInstance);
+        }
+
+        // A frame that is still deferred is created right away, with the url it is reloaded with
+        this.stopObservingVisibility();
+        this.createExperienceIframe();
+        this.observeDocument();
+    };
+
+    public unmount = () => {
+        this.frame?.remove();
+        this.tearDown('The frame was unmounted');
+    };
+
+    public addInternalEventListener = <EventName extends MessageEventName>(
+        filter: EventFilter<EventName>,
+        listener: EventListener<EmbeddingEventOf<EventName>>,
+        once?: boolean
+    ) => {
+        return this.controlOptions.eventManager.subscribe(this.experienceId, filter, listener, {once, cleanUp: true});
+    };
+
+    public waitForEvent = <EventName extends MessageEventName>(
+        filter: EventFilter<EventName>,
+        options?: WaitForOptions
+    ) => {
+        return this.controlOptions.eventManager.waitFor(this.experienceId, filter, options);
     };
 
     private validateBaseUrl = (url: string) => {
@@ -236,26 +419,131 @@ export abstract class BaseExperienceFrame<
                 })
             );
 
-            throw new Error('Url is required for the experience');
+            throw new MissingUrlError('Url is required for the experience');
         }
 
         return url;
     };
 
+    // The url is minted when the frame is created, so that a single-use url does not expire while the frame is hidden
+    private createDeferredExperienceIframe = async (urlProvider?: UrlProvider) => {
+        let url: string | undefined;
+
+        try {
+            url = await urlProvider?.(this.internalExperience);
+        } catch (error) {
+            const message = `Minting the url of the frame failed: ${error instanceof Error ? error.message : error}`;
+            this.onChange(
+                new ChangeEvent(ChangeEventName.FRAME_NOT_CREATED, ChangeEventLevel.ERROR, message, {
+                    experience: this.internalExperience,
+                })
+            );
+            this.failFrameCreation(new FrameNotCreatedError(message));
+            return;
+        }
+
+        if (this.isUnmounted) {
+            return;
+        }
+
+        try {
+            // The minted url is checked like an embed url, and the control frame is moved to its session
+            if (urlProvider) {
+                const baseUrl = this.validateBaseUrl(url as string);
+                this.validateSessionUrl?.(baseUrl);
+                this.controlOptions.refreshControlFrame?.(baseUrl);
+                this.url = this.buildExperienceUrl(baseUrl);
+            }
+
+            this.createExperienceIframe();
+        } catch (error) {
+            // The failure has been reported through a change event, commands waiting for the frame are rejected
+            this.failFrameCreation(error as Error);
+        }
+    };
+
+    // Placeholders reload the experience through this with a newly minted url, embed urls can be used only once
+    private retry = async () => {
+        const urlProvider =
+            this.frameOptions.sessionRecovery?.urlProvider ??
+            this.getLazyOptions().urlProvider ??
+            this.controlOptions.getSessionUrl;
+
+        try {
+            if (!urlProvider) {
+                throw new MissingUrlError('A url provider is required to reload the experience');
+            }
+
+            const url = await urlProvider(this.internalExperience);
+
+            if (this.isUnmounted) {
+                return;
+            }
+
+            const baseUrl = this.validateBaseUrl(url);
+            this.validateSessionUrl?.(baseUrl);
+            this.controlOptions.refreshControlFrame?.(baseUrl);
+            this.reload(baseUrl);
+        } catch (error) {
+            if (this.isUnmounted) {
+                return;
+            }
+
+            // Nothing awaits the retry of a placeholder, so the failure is reported and the error placeholder is shown
+            const message = `Reloading the experience failed: ${error instanceof Error ? error.message : error}`;
+            this.onChange(
+                new ChangeEvent(ChangeEventName.RETRY_FAILED, ChangeEventLevel.ERROR, message, {
+                    experience: this.internalExperience,
+                })
+            );
+            this.frame?.setPlaceholderState(PlaceholderState.ERROR);
+        }
+    };
+
+    private getLazyOptions = (): LazyEmbeddingOptions => {
+        return typeof this.frameOptions.lazy === 'object' ? this.frameOptions.lazy : {};
+    };
+
+    private failFrameCreation = (error: Error) => {
+        this.isDeferred = false;
+        this.isLoadSettled = true;
+        this.loading.reject(error);
+        this.failReadiness(error);
+    };
+
+    // Queued commands are rejected, the readiness is renewed if the experience initializes or is reloaded afterwards
+    private failReadiness = (error: Error) => {
+        this.isReadinessFailed = true;
+        this.readiness.reject(error);
+    };
+
+    private stopObservingVisibility = () => {
+        this.intersectionObserver?.disconnect();
+        this.intersectionObserver = undefined;
+    };
+
+    // Reports through the load promise, errors thrown in the timer could not be caught by anyone
     private setTimeoutInstance = () => {
+        const timeoutMs = this.frameOptions.loadTimeoutMs ?? this.controlOptions.timeout;
+
         this.timeoutInstance = setTimeout(() => {
+            const message = 'Creating the frame timed out';
+            this.timeoutInstance = undefined;
             this.onChange(
-                new ChangeEvent(
-                    ChangeEventName.FRAME_NOT_CREATED,
-                    ChangeEventLevel.ERROR,
-                    'Creating the frame timed out',
-                    {
-                        experience: this.internalExperience,
-                    }
-                )
+                new ChangeEvent(ChangeEventName.FRAME_NOT_CREATED, ChangeEventLevel.ERROR, message, {
+                    experience: this.internalExperience,
+                    timeoutMs,
+                })
             );
-            throw new Error('Creating the frame timed out');
-        }, this.controlOptions.timeout);
+            this.frame?.setPlaceholderState(PlaceholderState.TIMED_OUT);
+            this.isLoadSettled = true;
+            this.loading.reject(new FrameTimeoutError(message, timeoutMs));
+            this.failReadiness(new FrameTimeoutError(message, timeoutMs));
+        }, timeoutMs);
+    };
+
+    private createTransport = (options: EmbeddingTransportOptions) => {
+        return this.controlOptions.createTransport?.(options) ?? new MessageTransport(options);
     };
 
     private onLoadHandler = async () => {
@@ -263,11 +551,24 @@ export abstract class BaseExperienceFrame<
             clearTimeout(this.timeoutInstance);
         }
 
+        this.isLoadSettled = true;
+        this.loading.resolve();
+
         this.onChange(
             new ChangeEvent(ChangeEventName.FRAME_LOADED, ChangeEventLevel.INFO, 'The experience iframe loaded', {
                 experience: this.internalExperience,
             })
         );
+
+        this.transport.connect(
+            new PostMessageEvent(
+                MessageEventName.ESTABLISH_MESSAGE_CHANNEL,
+                this.internalExperience,
+                v4(),
+                Date.now(),
+                SDK_VERSION
+            )
+        );
     };
 
     private getContainer = (container: HTMLElement | string) => {
@@ -279,7 +580,7 @@ export abstract class BaseExperienceFrame<
                 })
             );
 
-            throw new Error(message);
+            throw new ContainerNotFoundError(message, EmbeddingErrorCode.NO_CONTAINER);
         }
 
         let _container: HTMLElement | null = null;
@@ -294,6 +595,8 @@ export abstract class BaseExperienceFrame<
                             experience: this.internalExperience,
                         })
                     );
+
+                    throw new ContainerNotFoundError(error.message, EmbeddingErrorCode.INVALID_CONTAINER);
                 }
 
                 throw error;
@@ -310,25 +613,36 @@ export abstract class BaseExperienceFrame<
                 })
             );
 
-            throw new Error(message);
+            throw new ContainerNotFoundError(message, EmbeddingErrorCode.INVALID_CONTAINER);
         }
 
         return _container;
     };
 
-    private decorateOnChange = (onChange?: EventListener) => {
+    private decorateOnChange = (onChange?: ChangeEventListener) => {
         return (changeEvent: EmbeddingEvents) => {
             if (onChange) {
                 const metadata: ExperienceFrameMetadata = {
                     frame: this.iframe,
                 };
-                onChange(changeEvent, metadata);
+                onChange(changeEvent as EmbeddingEventOf<ChangeEventName>, metadata);
             }
         };
     };
 
-    private decorateOnMessage = (onMessage?: EventListener, interceptOnMessage?: EventListener) => {
+    private decorateOnMessage = (onMessage?: MessageEventListener, interceptOnMessage?: EventListener) => {
         return (messageEvent: EmbeddingEvents) => {
+            if (
+                messageEvent.eventName === MessageEventName.EXPERIENCE_INITIALIZED ||
+                messageEvent.eventName === MessageEventName.CONTENT_LOADED
+            ) {
+                this.markReady();
+            }
+
+            if (messageEvent.eventName === MessageEventName.ERROR_OCCURRED) {
+                this.showErrorPlaceholder(messageEvent.message?.errorCode);
+            }
+
             if (interceptOnMessage && this.iframe) {
                 interceptOnMessage(messageEvent, {
                     frame: this.iframe,
@@ -336,43 +650,246 @@ export abstract class BaseExperienceFrame<
             }
 
             if (onMessage) {
-                onMessage(messageEvent, {
+                onMessage(messageEvent as EmbeddingEventOf<MessageEventName>, {
                     frame: this.iframe,
                 });
             }
         };
     };
 
+    // Lets the control experience trust the messages posted by the window of this frame, until the frame is torn down
+    private registerFrameWindow = () => {
+        const unregister = this.controlOptions.registerFrameWindow?.(
+            this.experienceId,
+            () => this.iframe?.contentWindow
+        );
+
+        if (unregister) {
+            this.controlOptions.eventManager.addEventListenerForCleanup(this.experienceId, unregister);
+        }
+    };
+
     // Add mutation observer to perform cleaning up tasks after container or frame is removed from the dom
     private initializeMutationObserver = () => {
-        const mutationObserver = new MutationObserver(mutations => {
+        this.mutationObserver = new MutationObserver(mutations => {
             const isRemoved = mutations.some(record =>
                 Array.from(record.removedNodes).some(node => node === this.iframe || node === this.container)
             );
 
             if (isRemoved) {
-                this.controlOptions.eventManager.cleanUpCallbacksForExperience(this.experienceId);
-                mutationObserver.disconnect();
-                this.iframe = null;
-
-                this.onChange(
-                    new ChangeEvent(
-                        ChangeEventName.FRAME_REMOVED,
-                        ChangeEventLevel.INFO,
-                        'Frame removed from the DOM',
-                        {
-                            experience: this.internalExperience,
-                        }
-                    )
-                );
+                this.frame?.remove();
+                this.tearDown('Frame removed from the DOM');
             }
         });
 
-        mutationObserver.observe(document.body, {
+        this.observeDocument();
+    };
+
+    private observeDocument = () => {
+        this.mutationObserver?.observe(document.body, {
             childList: true,
             subtree: true,
         });
     };
 
+    private waitUntilReady = (eventName: MessageEventName, timeoutMs: number, signal?: AbortSignal) => {
+        return new Promise<void>((resolve, reject) => {
+            const cleanUp = () => {
+                signal?.removeEventListener('abort', onAbort);
+                clearTimeout(timeout);
+            };
+
+            const onAbort = () => {
+                cleanUp();
+                reject(new CommandAbortedError(eventName));
+            };
+
+            signal?.addEventListener('abort', onAbort);
+            const timeout = setTimeout(() => {
+                cleanUp();
+                reject(new CommandTimeoutError(eventName, timeoutMs));
+            }, timeoutMs);
+
+            this.readiness.promise.then(
+                () => {
+                    cleanUp();
+                    resolve();
+                },
+                (error: Error) => {
+                    cleanUp();
+                    reject(new CommandAbortedError(eventName, error.message));
+                }
+            );
+        });
+    };
+
+    private postCommand = <EventMessageValue extends EventMessageValues>(
+        messageEvent: TargetedMessageEvent,
+        timeoutMs: number,
+        signal?: AbortSignal,
+        // The part of the timeout left once the command leaves the queue
+        remainingMs = timeoutMs
+    ): Promise<SuccessResponse | ErrorResponse<EventMessageValue> | DataResponse<EventMessageValue>> => {
+        const eventId = v4();
+        const message = new PostMessageEvent(
+            messageEvent.eventName,
+            messageEvent.eventTarget,
+            eventId,
+            Date.now(),
+            SDK_VERSION,
+            messageEvent.message,
+            messageEvent.data
+        );
+
+        this.controlOptions.recorder?.record(TrafficEntryType.COMMAND, this.experienceId, message.eventName, message);
+
+        if (messageEvent.eventName === MessageEventName.ACKNOWLEDGE) {
+            this.transport.postMessage(message);
+            return Promise.resolve(new SuccessResponse());
+        }
+
+        // The response is expected before the command is posted, transports may answer synchronously
+        const response = new Promise<
+            SuccessResponse | ErrorResponse<EventMessageValue> | DataResponse<EventMessageValue>
+        >((resolve, reject) => {
+            const cleanUp = () => {
+                signal?.removeEventListener('abort', onAbort);
+                clearTimeout(timeout);
+                this.pendingResponses.delete(eventId);
+            };
+
+            const onAbort = () => {
+                cleanUp();
+                reject(new CommandAbortedError(messageEvent.eventName));
+            };
+
+            signal?.addEventListener('abort', onAbort);
+            const timeout = setTimeout(() => {
+                cleanUp();
+                reject(new CommandTimeoutError(messageEvent.eventName, timeoutMs));
+            }, remainingMs);
+
+            this.pendingResponses.set(eventId, {
+                eventName: messageEvent.eventName,
+                resolve: responseMessageEvent => {
+                    cleanUp();
+
+                    const responseMessage = responseMessageEvent.message as ResponseMessage | undefined;
+                    if (responseMessage?.success === true) {
+                        resolve(new SuccessResponse());
+                    } else if (responseMessage?.success === false) {
+                        resolve(new ErrorResponse(responseMessage));
+                    } else {
+                        resolve(new DataResponse(responseMessageEvent.message as EventMessageValue));
+                    }
+                },
+                cancel: (reason: string) => {
+                    cleanUp();
+                    reject(new CommandAbortedError(messageEvent.eventName, reason));
+                },
+            });
+        });
+
+        this.transport.postMessage(message);
+
+        return response;
+    };
+
+    // Responses settle the command waiting for them, anything else received over the channel is an event for the SDK
+    private onTransportMessage = (messageEvent: PostMessageEvent) => {
+        const pendingResponse = messageEvent && this.pendingResponses.get(messageEvent.eventId);
+
+        if (pendingResponse) {
+            this.controlOptions.recorder?.record(
+                TrafficEntryType.RESPONSE,
+                this.experienceId,
+                pendingResponse.eventName,
+                messageEvent
+            );
+            pendingResponse.resolve(messageEvent);
+        } else if (messageEvent?.eventName && messageEvent.eventTarget) {
+            this.controlOptions.onFrameMessage?.(messageEvent as EmbeddingEvents);
+        }
+    };
+
+    private onUntrustedMessage = (event: MessageEvent<PostMessageEvent>) => {
+        this.onChange(
+            new ChangeEvent(
+                ChangeEventName.UNTRUSTED_MESSAGE_ORIGIN,
+                ChangeEventLevel.WARN,
+                'Message from an untrusted origin received',
+                {
+                    origin: event.origin,
+                    eventName: this.pendingResponses.get(event.data.eventId)?.eventName,
+                }
+            )
+        );
+    };
+
+    // Responses are only accepted from the QuickSight host, or an allowed origin, through the frame of this experience
+    private isTrustedMessage = (event: MessageEvent) => {
+        const trustedOrigins = [this.controlOptions.urlInfo.host, ...(this.controlOptions.allowedOrigins ?? [])];
+        const isTrustedSource = !!event.source && event.source === this.iframe?.contentWindow;
+
+        return trustedOrigins.includes(event.origin) && isTrustedSource;
+    };
+
+    private cancelPendingResponses = (reason: string) => {
+        this.pendingResponses.forEach(pendingResponse => pendingResponse.cancel(reason));
+        this.pendingResponses.clear();
+    };
+
+    // Releases everything the frame holds on to, so that an unmounted experience does not leak listeners or timers
+    private tearDown = (message: string) => {
+        if (this.isUnmounted) {
+            return;
+        }
+
+        this.isUnmounted = true;
+        this.isDeferred = false;
+        this.mutationObserver?.disconnect();
+        this.stopObservingVisibility();
+
+        if (this.timeoutInstance) {
+            clearTimeout(this.timeoutInstance);
+        }
+
+        this.cancelPendingResponses('The experience frame has been unmounted');
+        this.transport.close();
+        this.readiness.reject(new FrameUnmountedError('The experience frame has been unmounted'));
+        this.loading.reject(new FrameUnmountedError('The experience frame has been unmounted'));
+
+        this.controlOptions.eventManager.cleanUpCallbacksForExperience(this.experienceId);
+        this.iframe = null;
+
+        this.onChange(
+            new ChangeEvent(ChangeEventName.FRAME_REMOVED, ChangeEventLevel.INFO, message, {
+                experience: this.internalExperience,
+            })
+        );
+    };
+
+    private showErrorPlaceholder = (errorCode?: string) => {
+        const sessionExpiryErrorCodes = this.frameOptions.sessionRecovery?.errorCodes ?? SESSION_EXPIRY_ERROR_CODES;
+        const isSessionExpired = !!errorCode && sessionExpiryErrorCodes.includes(errorCode);
+
+        this.frame?.setPlaceholderState(
+            isSessionExpired ? PlaceholderState.SESSION_EXPIRED : PlaceholderState.ERROR,
+            errorCode
+        );
+    };
+
+    private markReady = () => {
+        if (!this.isReady) {
+            if (this.isReadinessFailed) {
+                this.isReadinessFailed = false;
+                this.readiness = createReadiness();
+            }
+
+            this.isReady = true;
+            this.readiness.resolve();
+        }
+    };
+
     protected abstract buildExperienceUrl: (baseUrl: string) => string;
 }
@@ -3,4 +3,5 @@
 
 export * from './types';
 export * from './base-experience';
+export * from './parameter-mirror';
 export * from './frame/experience-frame';
@@ -0,0 +1,192 @@
+// Copyright 2023 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+
+import {CommandOptions} from './types';
+import {Parameter, ParameterChange, ParameterValue} from '../../common';
+import {ResponseMessage, SuccessResponse} from '@common/events/events';
+import {MessageEventName} from '@common/events/types';
+import {CommandAbortedError} from '@common/errors/errors';
+
+/**
+ * Sends the parameters to the experience, the mirror calls it with the parameters that change
+ */
+export type SendParameters = (parameters: Parameter[], commandOptions?: CommandOptions) => Promise<ResponseMessage>;
+
+type ParameterBatch = {
+    parameters: Map<string, ParameterValue[]>;
+    commandOptions?: CommandOptions;
+    response: Promise<ResponseMessage>;
+};
+
+const toParameters = (parameters: Map<string, ParameterValue[]>): Parameter[] => {
+    return Array.from(parameters, ([Name, Values]) => ({Name, Values: [...Values]}));
+};
+
+// The signal of a caller only stops that caller from waiting, the command is still sent for the other callers
+const toBatchOptions = (commandOptions?: CommandOptions) => {
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    const {signal, ...batchOptions} = commandOptions ?? {};
+
+    return Object.keys(batchOptions).length > 0 ? batchOptions : undefined;
+};
+
+const withSignal = (response: Promise<ResponseMessage>, signal?: AbortSignal) => {
+    if (!signal) {
+        return response;
+    }
+
+    return new Promise<ResponseMessage>((resolve, reject) => {
+        const onAbort = () => reject(new CommandAbortedError(MessageEventName.SET_PARAMETERS));
+        const settle = () => signal.removeEventListener('abort', onAbort);
+
+        signal.addEventListener('abort', onAbort);
+        response.then(resolve, reject).then(settle, settle);
+    });
+};
+
+// A caller waiting for several commands gets the first failed response, or the response of the command it was sent with
+const combineResponses = (responses: Promise<ResponseMessage>[]) => {
+    if (responses.length === 0) {
+        return Promise.resolve(new SuccessResponse());
+    }
+
+    return Promise.all(responses).then(
+        responseMessages =>
+            responseMessages.find(responseMessage => responseMessage?.success === false) ??
+            responseMessages[responseMessages.length - 1]
+    );
+};
+
+// QuickSight may report numeric values as strings, they are compared by their text
+const hasSameValues = (values: ParameterValue[], otherValues?: ParameterValue[]) => {
+    return (
+        !!otherValues &&
+        values.length === otherValues.length &&
+        values.every((value, index) => `${value}` === `${otherValues[index]}`)
+    );
+};
+
+/**
+ * Local copy of the parameters of an experience, kept up to date with the parameters it reports and
+ * the parameters that were set through the SDK.
+ * Parameters that already have the given values are not sent again, and parameters set while a previous
+ * SET_PARAMETERS command is in flight are coalesced into a single command sent once it settles
+ */
+export class ParameterMirror {
+    private readonly sendParameters: SendParameters;
+    private readonly parameters: Map<string, ParameterValue[]>;
+    private inFlightBatch?: ParameterBatch;
+    private pendingBatch?: ParameterBatch;
+
+    constructor(sendParameters: SendParameters, initialParameters: Parameter[] = []) {
+        this.sendParameters = sendParameters;
+        this.parameters = new Map(initialParameters.map(({Name, Values}) => [Name, [...Values]]));
+    }
+
+    public getSnapshot = (): Parameter[] => toParameters(this.parameters);
+
+    /**
+     * Sends the parameters that change. Parameters that already have the given values wait for the commands that are
+     * setting them, and the call resolves with a success response without sending anything when nothing is pending.
+     * Coalesced calls resolve with the response of the command they were sent with, using the command options of the last call.
+     * The signal of the command options only aborts the call it is given to
+     */
+    public set = (parameters: Parameter[], commandOptions?: CommandOptions): Promise<ResponseMessage> => {
+        const signal = commandOptions?.signal;
+
+        if (signal?.aborted) {
+            return Promise.reject(new CommandAbortedError(MessageEventName.SET_PARAMETERS));
+        }
+
+        const awaitedBatches = new Set<ParameterBatch>();
+        const changedParameters = parameters.filter(({Name, Values}) => {
+            const batch = this.getBatchSetting(Name);
+
+            if (!hasSameValues(Values, batch?.parameters.get(Name) ?? this.parameters.get(Name))) {
+                return true;
+            }
+
+            if (batch) {
+                awaitedBatches.add(batch);
+            }
+
+            return false;
+        });
+
+        if (changedParameters.length > 0) {
+            awaitedBatches.add(this.addToBatch(changedParameters, commandOptions));
+        }
+
+        return withSignal(combineResponses(Array.from(awaitedBatches, ({response}) => response)), signal);
+    };
+
+    /**
+     * Records the parameters reported by the experience and describes how each of them changed
+     */
+    public applyChanges = (changedParameters: Parameter[]): ParameterChange[] => {
+        return changedParameters.map(({Name, Values}) => {
+            const PreviousValues = this.parameters.get(Name);
+            this.parameters.set(Name, [...Values]);
+
+            return {Name, PreviousValues, Values};
+        });
+    };
+
+    // The pending or in-flight command that sets the parameter, the pending one when both do
+    private getBatchSetting = (name: string) => {
+        return [this.pendingBatch, this.inFlightBatch].find(batch => batch?.parameters.has(name));
+    };
+
+    private addToBatch = (changedParameters: Parameter[], commandOptions?: CommandOptions) => {
+        if (!this.inFlightBatch) {
+            return this.sendBatch(new Map(changedParameters.map(({Name, Values}) => [Name, Values])), commandOptions);
+        }
+
+        const batch = this.pendingBatch ?? this.createPendingBatch(this.inFlightBatch);
+        changedParameters.forEach(({Name, Values}) => batch.parameters.set(Name, Values));
+        batch.commandOptions = commandOptions;
+
+        return batch;
+    };
+
+    private createPendingBatch = (inFlightBatch: ParameterBatch) => {
+        const batch: ParameterBatch = {
+            parameters: new Map(),
+            response: inFlightBatch.response
+                .catch(() => undefined)
+                .then(() => {
+                    this.pendingBatch = undefined;
+                    return this.sendBatch(batch.parameters, batch.commandOptions).response;
+                }),
+        };
+        this.pendingBatch = batch;
+
+        return batch;
+    };
+
+    private sendBatch = (parameters: Map<string, ParameterValue[]>, commandOptions?: CommandOptions) => {
+        const batchOptions = toBatchOptions(commandOptions);
+        const sentParameters = toParameters(parameters);
+        const sentResponse = batchOptions
+            ? this.sendParameters(sentParameters, batchOptions)
+            : this.sendParameters(sentParameters);
+        const response = sentResponse.then(responseMessage => {
+            if (responseMessage?.success !== false) {
+                parameters.forEach((values, name) => this.parameters.set(name, [...values]));
+            }
+
+            return responseMessage;
+        });
+
+        const batch: ParameterBatch = {parameters, commandOptions, response};
+        const settle = () => {
+            if (this.inFlightBatch === batch) {
+                this.inFlightBatch = undefined;
+            }
+        };
+        response.then(settle, settle);
+        this.inFlightBatch = batch;
+
+        return batch;
+    };
+}
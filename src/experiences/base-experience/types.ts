@@ -27,7 +27,10 @@ import {
 } from '../console-experience';
 import {ControlContentOptions, IControlExperience, InternalControlExperience} from '../control-experience';
 import {IContextExperience, InternalContextExperience} from '../../common/embedding-context';
-import {EventListener} from '../../common/event-manager';
+import {ChangeEventListener, MessageEventListener} from '../../common/event-manager';
+import {Parameter} from '../../common/types';
+import {IframeAttributes, IframePlaceholderOptions} from '../../common/iframe';
+import type {FilterGroup} from '@aws-sdk/client-quicksight';
 
 export type ContentOptions =
     | VisualContentOptions
@@ -42,9 +45,13 @@ export type FrameOptions = {
     width?: string;
     height?: string;
     resizeHeightOnSizeChangedEvent?: boolean;
-    withIframePlaceholder?: boolean | HTMLElement;
+    withIframePlaceholder?: boolean | HTMLElement | IframePlaceholderOptions;
     className?: string;
-    onChange?: EventListener;
+    iframeAttributes?: IframeAttributes;
+    lazy?: boolean | LazyEmbeddingOptions;
+    loadTimeoutMs?: number;
+    onChange?: ChangeEventListener;
+    sessionRecovery?: SessionRecoveryOptions;
 };
 
 export type TransformedContentOptions =
@@ -92,5 +99,36 @@ export interface IBaseExperience {
 }
 
 export interface BaseContentOptions {
-    onMessage?: EventListener;
+    onMessage?: MessageEventListener;
 }
+
+export type UrlProvider = (experience: Experiences) => Promise<string>;
+
+export type LazyEmbeddingOptions = {
+    // Mints the embed url once the container scrolls into view, the url of the frame options is loaded otherwise
+    urlProvider?: UrlProvider;
+    // Grows the viewport the container is checked against, e.g. "200px" starts embedding just before it is visible
+    rootMargin?: string;
+};
+
+export type SessionState = {
+    sheetId?: string;
+    parameters?: Parameter[];
+    filterGroups?: FilterGroup[];
+};
+
+export type SessionRecoveryOptions = {
+    urlProvider: UrlProvider;
+    maxAttempts?: number;
+    backoffMs?: number;
+    errorCodes?: string[];
+};
+
+// The error codes QuickSight reports through ERROR_OCCURRED when the embed url or the session it created expired
+export const SESSION_EXPIRY_ERROR_CODES = ['Forbidden', 'Unauthorized'];
+
+export type CommandOptions = {
+    timeoutMs?: number;
+    retries?: number;
+    signal?: AbortSignal;
+};
@@ -13,6 +13,7 @@ import {ExperienceType, FrameOptions} from '@experience/base-experience/types';
 import {BaseExperience} from '@experience/base-experience/base-experience';
 import {ChangeEvent} from '@common/events/events';
 import {ChangeEventLevel, ChangeEventName} from '@common/events/types';
+import {InvalidUrlError} from '@common/errors/errors';
 
 export class ConsoleExperience extends BaseExperience<
     ConsoleContentOptions,
@@ -62,7 +63,9 @@ export class ConsoleExperience extends BaseExperience<
             contentOptions,
             transformedContentOptions,
             internalExperience,
-            experienceIdentifier
+            experienceIdentifier,
+            undefined,
+            this.validateSessionUrl
         );
     }
 
@@ -80,7 +83,7 @@ export class ConsoleExperience extends BaseExperience<
                 {frame: this.experienceFrame.iframe}
             );
 
-            throw new Error('Invalid console experience URL');
+            throw new InvalidUrlError('Invalid console experience URL');
         }
 
         return {
@@ -19,7 +19,8 @@ export class ConsoleExperienceFrame extends BaseExperienceFrame<
         transformedContentOptions: TransformedConsoleContentOptions,
         internalExperience: InternalConsoleExperience,
         experienceIdentifier: string,
-        interceptMessage?: EventListener
+        interceptMessage?: EventListener,
+        validateSessionUrl?: (url: string) => void
     ) {
         super(
             frameOptions,
@@ -28,10 +29,11 @@ export class ConsoleExperienceFrame extends BaseExperienceFrame<
             transformedContentOptions,
             internalExperience,
             experienceIdentifier,
-            interceptMessage
+            interceptMessage,
+            validateSessionUrl
         );
         this.url = this.buildExperienceUrl(frameOptions.url);
-        this.createExperienceIframe();
+        this.mountExperienceIframe();
     }
 
     buildExperienceUrl = (baseUrl: string) => {
@@ -2,40 +2,60 @@
 // SPDX-License-Identifier: Apache-2.0
 
 import {ControlExperienceFrame} from './frame/control-experience-frame';
-import {ControlOptions, IControlExperience, InternalControlExperience, InternalSend, UrlInfo} from './types';
-import {ExperienceType} from '../base-experience';
+import {
+    ControlOptions,
+    FrameWindowGetter,
+    IControlExperience,
+    InternalControlExperience,
+    InternalSend,
+    UrlInfo,
+} from './types';
+import {ExperienceType, InternalExperiences} from '../base-experience';
 import {EventManager} from '@common/event-manager/event-manager';
 import {EmbeddingIFrameElement} from '@common/iframe/types';
 import {ChangeEvent, TargetedMessageEvent} from '@common/events/events';
 import {ChangeEventLevel, ChangeEventName, EmbeddingEvents, MessageEventName} from '@common/events/types';
 import {BaseExperience} from '@experience/base-experience/base-experience';
-import {EventListener} from '@common/event-manager/types';
+import {ChangeEventListener, EventListener, MessageEventListener} from '@common/event-manager/types';
 import {LogProvider} from '../../common';
+import {EmbeddingTransportFactory} from '@common/transport/types';
+import {TrafficRecorder} from '@common/recorder/traffic-recorder';
+import {TrafficEntryType} from '@common/recorder/types';
+import {validateMessage} from '@common/validation/message-schemas';
 
 export class ControlExperience {
     static FRAME_TIMEOUT = 60000;
     private readonly container: HTMLBodyElement;
-    private readonly urlInfo: UrlInfo;
+    private urlInfo: UrlInfo;
+    private readonly allowedOrigins: string[];
+    private readonly createTransport?: EmbeddingTransportFactory;
+    private readonly recorder?: TrafficRecorder;
     private readonly internalExperience: InternalControlExperience;
     private readonly eventManager: EventManager;
-    private readonly onMessage?: EventListener;
-    private readonly onChange?: EventListener;
+    private readonly onMessage?: MessageEventListener;
+    private readonly onChange?: ChangeEventListener;
     private readonly experience: IControlExperience = {
         experienceType: ExperienceType.CONTROL,
     };
     private internalSend?: InternalSend;
+    private controlExperienceFrame?: ControlExperienceFrame;
     private iframe: EmbeddingIFrameElement | null = null;
     private logger?: LogProvider;
+    private readonly channelExperienceIds: Set<string> = new Set();
+    private readonly frameWindows: Map<string, FrameWindowGetter> = new Map();
 
     constructor(
         container: HTMLBodyElement,
         controlOptions: ControlOptions,
-        onChange?: EventListener,
-        onMessage?: EventListener
+        onChange?: ChangeEventListener,
+        onMessage?: MessageEventListener
     ) {
         this.container = container;
         this.eventManager = controlOptions.eventManager;
         this.urlInfo = controlOptions.urlInfo;
+        this.allowedOrigins = controlOptions.allowedOrigins ?? [];
+        this.createTransport = controlOptions.createTransport;
+        this.recorder = controlOptions.recorder;
 
         this.internalExperience = {
             ...this.experience,
@@ -55,13 +75,58 @@ export class ControlExperience {
 
     public controlFrameMessageListener = (event: MessageEvent<EmbeddingEvents>) => {
         if (this.isMessageEvent(event.data)) {
-            const messageEvent = event.data;
+            if (!this.isTrustedMessage(event)) {
+                this.onChange?.(
+                    new ChangeEvent(
+                        ChangeEventName.UNTRUSTED_MESSAGE_ORIGIN,
+                        ChangeEventLevel.WARN,
+                        'Message from an untrusted origin received',
+                        {
+                            origin: event.origin,
+                            eventName: event.data.eventName,
+                        }
+                    ),
+                    {frame: this.iframe}
+                );
+                this.logger?.warn(`Message from an untrusted origin received: ${event.origin}`);
+                return;
+            }
+
+            // Frames with a channel of their own deliver their messages over it, copies posted to the window are dropped
+            if (this.isPostedByChannelFrame(event.source)) {
+                return;
+            }
+
+            this.handleMessageEvent(event.data);
+        }
+    };
+
+    /**
+     * Hands a message from QuickSight to the experience it targets and acknowledges it.
+     * Malformed messages are neither dispatched nor acknowledged.
+     * Messages arrive either through the window or through the MessageChannel of an embedded frame
+     */
+    public handleMessageEvent = (messageEvent: EmbeddingEvents) => {
+        if (this.isMessageEvent(messageEvent)) {
             try {
+                const validationErrors = validateMessage(messageEvent.eventName, messageEvent.message);
+
+                if (validationErrors.length) {
+                    this.quarantineMessage(messageEvent, validationErrors);
+                    return;
+                }
+
                 if (messageEvent.eventTarget) {
                     const incomingExperienceIdentifier = BaseExperience.getExperienceIdentifier(
                         messageEvent.eventTarget
                     );
 
+                    this.recorder?.record(
+                        TrafficEntryType.EVENT,
+                        incomingExperienceIdentifier,
+                        messageEvent.eventName,
+                        messageEvent
+                    );
                     this.eventManager.invokeEventListener(incomingExperienceIdentifier, messageEvent);
                 }
 
@@ -83,6 +148,43 @@ export class ControlExperience {
         }
     };
 
+    /**
+     * Keeps track of the frames that have a channel of their own.
+     * The window is still listened to for the messages of the frames without one
+     */
+    public onChannelChange = (experienceId: string, isEstablished: boolean) => {
+        if (isEstablished) {
+            this.channelExperienceIds.add(experienceId);
+        } else {
+            this.channelExperienceIds.delete(experienceId);
+        }
+    };
+
+    /**
+     * Keeps track of the windows of the frames embedded by the SDK, messages are only trusted when posted by one of them.
+     * The windows are compared as they are, so frames inside a shadow root are recognized too
+     */
+    public registerFrameWindow = (experienceId: string, getFrameWindow: FrameWindowGetter) => {
+        this.frameWindows.set(experienceId, getFrameWindow);
+
+        return () => {
+            if (this.frameWindows.get(experienceId) === getFrameWindow) {
+                this.frameWindows.delete(experienceId);
+            }
+        };
+    };
+
+    public refresh = (urlInfo: UrlInfo) => {
+        this.urlInfo = urlInfo;
+        this.controlExperienceFrame?.reload(this.getControlExperienceBaseUrl());
+        this.iframe = this.controlExperienceFrame?.iframe ?? null;
+    };
+
+    public unmount = () => {
+        this.controlExperienceFrame?.unmount();
+        this.iframe = null;
+    };
+
     public setLogger = (logger: LogProvider) => {
         this.logger = logger;
         return this;
@@ -93,10 +195,11 @@ export class ControlExperience {
         const controlExperienceId = this.getControlExperienceId();
 
         if (this.onMessage) {
-            this.eventManager.addEventListener(controlExperienceId, this.onMessage, true);
+            // Only message events are dispatched through the event manager
+            this.eventManager.addEventListener(controlExperienceId, this.onMessage as EventListener, true);
         }
 
-        const controlExperienceFrame = new ControlExperienceFrame(
+        this.controlExperienceFrame = new ControlExperienceFrame(
             {
                 url: controlUrl,
                 container: this.container,
@@ -109,6 +212,11 @@ export class ControlExperience {
                 contextId: this.internalExperience.contextId,
                 timeout: ControlExperience.FRAME_TIMEOUT,
                 urlInfo: this.urlInfo,
+                onFrameMessage: this.handleMessageEvent,
+                onChannelChange: this.onChannelChange,
+                registerFrameWindow: this.registerFrameWindow,
+                createTransport: this.createTransport,
+                recorder: this.recorder,
             },
             {
                 onMessage: this.onMessage,
@@ -118,8 +226,8 @@ export class ControlExperience {
             controlExperienceId
         );
 
-        this.internalSend = controlExperienceFrame.send;
-        this.iframe = controlExperienceFrame.iframe;
+        this.internalSend = this.controlExperienceFrame.send;
+        this.iframe = this.controlExperienceFrame.iframe;
 
         window.addEventListener('message', this.controlFrameMessageListener);
         this.eventManager.addEventListenerForCleanup(controlExperienceId, () =>
@@ -127,6 +235,25 @@ export class ControlExperience {
         );
     };
 
+    // Malformed messages are not dispatched, they are handed over to the change event listener instead
+    private quarantineMessage = (messageEvent: EmbeddingEvents, validationErrors: string[]) => {
+        this.onChange?.(
+            new ChangeEvent(
+                ChangeEventName.MALFORMED_MESSAGE,
+                ChangeEventLevel.WARN,
+                `Malformed ${messageEvent.eventName} message received`,
+                {
+                    eventName: messageEvent.eventName,
+                    eventTarget: messageEvent.eventTarget,
+                    message: messageEvent.message,
+                    validationErrors,
+                }
+            ),
+            {frame: this.iframe}
+        );
+        this.logger?.warn(`Malformed ${messageEvent.eventName} message received`, validationErrors);
+    };
+
     private sendAcknowledgment = (messageEvent: EmbeddingEvents) => {
         const acknowledgment = new TargetedMessageEvent(MessageEventName.ACKNOWLEDGE, this.internalExperience, {
             eventName: messageEvent.eventName,
@@ -152,6 +279,35 @@ export class ControlExperience {
         return new URL(urlString).href;
     };
 
+    // Messages are only accepted from the QuickSight host, or an allowed origin,
+    // through the control frame or the frame of the experience the message targets
+    private isTrustedMessage = (event: MessageEvent<EmbeddingEvents>) => {
+        const trustedOrigins = [this.urlInfo.host, ...this.allowedOrigins];
+
+        return trustedOrigins.includes(event.origin) && this.isTrustedSource(event.source, event.data.eventTarget);
+    };
+
+    private isTrustedSource = (source: MessageEventSource | null, eventTarget?: InternalExperiences) => {
+        if (this.isFrameWindow(source, this.getControlExperienceId())) {
+            return true;
+        }
+
+        try {
+            return !!eventTarget && this.isFrameWindow(source, BaseExperience.getExperienceIdentifier(eventTarget));
+        } catch (error) {
+            // A message targeting an unknown experience can not be traced back to a frame of the SDK
+            return false;
+        }
+    };
+
+    private isPostedByChannelFrame = (source: MessageEventSource | null) => {
+        return Array.from(this.channelExperienceIds).some(experienceId => this.isFrameWindow(source, experienceId));
+    };
+
+    private isFrameWindow = (source: MessageEventSource | null, experienceId: string) => {
+        return !!source && this.frameWindows.get(experienceId)?.() === source;
+    };
+
     private isMessageEvent = (messageEvent: EmbeddingEvents) => {
         return !!messageEvent && !!messageEvent.eventTarget && !!messageEvent.eventName;
     };
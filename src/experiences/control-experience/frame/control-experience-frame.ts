@@ -7,6 +7,9 @@ import {BaseExperienceFrame} from '@experience/base-experience/frame/experience-
 import {BaseContentOptions, FrameOptions} from '@experience/base-experience/types';
 
 export class ControlExperienceFrame extends BaseExperienceFrame<object, BaseContentOptions, InternalControlExperience> {
+    // The control frame only relays messages and never reports itself as initialized
+    protected readonly requiresInitialization = false;
+
     constructor(
         frameOptions: FrameOptions,
         controlOptions: ControlOptions,
@@ -26,7 +29,7 @@ export class ControlExperienceFrame extends BaseExperienceFrame<object, BaseCont
             interceptMessage
         );
         this.url = this.buildExperienceUrl(frameOptions.url);
-        this.createExperienceIframe();
+        this.mountExperienceIframe();
     }
 
     buildExperienceUrl = (baseUrl: string) => {
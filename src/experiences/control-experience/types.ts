@@ -1,9 +1,13 @@
 // Copyright 2023 Amazon.com, Inc. or its affiliates. All Rights Reserved.
 // SPDX-License-Identifier: Apache-2.0
 
-import {BaseContentOptions, ExperienceType, IBaseExperience} from '../base-experience';
+import {BaseContentOptions, CommandOptions, ExperienceType, IBaseExperience, UrlProvider} from '../base-experience';
 import {EventManager} from '@common/event-manager/event-manager';
+import {ChangeEventListener} from '@common/event-manager/types';
 import {TargetedMessageEvent} from '@common/events/events';
+import {EmbeddingEvents} from '@common/events/types';
+import {EmbeddingTransportFactory} from '@common/transport/types';
+import {TrafficRecorder} from '@common/recorder/traffic-recorder';
 
 export interface IControlExperience extends IBaseExperience {
     experienceType: typeof ExperienceType.CONTROL;
@@ -21,8 +25,17 @@ export type ControlOptions = {
     areCookiesDisabled?: boolean;
     urlInfo: UrlInfo;
     timeout?: number;
+    commandOptions?: CommandOptions;
+    allowedOrigins?: string[];
     sendToControlFrame?: InternalSend;
-    onChange?: EventListener;
+    onChange?: ChangeEventListener;
+    getSessionUrl?: UrlProvider;
+    refreshControlFrame?: (url: string) => void;
+    onFrameMessage?: (messageEvent: EmbeddingEvents) => void;
+    onChannelChange?: (experienceId: string, isEstablished: boolean) => void;
+    registerFrameWindow?: (experienceId: string, getFrameWindow: FrameWindowGetter) => () => void;
+    createTransport?: EmbeddingTransportFactory;
+    recorder?: TrafficRecorder;
 };
 
 export type UrlInfo = {
@@ -32,3 +45,5 @@ export type UrlInfo = {
 };
 
 export type InternalSend = (messageEvent: TargetedMessageEvent) => void;
+
+export type FrameWindowGetter = () => Window | null | undefined;
@@ -3,18 +3,23 @@
 
 import {Parameter, ParametersAsObject} from '../../common';
 import {DashboardExperienceFrame} from './frame/dashboard-experience-frame';
+import {DashboardUrlSync} from './url-sync';
 import {
     DashboardContentOptions,
+    DashboardState,
+    DashboardTheme,
     ExportToolbarOption,
     IDashboardExperience,
     InternalDashboardExperience,
     NavigateToDashboardOptions,
     Sheet,
     TransformedDashboardContentOptions,
+    UrlSyncOptions,
     Visual,
     VisualAction,
+    VisualActionsState,
 } from './types';
-import {ExperienceType, FrameOptions} from '../base-experience';
+import {CommandOptions, ExperienceType, FrameOptions, ParameterMirror, SessionState} from '../base-experience';
 import {ControlOptions} from '../control-experience';
 
 import {ExperienceFrameMetadata} from '../../common/embedding-context';
@@ -22,6 +27,7 @@ import {BaseExperience} from '@experience/base-experience/base-experience';
 import {ChangeEvent, EmbeddingMessageEvent, ResponseMessage} from '@common/events/events';
 import {ChangeEventLevel, ChangeEventName, EmbeddingEvents, MessageEventName} from '@common/events/types';
 import type {FilterGroup, ThemeConfiguration} from '@aws-sdk/client-quicksight';
+import {CommandRejectedError, InvalidUrlError} from '@common/errors/errors';
 
 export class DashboardExperience extends BaseExperience<
     DashboardContentOptions,
@@ -34,6 +40,15 @@ export class DashboardExperience extends BaseExperience<
     protected readonly internalExperience;
     protected readonly experienceFrame;
     protected readonly experienceId: string;
+    private readonly parameterMirror = new ParameterMirror(
+        (parameters, commandOptions) =>
+            this.sendCommand(new EmbeddingMessageEvent(MessageEventName.SET_PARAMETERS, parameters), commandOptions),
+        this.contentOptions.parameters
+    );
+    private theme: DashboardTheme = {
+        themeArn: this.contentOptions.themeOptions?.themeArn,
+        themeOverride: this.contentOptions.themeOptions?.themeOverride,
+    };
 
     constructor(
         frameOptions: FrameOptions,
@@ -60,210 +75,450 @@ export class DashboardExperience extends BaseExperience<
             this.transformDashboardContentOptions(contentOptions),
             internalExperience,
             experienceIdentifier,
-            this.interceptMessage
+            this.interceptMessage,
+            this.validateSessionUrl
         );
     }
 
-    initiatePrint = async (): Promise<ResponseMessage> => {
-        return this.send(new EmbeddingMessageEvent(MessageEventName.INITIATE_PRINT));
+    initiatePrint = async (commandOptions?: CommandOptions): Promise<ResponseMessage> => {
+        return this.sendCommand(new EmbeddingMessageEvent(MessageEventName.INITIATE_PRINT), commandOptions);
     };
 
-    undo = async (): Promise<ResponseMessage> => {
-        return this.send(new EmbeddingMessageEvent(MessageEventName.UNDO));
+    undo = async (commandOptions?: CommandOptions): Promise<ResponseMessage> => {
+        return this.sendCommand(new EmbeddingMessageEvent(MessageEventName.UNDO), commandOptions);
     };
 
-    redo = async (): Promise<ResponseMessage> => {
-        return this.send(new EmbeddingMessageEvent(MessageEventName.REDO));
+    redo = async (commandOptions?: CommandOptions): Promise<ResponseMessage> => {
+        return this.sendCommand(new EmbeddingMessageEvent(MessageEventName.REDO), commandOptions);
     };
 
-    toggleBookmarksPane = async (): Promise<ResponseMessage> => {
-        return this.send(new EmbeddingMessageEvent(MessageEventName.TOGGLE_BOOKMARKS_PANE));
+    toggleBookmarksPane = async (commandOptions?: CommandOptions): Promise<ResponseMessage> => {
+        return this.sendCommand(new EmbeddingMessageEvent(MessageEventName.TOGGLE_BOOKMARKS_PANE), commandOptions);
     };
 
-    getParameters = async (): Promise<Parameter[]> => {
-        const response = await this.send<Parameter[]>(new EmbeddingMessageEvent(MessageEventName.GET_PARAMETERS));
+    getParameters = async (commandOptions?: CommandOptions): Promise<Parameter[]> => {
+        const response = await this.sendCommand<Parameter[]>(
+            new EmbeddingMessageEvent(MessageEventName.GET_PARAMETERS),
+            commandOptions
+        );
 
         if (!Array.isArray(response?.message)) {
-            throw new Error('Failed to retrieve the parameters');
+            throw new CommandRejectedError(
+                MessageEventName.GET_PARAMETERS,
+                'Failed to retrieve the parameters',
+                response
+            );
         }
 
         return response.message;
     };
 
-    getSheets = async (): Promise<Sheet[]> => {
-        const response = await this.send<Sheet[]>(new EmbeddingMessageEvent(MessageEventName.GET_SHEETS));
+    getSheets = async (commandOptions?: CommandOptions): Promise<Sheet[]> => {
+        const response = await this.sendCommand<Sheet[]>(
+            new EmbeddingMessageEvent(MessageEventName.GET_SHEETS),
+            commandOptions
+        );
 
         if (!Array.isArray(response?.message)) {
-            throw new Error('Failed to retrieve the sheets');
+            throw new CommandRejectedError(MessageEventName.GET_SHEETS, 'Failed to retrieve the sheets', response);
         }
 
         return response.message;
     };
 
-    addFilterGroups = async (filterGroups: FilterGroup[]): Promise<ResponseMessage> => {
-        return this.send(new EmbeddingMessageEvent(MessageEventName.ADD_FILTER_GROUPS, filterGroups));
+    addFilterGroups = async (
+        filterGroups: FilterGroup[],
+        commandOptions?: CommandOptions
+    ): Promise<ResponseMessage> => {
+        return this.sendCommand(
+            new EmbeddingMessageEvent(MessageEventName.ADD_FILTER_GROUPS, filterGroups),
+            commandOptions
+        );
     };
 
-    updateFilterGroups = async (filterGroups: FilterGroup[]): Promise<ResponseMessage> => {
-        return this.send(new EmbeddingMessageEvent(MessageEventName.UPDATE_FILTER_GROUPS, filterGroups));
+    updateFilterGroups = async (
+        filterGroups: FilterGroup[],
+        commandOptions?: CommandOptions
+    ): Promise<ResponseMessage> => {
+        return this.sendCommand(
+            new EmbeddingMessageEvent(MessageEventName.UPDATE_FILTER_GROUPS, filterGroups),
+            commandOptions
+        );
     };
 
-    removeFilterGroups = async (filterGroups: FilterGroup[] | string[]): Promise<ResponseMessage> => {
-        return this.send(new EmbeddingMessageEvent(MessageEventName.REMOVE_FILTER_GROUPS, filterGroups));
+    removeFilterGroups = async (
+        filterGroups: FilterGroup[] | string[],
+        commandOptions?: CommandOptions
+    ): Promise<ResponseMessage> => {
+        return this.sendCommand(
+            new EmbeddingMessageEvent(MessageEventName.REMOVE_FILTER_GROUPS, filterGroups),
+            commandOptions
+        );
     };
 
-    getFilterGroupsForSheet = async (sheetId: string): Promise<FilterGroup[]> => {
-        const response = await this.send<FilterGroup[]>(
+    getFilterGroupsForSheet = async (sheetId: string, commandOptions?: CommandOptions): Promise<FilterGroup[]> => {
+        const response = await this.sendCommand<FilterGroup[]>(
             new EmbeddingMessageEvent(MessageEventName.GET_FILTER_GROUPS_FOR_SHEET, {
                 SheetId: sheetId,
-            })
+            }),
+            commandOptions
         );
 
         if (!Array.isArray(response?.message)) {
-            throw new Error('Failed to retrieve filter groups for the sheet');
+            throw new CommandRejectedError(
+                MessageEventName.GET_FILTER_GROUPS_FOR_SHEET,
+                'Failed to retrieve filter groups for the sheet',
+                response
+            );
         }
 
         return response.message;
     };
 
-    getFilterGroupsForVisual = async (sheetId: string, visualId: string): Promise<FilterGroup[]> => {
-        const response = await this.send<FilterGroup[]>(
+    getFilterGroupsForVisual = async (
+        sheetId: string,
+        visualId: string,
+        commandOptions?: CommandOptions
+    ): Promise<FilterGroup[]> => {
+        const response = await this.sendCommand<FilterGroup[]>(
             new EmbeddingMessageEvent(MessageEventName.GET_FILTER_GROUPS_FOR_VISUAL, {
                 SheetId: sheetId,
                 VisualId: visualId,
-            })
+            }),
+            commandOptions
         );
 
         if (!Array.isArray(response?.message)) {
-            throw new Error('Failed to retrieve filter groups for the visual');
+            throw new CommandRejectedError(
+                MessageEventName.GET_FILTER_GROUPS_FOR_VISUAL,
+                'Failed to retrieve filter groups for the visual',
+                response
+            );
         }
 
         return response.message;
     };
 
-    getVisualActions = async (sheetId: string, visualId: string): Promise<VisualAction[]> => {
-        const response = await this.send<VisualAction[]>(
+    getVisualActions = async (
+        sheetId: string,
+        visualId: string,
+        commandOptions?: CommandOptions
+    ): Promise<VisualAction[]> => {
+        const response = await this.sendCommand<VisualAction[]>(
             new EmbeddingMessageEvent(MessageEventName.GET_VISUAL_ACTIONS, {
                 SheetId: sheetId,
                 VisualId: visualId,
-            })
+            }),
+            commandOptions
         );
 
         if (!Array.isArray(response?.message)) {
-            throw new Error('Failed to retrieve the visual actions');
+            throw new CommandRejectedError(
+                MessageEventName.GET_VISUAL_ACTIONS,
+                'Failed to retrieve the visual actions',
+                response
+            );
         }
 
         return response.message;
     };
 
-    addVisualActions = async (sheetId: string, visualId: string, actions: VisualAction[]): Promise<ResponseMessage> => {
-        return this.send(
+    addVisualActions = async (
+        sheetId: string,
+        visualId: string,
+        actions: VisualAction[],
+        commandOptions?: CommandOptions
+    ): Promise<ResponseMessage> => {
+        return this.sendCommand(
             new EmbeddingMessageEvent(MessageEventName.ADD_VISUAL_ACTIONS, {
                 SheetId: sheetId,
                 VisualId: visualId,
                 Actions: actions,
-            })
+            }),
+            commandOptions
         );
     };
 
-    setVisualActions = async (sheetId: string, visualId: string, actions: VisualAction[]): Promise<ResponseMessage> => {
-        return this.send(
+    setVisualActions = async (
+        sheetId: string,
+        visualId: string,
+        actions: VisualAction[],
+        commandOptions?: CommandOptions
+    ): Promise<ResponseMessage> => {
+        return this.sendCommand(
             new EmbeddingMessageEvent(MessageEventName.SET_VISUAL_ACTIONS, {
                 SheetId: sheetId,
                 VisualId: visualId,
                 Actions: actions,
-            })
+            }),
+            commandOptions
         );
     };
 
-    getSelectedSheetId = async (): Promise<string> => {
-        const response = await this.send<string>(new EmbeddingMessageEvent(MessageEventName.GET_SELECTED_SHEET_ID));
+    getSelectedSheetId = async (commandOptions?: CommandOptions): Promise<string> => {
+        const response = await this.sendCommand<string>(
+            new EmbeddingMessageEvent(MessageEventName.GET_SELECTED_SHEET_ID),
+            commandOptions
+        );
 
         if (!response?.message) {
-            throw new Error('Failed to retrieve the selected sheet id');
+            throw new CommandRejectedError(
+                MessageEventName.GET_SELECTED_SHEET_ID,
+                'Failed to retrieve the selected sheet id',
+                response
+            );
         }
 
         return response.message;
     };
 
-    setSelectedSheetId = async (sheetId: string): Promise<ResponseMessage> => {
-        return this.send(
+    setSelectedSheetId = async (sheetId: string, commandOptions?: CommandOptions): Promise<ResponseMessage> => {
+        return this.sendCommand(
             new EmbeddingMessageEvent(MessageEventName.SET_SELECTED_SHEET_ID, {
                 SheetId: sheetId,
-            })
+            }),
+            commandOptions
         );
     };
 
-    setTheme = async (themeArn: string): Promise<ResponseMessage> => {
-        return this.send(
+    setTheme = async (themeArn: string, commandOptions?: CommandOptions): Promise<ResponseMessage> => {
+        const response = await this.sendCommand(
             new EmbeddingMessageEvent(MessageEventName.SET_THEME, {
                 ThemeArn: themeArn,
-            })
+            }),
+            commandOptions
         );
+
+        if (response?.success !== false) {
+            this.theme = {...this.theme, themeArn};
+        }
+
+        return response;
     };
 
     navigateToDashboard = async (
         dashboardId: string,
-        navigateToDashboardOptions?: NavigateToDashboardOptions
+        navigateToDashboardOptions?: NavigateToDashboardOptions,
+        commandOptions?: CommandOptions
     ): Promise<ResponseMessage> => {
-        return this.send(
+        return this.sendCommand(
             new EmbeddingMessageEvent(MessageEventName.NAVIGATE_TO_DASHBOARD, {
                 DashboardId: dashboardId,
                 Parameters: navigateToDashboardOptions?.parameters,
-            })
+            }),
+            commandOptions
         );
     };
 
     removeVisualActions = async (
         sheetId: string,
         visualId: string,
-        actions: VisualAction[]
+        actions: VisualAction[],
+        commandOptions?: CommandOptions
     ): Promise<ResponseMessage> => {
-        return this.send(
+        return this.sendCommand(
             new EmbeddingMessageEvent(MessageEventName.REMOVE_VISUAL_ACTIONS, {
                 SheetId: sheetId,
                 VisualId: visualId,
                 Actions: actions,
-            })
+            }),
+            commandOptions
         );
     };
 
-    getSheetVisuals = async (sheetId: string): Promise<Visual[]> => {
-        const response = await this.send<Visual[]>(
+    getSheetVisuals = async (sheetId: string, commandOptions?: CommandOptions): Promise<Visual[]> => {
+        const response = await this.sendCommand<Visual[]>(
             new EmbeddingMessageEvent(MessageEventName.GET_SHEET_VISUALS, {
                 SheetId: sheetId,
-            })
+            }),
+            commandOptions
         );
 
         if (!Array.isArray(response?.message)) {
-            throw new Error('Failed to retrieve the sheet visuals');
+            throw new CommandRejectedError(
+                MessageEventName.GET_SHEET_VISUALS,
+                'Failed to retrieve the sheet visuals',
+                response
+            );
         }
 
         return response.message;
     };
 
-    setParameters = async (parameters: Parameter[]): Promise<ResponseMessage> => {
-        return this.send(new EmbeddingMessageEvent(MessageEventName.SET_PARAMETERS, parameters));
+    /**
+     * Sets the parameters whose values change, calls made while a previous call is in flight are sent as one command
+     */
+    setParameters = async (parameters: Parameter[], commandOptions?: CommandOptions): Promise<ResponseMessage> => {
+        return this.parameterMirror.set(parameters, commandOptions);
+    };
+
+    /**
+     * The parameters as last reported by the dashboard or set through the SDK, without a round trip to the dashboard
+     */
+    getParameterSnapshot = (): Parameter[] => {
+        return this.parameterMirror.getSnapshot();
     };
 
-    reset = async (): Promise<ResponseMessage> => {
-        return this.send(new EmbeddingMessageEvent(MessageEventName.RESET));
+    reset = async (commandOptions?: CommandOptions): Promise<ResponseMessage> => {
+        return this.sendCommand(new EmbeddingMessageEvent(MessageEventName.RESET), commandOptions);
     };
 
-    setThemeOverride = async (themeOverride: ThemeConfiguration): Promise<ResponseMessage> => {
-        return this.send(
+    setThemeOverride = async (
+        themeOverride: ThemeConfiguration,
+        commandOptions?: CommandOptions
+    ): Promise<ResponseMessage> => {
+        const response = await this.sendCommand(
             new EmbeddingMessageEvent(MessageEventName.SET_THEME_OVERRIDE, {
                 ThemeOverride: themeOverride,
-            })
+            }),
+            commandOptions
         );
+
+        if (response?.success !== false) {
+            this.theme = {...this.theme, themeOverride};
+        }
+
+        return response;
     };
 
-    setPreloadThemes = async (preloadThemes: string[]): Promise<ResponseMessage> => {
-        return this.send(
+    setPreloadThemes = async (preloadThemes: string[], commandOptions?: CommandOptions): Promise<ResponseMessage> => {
+        return this.sendCommand(
             new EmbeddingMessageEvent(MessageEventName.PRELOAD_THEMES, {
                 PreloadThemes: preloadThemes,
+            }),
+            commandOptions
+        );
+    };
+
+    /**
+     * Captures the selected sheet, the parameters, the filter groups of every sheet, the actions of every visual
+     * and the theme of the dashboard as a serializable snapshot, e.g. to persist a view and restore it later
+     */
+    getState = async (commandOptions?: CommandOptions): Promise<DashboardState> => {
+        const [sheetId, parameters, sheets] = await Promise.all([
+            this.getSelectedSheetId(commandOptions),
+            this.getParameters(commandOptions),
+            this.getSheets(commandOptions),
+        ]);
+
+        const sheetStates = await Promise.all(
+            sheets.map(async ({SheetId}) => {
+                const [filterGroups, visuals] = await Promise.all([
+                    this.getFilterGroupsForSheet(SheetId, commandOptions),
+                    this.getSheetVisuals(SheetId, commandOptions),
+                ]);
+                const visualActions = await Promise.all(
+                    visuals.map(
+                        async ({VisualId}): Promise<VisualActionsState> => ({
+                            sheetId: SheetId,
+                            visualId: VisualId,
+                            actions: await this.getVisualActions(SheetId, VisualId, commandOptions),
+                        })
+                    )
+                );
+
+                return {sheetId: SheetId, filterGroups, visualActions};
             })
         );
+
+        return {
+            sheetId,
+            parameters,
+            filterGroups: sheetStates.reduce(
+                (filterGroupsBySheet, sheetState) => ({
+                    ...filterGroupsBySheet,
+                    [sheetState.sheetId]: sheetState.filterGroups,
+                }),
+                {}
+            ),
+            visualActions: sheetStates.reduce<VisualActionsState[]>(
+                (visualActions, sheetState) => [...visualActions, ...sheetState.visualActions],
+                []
+            ),
+            theme: {...this.theme},
+        };
+    };
+
+    /**
+     * Replays a snapshot captured by getState. The theme is applied first, then the parameters the filters may depend on,
+     * the filter groups and the visual actions, and the sheet is selected last.
+     * Rejects with a CommandRejectedError at the first step the dashboard does not accept
+     */
+    applyState = async (state: DashboardState, commandOptions?: CommandOptions): Promise<void> => {
+        const {sheetId, parameters, filterGroups, visualActions, theme} = state;
+
+        if (theme.themeArn) {
+            this.assertAccepted(MessageEventName.SET_THEME, await this.setTheme(theme.themeArn, commandOptions));
+        }
+
+        if (theme.themeOverride) {
+            this.assertAccepted(
+                MessageEventName.SET_THEME_OVERRIDE,
+                await this.setThemeOverride(theme.themeOverride, commandOptions)
+            );
+        }
+
+        if (parameters.length > 0) {
+            this.assertAccepted(MessageEventName.SET_PARAMETERS, await this.setParameters(parameters, commandOptions));
+        }
+
+        await this.applyFilterGroups(filterGroups, commandOptions);
+
+        const visualActionResponses = await Promise.all(
+            visualActions.map(({sheetId: actionSheetId, visualId, actions}) =>
+                this.setVisualActions(actionSheetId, visualId, actions, commandOptions)
+            )
+        );
+        visualActionResponses.forEach(response => this.assertAccepted(MessageEventName.SET_VISUAL_ACTIONS, response));
+
+        this.assertAccepted(
+            MessageEventName.SET_SELECTED_SHEET_ID,
+            await this.setSelectedSheetId(sheetId, commandOptions)
+        );
+    };
+
+    /**
+     * Keeps the selected sheet and the parameters in the page url, so that it can be shared as a deep link.
+     * The sync stops when it is stopped or when the experience frame is removed
+     */
+    syncWithUrl = (urlSyncOptions?: UrlSyncOptions): DashboardUrlSync => {
+        const {eventManager} = this.controlOptions;
+
+        return new DashboardUrlSync(this, urlSyncOptions, this.logger, {
+            add: callback => eventManager.addEventListenerForCleanup(this.experienceId, callback),
+            remove: callback => eventManager.removeEventListenerForCleanup(this.experienceId, callback),
+        }).start();
+    };
+
+    protected captureSessionState = async (): Promise<SessionState> => {
+        // An experience that never initialized would only queue the getters, what it shows comes from the content options
+        if (!this.experienceFrame.isExperienceReady()) {
+            const parameters = this.parameterMirror.getSnapshot();
+            return {parameters: parameters.length ? parameters : undefined};
+        }
+
+        const commandOptions = {timeoutMs: this.SESSION_STATE_TIMEOUT_MS};
+        const [sheetId, parameters] = await Promise.all([
+            this.getSelectedSheetId(commandOptions).catch(() => undefined),
+            // The parameters mirrored locally are kept when the expired frame does not answer
+            this.getParameters(commandOptions).catch(() => this.parameterMirror.getSnapshot()),
+        ]);
+        const filterGroups = sheetId
+            ? await this.getFilterGroupsForSheet(sheetId, commandOptions).catch(() => undefined)
+            : undefined;
+
+        return {sheetId, parameters, filterGroups};
+    };
+
+    protected getSessionContentOptions = ({sheetId, parameters}: SessionState) => {
+        return this.transformDashboardContentOptions({
+            ...this.contentOptions,
+            parameters: parameters ?? this.contentOptions.parameters,
+            sheetOptions: {
+                ...this.contentOptions.sheetOptions,
+                initialSheetId: sheetId ?? this.contentOptions.sheetOptions?.initialSheetId,
+            },
+        });
     };
 
     protected extractExperienceFromUrl = (url: string): IDashboardExperience => {
@@ -282,7 +537,7 @@ export class DashboardExperience extends BaseExperience<
                 {frame: null}
             );
 
-            throw new Error('Invalid dashboard experience URL');
+            throw new InvalidUrlError('Invalid dashboard experience URL');
         }
 
         return {
@@ -291,17 +546,93 @@ export class DashboardExperience extends BaseExperience<
         };
     };
 
+    // Filter groups of the dashboard are updated, the ones that were added to it in the captured session are added again
+    private applyFilterGroups = async (
+        filterGroupsBySheet: DashboardState['filterGroups'],
+        commandOptions?: CommandOptions
+    ) => {
+        const sheetIds = Object.keys(filterGroupsBySheet);
+        const currentFilterGroups = await Promise.all(
+            sheetIds.map(sheetId => this.getFilterGroupsForSheet(sheetId, commandOptions))
+        );
+        const currentFilterGroupIds = currentFilterGroups.reduce<Array<FilterGroup['FilterGroupId']>>(
+            (filterGroupIds, filterGroups) => [
+                ...filterGroupIds,
+                ...filterGroups.map(({FilterGroupId}) => FilterGroupId),
+            ],
+            []
+        );
+
+        // Filter groups scoped to several sheets are captured once for each of them
+        const filterGroups = sheetIds
+            .reduce<FilterGroup[]>(
+                (allFilterGroups, sheetId) => [...allFilterGroups, ...filterGroupsBySheet[sheetId]],
+                []
+            )
+            .filter(
+                (filterGroup, index, allFilterGroups) =>
+                    allFilterGroups.findIndex(({FilterGroupId}) => FilterGroupId === filterGroup.FilterGroupId) ===
+                    index
+            );
+        const filterGroupsToUpdate = filterGroups.filter(({FilterGroupId}) =>
+            currentFilterGroupIds.includes(FilterGroupId)
+        );
+        const filterGroupsToAdd = filterGroups.filter(
+            ({FilterGroupId}) => !currentFilterGroupIds.includes(FilterGroupId)
+        );
+
+        if (filterGroupsToUpdate.length > 0) {
+            this.assertAccepted(
+                MessageEventName.UPDATE_FILTER_GROUPS,
+                await this.updateFilterGroups(filterGroupsToUpdate, commandOptions)
+            );
+        }
+
+        if (filterGroupsToAdd.length > 0) {
+            this.assertAccepted(
+                MessageEventName.ADD_FILTER_GROUPS,
+                await this.addFilterGroups(filterGroupsToAdd, commandOptions)
+            );
+        }
+    };
+
+    private assertAccepted = (eventName: MessageEventName, response: ResponseMessage) => {
+        if (response?.success === false) {
+            throw new CommandRejectedError(
+                eventName,
+                `${eventName} was rejected while applying the dashboard state`,
+                response
+            );
+        }
+    };
+
     private interceptMessage = (messageEvent: EmbeddingEvents, metadata?: ExperienceFrameMetadata) => {
         // Intercepting onMessage
+        // the parameter changes are added to PARAMETERS_CHANGED before it reaches the listeners of the experience
+        if (messageEvent.eventName === MessageEventName.PARAMETERS_CHANGED && messageEvent.message) {
+            messageEvent.message.parameterChanges = this.parameterMirror.applyChanges(
+                messageEvent.message.changedParameters
+            );
+        }
         // if the resizeHeightOnSizeChangedEvent is true, upon receiving SIZE_CHANGED message, update the height of the iframe
-        if (messageEvent.eventName === 'SIZE_CHANGED' && this.frameOptions.resizeHeightOnSizeChangedEvent) {
-            metadata?.frame?.setAttribute?.('height', `${messageEvent?.message?.height}px`);
+        if (
+            messageEvent.eventName === 'SIZE_CHANGED' &&
+            this.frameOptions.resizeHeightOnSizeChangedEvent &&
+            messageEvent.message?.height !== undefined &&
+            messageEvent.message.height !== null
+        ) {
+            metadata?.frame?.setAttribute?.('height', `${messageEvent.message.height}px`);
         }
+        // The theme options are applied in the background, nobody awaits them so their failures are logged
         if (messageEvent.eventName === 'EXPERIENCE_INITIALIZED' && this.contentOptions?.themeOptions?.themeOverride) {
-            this.setThemeOverride(this.contentOptions.themeOptions.themeOverride);
+            this.setThemeOverride(this.contentOptions.themeOptions.themeOverride).catch(error =>
+                this.logger?.warn('Failed to apply the theme override of the content options', error)
+            );
         }
         if (messageEvent.eventName === 'EXPERIENCE_INITIALIZED' && this.contentOptions?.themeOptions?.preloadThemes) {
-            this.setPreloadThemes(this.contentOptions.themeOptions.preloadThemes);
+            this.setPreloadThemes(this.contentOptions.themeOptions.preloadThemes).catch(error =>
+                this.logger?.warn('Failed to preload the themes of the content options', error)
+            );
         }
     };
 
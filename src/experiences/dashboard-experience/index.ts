@@ -3,4 +3,5 @@
 
 export * from './types';
 export * from './dashboard-experience';
+export * from './url-sync';
 export * from './frame/dashboard-experience-frame';
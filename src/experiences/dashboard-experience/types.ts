@@ -10,6 +10,7 @@ import type {
     VisualCustomActionOperation,
     VisualCustomAction,
     ThemeConfiguration,
+    FilterGroup,
 } from '@aws-sdk/client-quicksight';
 
 export interface IDashboardExperience extends IBaseExperience {
@@ -181,3 +182,36 @@ export type ActionOperation = {
 export interface VisualAction extends VisualCustomAction {
     ActionOperations: ActionOperation[];
 }
+
+export type UrlSyncOptions = {
+    // Part of the page url the state is kept in, default 'query'
+    mode?: 'query' | 'hash';
+    // Prefix of the url keys owned by the sync, e.g. 'qs.sheet' and 'qs.p.State', default 'qs.'
+    prefix?: string;
+    // Whether every change adds a browser history entry, default 'replace'
+    history?: 'replace' | 'push';
+};
+
+export type DashboardTheme = {
+    themeArn?: string;
+    themeOverride?: ThemeConfiguration;
+};
+
+export type VisualActionsState = {
+    sheetId: string;
+    visualId: string;
+    actions: VisualAction[];
+};
+
+/**
+ * Serializable snapshot of what the user is looking at in a dashboard, captured by getState and replayed by applyState
+ */
+export type DashboardState = {
+    sheetId: string;
+    parameters: Parameter[];
+    // Filter groups of each sheet, keyed by the sheet id
+    filterGroups: Record<string, FilterGroup[]>;
+    visualActions: VisualActionsState[];
+    // Theme applied through the content options, setTheme and setThemeOverride, QuickSight can not be asked for it
+    theme: DashboardTheme;
+};
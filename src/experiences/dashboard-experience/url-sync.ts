@@ -0,0 +1,178 @@
+// Copyright 2023 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+
+import type {DashboardExperience} from './dashboard-experience';
+import {UrlSyncOptions} from './types';
+import {LogProvider, Parameter, ParameterValue} from '../../common';
+import {EventSubscription} from '@common/event-manager/types';
+import {EmbeddingEventOf, MessageEventName} from '@common/events/types';
+
+/**
+ * Runs the callbacks registered with it when the experience is unmounted
+ */
+export type CleanUpRegistry = {
+    add: (callback: () => void) => void;
+    remove: (callback: () => void) => void;
+};
+
+/**
+ * Keeps the selected sheet and the parameters of a dashboard in the query string, or the hash, of the page url.
+ * Changes made in the dashboard are written to the url, and the url is applied to the dashboard when the sync starts
+ * and when the user navigates through the browser history
+ */
+export class DashboardUrlSync {
+    private readonly dashboard: DashboardExperience;
+    private readonly mode: NonNullable<UrlSyncOptions['mode']>;
+    private readonly prefix: string;
+    private readonly history: NonNullable<UrlSyncOptions['history']>;
+    private readonly logger?: LogProvider;
+    private readonly cleanUp?: CleanUpRegistry;
+    private parameters: Record<string, ParameterValue[]> = {};
+    private sheetId?: string;
+    private subscription?: EventSubscription;
+
+    constructor(
+        dashboard: DashboardExperience,
+        options: UrlSyncOptions = {},
+        logger?: LogProvider,
+        cleanUp?: CleanUpRegistry
+    ) {
+        this.dashboard = dashboard;
+        this.mode = options.mode ?? 'query';
+        this.prefix = options.prefix ?? 'qs.';
+        this.history = options.history ?? 'replace';
+        this.logger = logger;
+        this.cleanUp = cleanUp;
+    }
+
+    public start = () => {
+        if (!this.subscription) {
+            this.subscription = this.dashboard.addEventListener(
+                [MessageEventName.PARAMETERS_CHANGED, MessageEventName.SELECTED_SHEET_CHANGED],
+                this.onDashboardChange
+            );
+            window.addEventListener('popstate', this.applyUrl);
+            this.cleanUp?.add(this.stop);
+            this.applyUrl();
+        }
+
+        return this;
+    };
+
+    public stop = () => {
+        this.subscription?.remove();
+        this.subscription = undefined;
+        window.removeEventListener('popstate', this.applyUrl);
+        this.cleanUp?.remove(this.stop);
+    };
+
+    private onDashboardChange = (
+        event: EmbeddingEventOf<
+            typeof MessageEventName.PARAMETERS_CHANGED | typeof MessageEventName.SELECTED_SHEET_CHANGED
+        >
+    ) => {
+        if (event.eventName === MessageEventName.PARAMETERS_CHANGED) {
+            event.message.changedParameters.forEach(({Name, Values}) => (this.parameters[Name] = Values));
+        } else {
+            this.sheetId = event.message.selectedSheet.SheetId;
+        }
+
+        this.writeUrl();
+    };
+
+    // Parameters missing from the url keep their value, the dashboard can not be asked for their defaults
+    private applyUrl = () => {
+        const {sheetId, parameters} = this.readUrl();
+
+        if (parameters.length > 0) {
+            parameters.forEach(({Name, Values}) => (this.parameters[Name] = Values));
+            this.dashboard.setParameters(parameters).catch(error => {
+                this.logger?.warn('Failed to apply the parameters of the page url', error);
+            });
+        }
+
+        if (sheetId && sheetId !== this.sheetId) {
+            this.sheetId = sheetId;
+            this.dashboard.setSelectedSheetId(sheetId).catch(error => {
+                this.logger?.warn('Failed to apply the sheet of the page url', error);
+            });
+        }
+    };
+
+    // The values are read as strings, whatever the type of the parameter
+    private readUrl = () => {
+        const searchParams = this.getSearchParams(new URL(window.location.href));
+        const parameterPrefix = `${this.prefix}p.`;
+        const parameters: Parameter[] = [];
+
+        searchParams.forEach((value, key) => {
+            if (!key.startsWith(parameterPrefix)) {
+                return;
+            }
+
+            const name = key.slice(parameterPrefix.length);
+            const parameter = parameters.find(({Name}) => Name === name);
+
+            if (parameter) {
+                parameter.Values.push(value);
+            } else {
+                parameters.push({Name: name, Values: [value]});
+            }
+        });
+
+        return {sheetId: searchParams.get(`${this.prefix}sheet`) ?? undefined, parameters};
+    };
+
+    // Only the keys starting with the prefix are owned by the sync, other keys and the route of the hash are kept
+    private writeUrl = () => {
+        const url = new URL(window.location.href);
+        const searchParams = this.getSearchParams(url);
+
+        Array.from(searchParams.keys())
+            .filter(key => key.startsWith(this.prefix))
+            .forEach(key => searchParams.delete(key));
+
+        if (this.sheetId) {
+            searchParams.set(`${this.prefix}sheet`, this.sheetId);
+        }
+
+        Object.entries(this.parameters).forEach(([name, values]) =>
+            values.forEach(value => searchParams.append(`${this.prefix}p.${name}`, `${value}`))
+        );
+
+        if (this.mode === 'hash') {
+            const {route} = this.splitHash(url);
+            const query = searchParams.toString();
+            url.hash = route && query ? `${route}?${query}` : route || query;
+        } else {
+            url.search = searchParams.toString();
+        }
+
+        // Changes applied from the url are echoed by the dashboard, they must not add history entries
+        if (url.href === window.location.href) {
+            return;
+        }
+
+        if (this.history === 'push') {
+            window.history.pushState(window.history.state, '', url.href);
+        } else {
+            window.history.replaceState(window.history.state, '', url.href);
+        }
+    };
+
+    private getSearchParams = (url: URL) => {
+        return new URLSearchParams(this.mode === 'hash' ? this.splitHash(url).query : url.search);
+    };
+
+    // The keys follow the `?` of a hash route, e.g. `#/reports/42?qs.sheet=sheet2`, a hash without keys is a route
+    private splitHash = (url: URL) => {
+        const hash = url.hash.slice(1);
+        const queryIndex = hash.indexOf('?');
+
+        if (queryIndex >= 0) {
+            return {route: hash.slice(0, queryIndex), query: hash.slice(queryIndex + 1)};
+        }
+
+        return hash.includes('=') ? {route: '', query: hash} : {route: hash, query: ''};
+    };
+}
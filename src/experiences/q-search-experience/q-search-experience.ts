@@ -1,7 +1,7 @@
 // Copyright 2023 Amazon.com, Inc. or its affiliates. All Rights Reserved.
 // SPDX-License-Identifier: Apache-2.0
 
-import {ExperienceType, FrameOptions} from '../base-experience';
+import {CommandOptions, ExperienceType, FrameOptions} from '../base-experience';
 import {
     FrameStyles,
     InternalQSearchExperience,
@@ -15,6 +15,7 @@ import {BaseExperience} from '@experience/base-experience/base-experience';
 import {ChangeEvent, EmbeddingMessageEvent, ResponseMessage} from '@common/events/events';
 import {ChangeEventLevel, ChangeEventName, EmbeddingEvents, MessageEventName} from '@common/events/types';
 import {ExperienceFrameMetadata} from '@common/embedding-context/types';
+import {InvalidUrlError} from '@common/errors/errors';
 
 export class QSearchExperience extends BaseExperience<
     QSearchContentOptions,
@@ -55,19 +56,21 @@ export class QSearchExperience extends BaseExperience<
             this.transformQSearchContentOptions(contentOptions),
             internalExperience,
             experienceIdentifier,
-            this.interceptMessage
+            this.interceptMessage,
+            this.validateSessionUrl
         );
     }
 
-    close = (): Promise<ResponseMessage> => {
-        return this.send(new EmbeddingMessageEvent(MessageEventName.CLOSE_Q_SEARCH));
+    close = (commandOptions?: CommandOptions): Promise<ResponseMessage> => {
+        return this.sendCommand(new EmbeddingMessageEvent(MessageEventName.CLOSE_Q_SEARCH), commandOptions);
     };
 
-    setQuestion = async (question: string): Promise<ResponseMessage> => {
-        return this.send(
+    setQuestion = async (question: string, commandOptions?: CommandOptions): Promise<ResponseMessage> => {
+        return this.sendCommand(
             new EmbeddingMessageEvent(MessageEventName.SET_Q_SEARCH_QUESTION, {
                 question,
-            })
+            }),
+            commandOptions
         );
     };
 
@@ -85,7 +88,7 @@ export class QSearchExperience extends BaseExperience<
                 {frame: this.experienceFrame.iframe}
             );
 
-            throw new Error('Invalid q-search experience URL');
+            throw new InvalidUrlError('Invalid q-search experience URL');
         }
 
         return {
@@ -97,8 +100,9 @@ export class QSearchExperience extends BaseExperience<
         switch (messageEvent.eventName) {
             case MessageEventName.Q_SEARCH_OPENED:
             case MessageEventName.Q_SEARCH_CLOSED: {
-                if (typeof messageEvent.message === 'object') {
-                    metadata?.frame?.style.setProperty('height', `${messageEvent?.message?.height}px`);
+                // The height is numeric when it is set, malformed messages are quarantined before they are dispatched
+                if (messageEvent.message?.height !== undefined && messageEvent.message.height !== null) {
+                    metadata?.frame?.style.setProperty('height', `${messageEvent.message.height}px`);
                 }
                 break;
             }
@@ -1,7 +1,14 @@
 // Copyright 2023 Amazon.com, Inc. or its affiliates. All Rights Reserved.
 // SPDX-License-Identifier: Apache-2.0
 
-import {FrameOptions, TransformedContentOptions, ExperienceType} from '../base-experience';
+import {
+    CommandOptions,
+    FrameOptions,
+    TransformedContentOptions,
+    ExperienceType,
+    ParameterMirror,
+    SessionState,
+} from '../base-experience';
 import {
     InternalVisualExperience,
     TransformedVisualContentOptions,
@@ -17,6 +24,7 @@ import {ChangeEvent, EmbeddingMessageEvent, ResponseMessage} from '@common/event
 import {ChangeEventLevel, ChangeEventName, EmbeddingEvents, MessageEventName} from '@common/events/types';
 import {ExperienceFrameMetadata} from '@common/embedding-context/types';
 import type {FilterGroup, ThemeConfiguration} from '@aws-sdk/client-quicksight';
+import {CommandRejectedError, InvalidUrlError} from '@common/errors/errors';
 
 export class VisualExperience extends BaseExperience<
     VisualContentOptions,
@@ -29,6 +37,11 @@ export class VisualExperience extends BaseExperience<
     protected internalExperience: InternalVisualExperience;
     protected experienceFrame: VisualExperienceFrame;
     protected experienceId: string;
+    private readonly parameterMirror = new ParameterMirror(
+        (parameters, commandOptions) =>
+            this.sendCommand(new EmbeddingMessageEvent(MessageEventName.SET_PARAMETERS, parameters), commandOptions),
+        this.contentOptions.parameters
+    );
 
     constructor(
         frameOptions: FrameOptions,
@@ -55,98 +68,160 @@ export class VisualExperience extends BaseExperience<
             this.transformVisualContentOptions(contentOptions),
             internalExperience,
             experienceIdentifier,
-            this.interceptMessage
+            this.interceptMessage,
+            this.validateSessionUrl
         );
     }
 
-    setParameters = async (parameters: Parameter[]): Promise<ResponseMessage> => {
-        return this.send(new EmbeddingMessageEvent(MessageEventName.SET_PARAMETERS, parameters));
+    /**
+     * Sets the parameters whose values change, calls made while a previous call is in flight are sent as one command
+     */
+    setParameters = async (parameters: Parameter[], commandOptions?: CommandOptions): Promise<ResponseMessage> => {
+        return this.parameterMirror.set(parameters, commandOptions);
     };
 
-    reset = async (): Promise<ResponseMessage> => {
-        return this.send(new EmbeddingMessageEvent(MessageEventName.RESET));
+    /**
+     * The parameters as last reported by the visual or set through the SDK, without a round trip to the visual
+     */
+    getParameterSnapshot = (): Parameter[] => {
+        return this.parameterMirror.getSnapshot();
     };
 
-    addFilterGroups = async (filterGroups: FilterGroup[]): Promise<ResponseMessage> => {
-        return this.send(new EmbeddingMessageEvent(MessageEventName.ADD_FILTER_GROUPS, filterGroups));
+    reset = async (commandOptions?: CommandOptions): Promise<ResponseMessage> => {
+        return this.sendCommand(new EmbeddingMessageEvent(MessageEventName.RESET), commandOptions);
+    };
+
+    addFilterGroups = async (
+        filterGroups: FilterGroup[],
+        commandOptions?: CommandOptions
+    ): Promise<ResponseMessage> => {
+        return this.sendCommand(
+            new EmbeddingMessageEvent(MessageEventName.ADD_FILTER_GROUPS, filterGroups),
+            commandOptions
+        );
     };
 
-    updateFilterGroups = async (filterGroups: FilterGroup[]): Promise<ResponseMessage> => {
-        return this.send(new EmbeddingMessageEvent(MessageEventName.UPDATE_FILTER_GROUPS, filterGroups));
+    updateFilterGroups = async (
+        filterGroups: FilterGroup[],
+        commandOptions?: CommandOptions
+    ): Promise<ResponseMessage> => {
+        return this.sendCommand(
+            new EmbeddingMessageEvent(MessageEventName.UPDATE_FILTER_GROUPS, filterGroups),
+            commandOptions
+        );
     };
 
-    removeFilterGroups = async (filterGroups: FilterGroup[] | string[]): Promise<ResponseMessage> => {
-        return this.send(new EmbeddingMessageEvent(MessageEventName.REMOVE_FILTER_GROUPS, filterGroups));
+    removeFilterGroups = async (
+        filterGroups: FilterGroup[] | string[],
+        commandOptions?: CommandOptions
+    ): Promise<ResponseMessage> => {
+        return this.sendCommand(
+            new EmbeddingMessageEvent(MessageEventName.REMOVE_FILTER_GROUPS, filterGroups),
+            commandOptions
+        );
     };
 
-    getFilterGroups = async (): Promise<FilterGroup[]> => {
-        const response = await this.send<FilterGroup[]>(
-            new EmbeddingMessageEvent(MessageEventName.GET_FILTER_GROUPS_FOR_VISUAL)
+    getFilterGroups = async (commandOptions?: CommandOptions): Promise<FilterGroup[]> => {
+        const response = await this.sendCommand<FilterGroup[]>(
+            new EmbeddingMessageEvent(MessageEventName.GET_FILTER_GROUPS_FOR_VISUAL),
+            commandOptions
         );
 
         if (!Array.isArray(response?.message)) {
-            throw new Error('Failed to retrieve filter groups for the visual');
+            throw new CommandRejectedError(
+                MessageEventName.GET_FILTER_GROUPS_FOR_VISUAL,
+                'Failed to retrieve filter groups for the visual',
+                response
+            );
         }
 
         return response.message;
     };
 
-    getActions = async (): Promise<VisualAction[]> => {
-        const response = await this.send<VisualAction[]>(
-            new EmbeddingMessageEvent(MessageEventName.GET_VISUAL_ACTIONS)
+    getActions = async (commandOptions?: CommandOptions): Promise<VisualAction[]> => {
+        const response = await this.sendCommand<VisualAction[]>(
+            new EmbeddingMessageEvent(MessageEventName.GET_VISUAL_ACTIONS),
+            commandOptions
         );
 
         if (!Array.isArray(response?.message)) {
-            throw new Error('Failed to retrieve the actions');
+            throw new CommandRejectedError(
+                MessageEventName.GET_VISUAL_ACTIONS,
+                'Failed to retrieve the actions',
+                response
+            );
         }
 
         return response.message;
     };
 
-    addActions = async (actions: VisualAction[]): Promise<ResponseMessage> => {
-        return this.send(
+    addActions = async (actions: VisualAction[], commandOptions?: CommandOptions): Promise<ResponseMessage> => {
+        return this.sendCommand(
             new EmbeddingMessageEvent(MessageEventName.ADD_VISUAL_ACTIONS, {
                 Actions: actions,
-            })
+            }),
+            commandOptions
         );
     };
 
-    setActions = async (actions: VisualAction[]): Promise<ResponseMessage> => {
-        return this.send(
+    setActions = async (actions: VisualAction[], commandOptions?: CommandOptions): Promise<ResponseMessage> => {
+        return this.sendCommand(
             new EmbeddingMessageEvent(MessageEventName.SET_VISUAL_ACTIONS, {
                 Actions: actions,
-            })
+            }),
+            commandOptions
         );
     };
 
-    removeActions = async (actions: VisualAction[]): Promise<ResponseMessage> => {
-        return this.send(
+    removeActions = async (actions: VisualAction[], commandOptions?: CommandOptions): Promise<ResponseMessage> => {
+        return this.sendCommand(
             new EmbeddingMessageEvent(MessageEventName.REMOVE_VISUAL_ACTIONS, {
                 Actions: actions,
-            })
+            }),
+            commandOptions
         );
     };
 
-    setTheme = async (themeArn: string): Promise<ResponseMessage> => {
-        return this.send(new EmbeddingMessageEvent(MessageEventName.SET_THEME, {ThemeArn: themeArn}));
+    setTheme = async (themeArn: string, commandOptions?: CommandOptions): Promise<ResponseMessage> => {
+        return this.sendCommand(
+            new EmbeddingMessageEvent(MessageEventName.SET_THEME, {ThemeArn: themeArn}),
+            commandOptions
+        );
     };
 
-    setThemeOverride = async (themeOverride: ThemeConfiguration): Promise<ResponseMessage> => {
-        return this.send(
+    setThemeOverride = async (
+        themeOverride: ThemeConfiguration,
+        commandOptions?: CommandOptions
+    ): Promise<ResponseMessage> => {
+        return this.sendCommand(
             new EmbeddingMessageEvent(MessageEventName.SET_THEME_OVERRIDE, {
                 ThemeOverride: themeOverride,
-            })
+            }),
+            commandOptions
         );
     };
 
-    setPreloadThemes = async (preloadThemes: string[]): Promise<ResponseMessage> => {
-        return this.send(
+    setPreloadThemes = async (preloadThemes: string[], commandOptions?: CommandOptions): Promise<ResponseMessage> => {
+        return this.sendCommand(
             new EmbeddingMessageEvent(MessageEventName.PRELOAD_THEMES, {
                 PreloadThemes: preloadThemes,
-            })
+            }),
+            commandOptions
         );
     };
 
+    protected captureSessionState = async (): Promise<SessionState> => {
+        if (!this.experienceFrame.isExperienceReady()) {
+            return {};
+        }
+
+        const filterGroups = await this.getFilterGroups({timeoutMs: this.SESSION_STATE_TIMEOUT_MS}).catch(
+            () => undefined
+        );
+
+        return {filterGroups};
+    };
+
     protected extractExperienceFromUrl = (url: string): IVisualExperience => {
         const matches: Array<string> =
             /^https:\/\/[^/]+\/embed\/[^/]+\/dashboards\/([\w-]+)\/sheets\/([\w-]+)\/visuals\/([\w-]+)(\?|$)/i.exec(
@@ -161,7 +236,7 @@ export class VisualExperience extends BaseExperience<
                 {frame: this.experienceFrame.iframe}
             );
 
-            throw new Error('Invalid visual experience URL');
+            throw new InvalidUrlError('Invalid visual experience URL');
         }
 
         return {
@@ -174,15 +249,31 @@ export class VisualExperience extends BaseExperience<
 
     private interceptMessage = (messageEvent: EmbeddingEvents, metadata?: ExperienceFrameMetadata) => {
         // Intercepting onMessage
+        // the parameter changes are added to PARAMETERS_CHANGED before it reaches the listeners of the experience
+        if (messageEvent.eventName === MessageEventName.PARAMETERS_CHANGED && messageEvent.message) {
+            messageEvent.message.parameterChanges = this.parameterMirror.applyChanges(
+                messageEvent.message.changedParameters
+            );
+        }
         // if the resizeHeightOnSizeChangedEvent is true, upon receiving SIZE_CHANGED message, update the height of the iframe
-        if (messageEvent.eventName === 'SIZE_CHANGED' && this.frameOptions.resizeHeightOnSizeChangedEvent) {
-            metadata?.frame?.setAttribute?.('height', `${messageEvent.message?.height}px`);
+        if (
+            messageEvent.eventName === 'SIZE_CHANGED' &&
+            this.frameOptions.resizeHeightOnSizeChangedEvent &&
+            messageEvent.message?.height !== undefined &&
+            messageEvent.message.height !== null
+        ) {
+            metadata?.frame?.setAttribute?.('height', `${messageEvent.message.height}px`);
         }
+        // The theme options are applied in the background, nobody awaits them so their failures are logged
         if (messageEvent.eventName === 'EXPERIENCE_INITIALIZED' && this.contentOptions?.themeOptions?.themeOverride) {
-            this.setThemeOverride(this.contentOptions.themeOptions.themeOverride);
+            this.setThemeOverride(this.contentOptions.themeOptions.themeOverride).catch(error =>
+                this.logger?.warn('Failed to apply the theme override of the content options', error)
+            );
         }
         if (messageEvent.eventName === 'EXPERIENCE_INITIALIZED' && this.contentOptions?.themeOptions?.preloadThemes) {
-            this.setPreloadThemes(this.contentOptions.themeOptions.preloadThemes);
+            this.setPreloadThemes(this.contentOptions.themeOptions.preloadThemes).catch(error =>
+                this.logger?.warn('Failed to preload the themes of the content options', error)
+            );
         }
     };
 
@@ -0,0 +1,146 @@
+// Copyright 2023 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+
+import {MessageEventName, PostMessageEvent} from '../common/events';
+import {EmbeddingTransportOptions} from '../common/transport';
+import {Parameter} from '../common/types';
+import {SimulatedFrame} from './simulated-frame';
+import {HostSimulatorOptions, HostSimulatorState, ScriptedBehavior, SimulatedResponder} from './types';
+
+/**
+ * Simulates the QuickSight host of the embedded frames, so that experiences can be tested without a QuickSight account.
+ * Pass `createTransport` to `createEmbeddingContext`, every frame of the context is then a simulated frame
+ */
+export class HostSimulator {
+    public readonly state: HostSimulatorState;
+    private readonly autoInitialize: boolean;
+    private readonly frames: SimulatedFrame[] = [];
+    private readonly responders: Map<MessageEventName, SimulatedResponder> = new Map();
+    private readonly scriptedBehaviors: Map<MessageEventName, ScriptedBehavior[]> = new Map();
+
+    constructor(options: HostSimulatorOptions = {}) {
+        this.state = {
+            sheets: [],
+            parameters: [],
+            visuals: {},
+            visualActions: {},
+            ...options.state,
+        };
+        this.autoInitialize = options.autoInitialize ?? true;
+        this.initializeResponders();
+    }
+
+    public createTransport = (options: EmbeddingTransportOptions) => {
+        const frame = new SimulatedFrame(options, this.handleCommand);
+        this.frames.push(frame);
+
+        if (this.autoInitialize && !frame.isControlFrame()) {
+            // The experience starts listening to its messages once its frame has been created
+            Promise.resolve().then(() => this.initialize(frame));
+        }
+
+        return frame;
+    };
+
+    public getFrames = () => this.frames.filter(frame => frame.isOpen());
+
+    public getExperienceFrames = () => this.getFrames().filter(frame => !frame.isControlFrame());
+
+    // Every message the SDK posted to the frames, in order
+    public getMessages = () => this.frames.flatMap(frame => frame.messages);
+
+    public initialize = (frame?: SimulatedFrame) => {
+        this.getTargetFrames(frame).forEach(targetFrame => {
+            targetFrame.emit(MessageEventName.EXPERIENCE_INITIALIZED);
+            targetFrame.emit(MessageEventName.CONTENT_LOADED, {title: 'Simulated experience'});
+        });
+    };
+
+    public emit = (
+        eventName: MessageEventName,
+        message?: Parameters<SimulatedFrame['emit']>[1],
+        frame?: SimulatedFrame
+    ) => {
+        this.getTargetFrames(frame).forEach(targetFrame => targetFrame.emit(eventName, message));
+    };
+
+    // Replaces how the host answers a command, for as long as the simulator lives
+    public respondTo = (eventName: MessageEventName, responder: SimulatedResponder) => {
+        this.responders.set(eventName, responder);
+        return this;
+    };
+
+    // The next command with the given name is answered once by the responder
+    public respondNext = (eventName: MessageEventName, responder: SimulatedResponder) => {
+        return this.script(eventName, {type: 'respond', responder});
+    };
+
+    // The next command with the given name is answered with an error response
+    public failNext = (eventName: MessageEventName, errorCode = 'SIMULATED_ERROR', error?: string) => {
+        return this.script(eventName, {type: 'fail', errorCode, error});
+    };
+
+    // The next command with the given name is never answered, so that it times out
+    public timeoutNext = (eventName: MessageEventName) => {
+        return this.script(eventName, {type: 'timeout'});
+    };
+
+    private script = (eventName: MessageEventName, behavior: ScriptedBehavior) => {
+        this.scriptedBehaviors.set(eventName, [...(this.scriptedBehaviors.get(eventName) ?? []), behavior]);
+        return this;
+    };
+
+    private getTargetFrames = (frame?: SimulatedFrame) => (frame ? [frame] : this.getExperienceFrames());
+
+    private handleCommand = (messageEvent: PostMessageEvent, frame: SimulatedFrame) => {
+        const behavior = this.scriptedBehaviors.get(messageEvent.eventName)?.shift();
+
+        if (behavior?.type === 'timeout') {
+            return;
+        }
+
+        if (behavior?.type === 'fail') {
+            frame.respond(messageEvent, {success: false, errorCode: behavior.errorCode, error: behavior.error});
+            return;
+        }
+
+        const responder =
+            behavior?.type === 'respond' ? behavior.responder : this.responders.get(messageEvent.eventName);
+        const response = responder?.(messageEvent, frame);
+
+        frame.respond(messageEvent, response === undefined ? {success: true} : response);
+    };
+
+    private initializeResponders = () => {
+        this.responders.set(MessageEventName.GET_SHEETS, () => this.state.sheets);
+        this.responders.set(
+            MessageEventName.GET_SELECTED_SHEET_ID,
+            () => this.state.selectedSheetId ?? this.state.sheets[0]?.SheetId
+        );
+        this.responders.set(MessageEventName.GET_PARAMETERS, () => this.state.parameters);
+        this.responders.set(MessageEventName.GET_SHEET_VISUALS, messageEvent => {
+            const {SheetId} = messageEvent.message as {SheetId: string};
+            return this.state.visuals[SheetId] ?? [];
+        });
+        this.responders.set(MessageEventName.GET_VISUAL_ACTIONS, messageEvent => {
+            const {VisualId} = messageEvent.message as {VisualId: string};
+            return this.state.visualActions[VisualId] ?? [];
+        });
+        this.responders.set(MessageEventName.SET_SELECTED_SHEET_ID, (messageEvent, frame) => {
+            const {SheetId} = messageEvent.message as {SheetId: string};
+            const sheet = this.state.sheets.find(({SheetId: sheetId}) => sheetId === SheetId);
+            this.state.selectedSheetId = SheetId;
+            frame.emit(MessageEventName.SELECTED_SHEET_CHANGED, {selectedSheet: {Name: sheet?.Name, SheetId}});
+        });
+        this.responders.set(MessageEventName.SET_PARAMETERS, (messageEvent, frame) => {
+            const changedParameters = messageEvent.message as Parameter[];
+            this.state.parameters = [
+                ...this.state.parameters.filter(
+                    ({Name}) => !changedParameters.some(parameter => parameter.Name === Name)
+                ),
+                ...changedParameters,
+            ];
+            frame.emit(MessageEventName.PARAMETERS_CHANGED, {changedParameters});
+        });
+    };
+}
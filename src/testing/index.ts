@@ -0,0 +1,7 @@
+// Copyright 2023 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+
+export * from './types';
+export * from './simulated-frame';
+export * from './host-simulator';
+export * from './traffic-replayer';
@@ -0,0 +1,78 @@
+// Copyright 2023 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+
+import {v4} from 'uuid';
+import {EventMessageValues, MessageEventName, PostMessageEvent} from '../common/events';
+import {EmbeddingTransport, EmbeddingTransportOptions} from '../common/transport';
+import {ExperienceType} from '../experiences/base-experience/types';
+
+/**
+ * Stands in for a frame embedded by the SDK, it is the in-memory transport of that frame.
+ * Commands posted to the frame are handed to the host simulator, which answers through the frame
+ */
+export class SimulatedFrame implements EmbeddingTransport {
+    public readonly messages: PostMessageEvent[] = [];
+    private readonly options: EmbeddingTransportOptions;
+    private readonly onCommand: (messageEvent: PostMessageEvent, frame: SimulatedFrame) => void;
+    private isClosed = false;
+
+    constructor(
+        options: EmbeddingTransportOptions,
+        onCommand: (messageEvent: PostMessageEvent, frame: SimulatedFrame) => void
+    ) {
+        this.options = options;
+        this.onCommand = onCommand;
+    }
+
+    public getExperience = () => this.options.eventTarget;
+
+    public isControlFrame = () => this.getExperience().experienceType === ExperienceType.CONTROL;
+
+    public isOpen = () => !this.isClosed;
+
+    public postMessage = (messageEvent: PostMessageEvent) => {
+        if (this.isClosed) {
+            return;
+        }
+
+        this.messages.push(messageEvent);
+
+        if (messageEvent.eventName !== MessageEventName.ACKNOWLEDGE) {
+            // A real frame answers asynchronously, so does the simulated one
+            Promise.resolve().then(() => this.onCommand(messageEvent, this));
+        }
+    };
+
+    // Simulated frames talk to the SDK directly and never need a MessageChannel
+    public connect = () => undefined;
+
+    public disconnect = () => undefined;
+
+    public close = () => {
+        this.isClosed = true;
+    };
+
+    public respond = (messageEvent: PostMessageEvent, message?: EventMessageValues) => {
+        this.receive(
+            new PostMessageEvent(
+                messageEvent.eventName,
+                this.getExperience(),
+                messageEvent.eventId,
+                Date.now(),
+                messageEvent.version,
+                message
+            )
+        );
+    };
+
+    // Posts an event of the experience, e.g. SIZE_CHANGED, to the SDK
+    public emit = (eventName: MessageEventName, message?: EventMessageValues) => {
+        this.receive(new PostMessageEvent(eventName, this.getExperience(), v4(), Date.now(), '', message));
+    };
+
+    private receive = (messageEvent: PostMessageEvent) => {
+        if (!this.isClosed) {
+            this.options.onMessage(messageEvent);
+        }
+    };
+}
@@ -0,0 +1,66 @@
+// Copyright 2023 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+
+import {EmbeddingEvents, MessageEventName, PostMessageEvent} from '../common/events';
+import {EventManager} from '../common/event-manager';
+import {TrafficEntryType, TrafficRecording} from '../common/recorder';
+import {InternalExperiences} from '../experiences/base-experience/types';
+import {BaseExperience} from '../experiences/base-experience/base-experience';
+import {HostSimulator} from './host-simulator';
+
+// Experiences of a recording belong to another embedding context, so they are compared without the context id
+const isSameExperience = (experience: InternalExperiences, recordedExperience?: InternalExperiences) => {
+    return (
+        !!recordedExperience &&
+        BaseExperience.getExperienceIdentifier({...experience, contextId: ''}) ===
+            BaseExperience.getExperienceIdentifier({...recordedExperience, contextId: ''})
+    );
+};
+
+/**
+ * Feeds a recording of the embedding traffic back into the SDK, so that an issue can be reproduced offline
+ */
+export class TrafficReplayer {
+    private readonly recording: TrafficRecording;
+
+    constructor(recording: TrafficRecording | string) {
+        this.recording = typeof recording === 'string' ? JSON.parse(recording) : recording;
+    }
+
+    public getEntries = (type?: TrafficEntryType) => {
+        return type ? this.recording.entries.filter(entry => entry.type === type) : this.recording.entries;
+    };
+
+    // Hands the recorded events to the listeners registered for the same experiences in the given embedding context
+    public replayToEventManager = (eventManager: EventManager, contextId: string) => {
+        this.getEntries(TrafficEntryType.EVENT).forEach(entry => {
+            const {eventTarget} = entry.messageEvent as PostMessageEvent;
+            const experienceId = BaseExperience.getExperienceIdentifier({...eventTarget, contextId});
+
+            eventManager.invokeEventListener(experienceId, entry.messageEvent as EmbeddingEvents);
+        });
+    };
+
+    /**
+     * Scripts the simulator to answer commands with the recorded responses, in order,
+     * then emits the recorded events through the simulated frames of the same experiences.
+     * The experiences have to be embedded with the simulator beforehand
+     */
+    public replayToHostSimulator = (host: HostSimulator) => {
+        this.getEntries(TrafficEntryType.RESPONSE).forEach(entry =>
+            host.respondNext(
+                entry.eventName as MessageEventName,
+                () => (entry.messageEvent as PostMessageEvent).message
+            )
+        );
+
+        this.getEntries(TrafficEntryType.EVENT).forEach(entry => {
+            const {eventTarget, message} = entry.messageEvent as PostMessageEvent;
+            const frame = host
+                .getFrames()
+                .find(simulatedFrame => isSameExperience(simulatedFrame.getExperience(), eventTarget));
+
+            frame?.emit(entry.eventName as MessageEventName, message);
+        });
+    };
+}
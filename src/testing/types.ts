@@ -0,0 +1,37 @@
+// Copyright 2023 Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: Apache-2.0
+
+import {EventMessageValues, PostMessageEvent} from '../common/events';
+import {Parameter} from '../common/types';
+import {Sheet, Visual, VisualAction} from '../experiences/dashboard-experience/types';
+import type {SimulatedFrame} from './simulated-frame';
+
+export type HostSimulatorState = {
+    sheets: Sheet[];
+    selectedSheetId?: string;
+    parameters: Parameter[];
+    // Visuals by sheet id
+    visuals: Record<string, Visual[]>;
+    // Visual actions by visual id
+    visualActions: Record<string, VisualAction[]>;
+};
+
+export type HostSimulatorOptions = {
+    state?: Partial<HostSimulatorState>;
+    // Emits EXPERIENCE_INITIALIZED as soon as an experience frame is created, defaults to true
+    autoInitialize?: boolean;
+};
+
+/**
+ * Answers a command sent to a simulated frame.
+ * The returned value is sent back as the message of the response, undefined is sent back as a success
+ */
+export type SimulatedResponder = (
+    messageEvent: PostMessageEvent,
+    frame: SimulatedFrame
+) => EventMessageValues | {success: boolean; errorCode?: string; error?: string} | void;
+
+export type ScriptedBehavior =
+    | {type: 'fail'; errorCode: string; error?: string}
+    | {type: 'timeout'}
+    | {type: 'respond'; responder: SimulatedResponder};
@@ -0,0 +1,121 @@
+import {
+    BodyNotFoundError,
+    CommandAbortedError,
+    CommandRejectedError,
+    EventAbortedError,
+    EventTimeoutError,
+    CommandTimeoutError,
+    ContainerNotFoundError,
+    ContextDestroyedError,
+    EmbeddingError,
+    ExperienceNotInitializedError,
+    FrameNotCreatedError,
+    FrameTimeoutError,
+    FrameUnmountedError,
+    InvalidFilterGroupError,
+    InvalidFrameOptionsError,
+    InvalidParameterError,
+    InvalidUrlError,
+    InvalidEventListenerError,
+    InvalidExperienceError,
+    MissingUrlError,
+    UnknownExperienceError,
+    UrlNotAllowedError,
+} from '@common/errors/errors';
+import {EmbeddingErrorCode} from '@common/errors/types';
+import {ChangeEventName} from '@common/events/types';
+
+describe('Errors', () => {
+    it.each([
+        [new InvalidUrlError('Invalid url'), 'InvalidUrlError', ChangeEventName.INVALID_URL],
+        [new MissingUrlError('Missing url'), 'MissingUrlError', ChangeEventName.NO_URL],
+        [new UrlNotAllowedError('Url not allowed'), 'UrlNotAllowedError', ChangeEventName.URL_NOT_ALLOWED],
+        [
+            new ContainerNotFoundError('Missing container', EmbeddingErrorCode.NO_CONTAINER),
+            'ContainerNotFoundError',
+            ChangeEventName.NO_CONTAINER,
+        ],
+        [new BodyNotFoundError('Missing body'), 'BodyNotFoundError', ChangeEventName.NO_BODY],
+        [
+            new InvalidFrameOptionsError('Invalid frame options', EmbeddingErrorCode.INVALID_FRAME_OPTIONS),
+            'InvalidFrameOptionsError',
+            ChangeEventName.INVALID_FRAME_OPTIONS,
+        ],
+        [new FrameTimeoutError('Creating the frame timed out'), 'FrameTimeoutError', ChangeEventName.FRAME_NOT_CREATED],
+        [
+            new FrameNotCreatedError('No experience frame found'),
+            'FrameNotCreatedError',
+            ChangeEventName.FRAME_NOT_CREATED,
+        ],
+        [
+            new FrameUnmountedError('The experience frame has been unmounted'),
+            'FrameUnmountedError',
+            EmbeddingErrorCode.FRAME_UNMOUNTED,
+        ],
+        [
+            new ExperienceNotInitializedError('Experience has not been initialized'),
+            'ExperienceNotInitializedError',
+            EmbeddingErrorCode.EXPERIENCE_NOT_INITIALIZED,
+        ],
+        [
+            new ContextDestroyedError('embedDashboard is called on a destroyed embedding context'),
+            'ContextDestroyedError',
+            EmbeddingErrorCode.CONTEXT_DESTROYED,
+        ],
+        [
+            new InvalidExperienceError('Invalid experience unable to build experience identifier'),
+            'InvalidExperienceError',
+            EmbeddingErrorCode.INVALID_EXPERIENCE,
+        ],
+        [
+            new UnknownExperienceError('test', 'Unable to find experience specific event listeners: test'),
+            'UnknownExperienceError',
+            EmbeddingErrorCode.UNKNOWN_EXPERIENCE,
+        ],
+        [
+            new InvalidEventListenerError('Invalid type provided for event listener'),
+            'InvalidEventListenerError',
+            EmbeddingErrorCode.INVALID_EVENT_LISTENER,
+        ],
+        [new CommandTimeoutError('GET_SHEETS', 10), 'CommandTimeoutError', EmbeddingErrorCode.COMMAND_TIMED_OUT],
+        [new CommandAbortedError('GET_SHEETS'), 'CommandAbortedError', EmbeddingErrorCode.COMMAND_ABORTED],
+        [
+            new CommandRejectedError('GET_SHEETS', 'Failed to retrieve the sheets'),
+            'CommandRejectedError',
+            EmbeddingErrorCode.COMMAND_REJECTED,
+        ],
+        [
+            new EventTimeoutError('Timed out waiting for CONTENT_LOADED', 10),
+            'EventTimeoutError',
+            EmbeddingErrorCode.EVENT_TIMED_OUT,
+        ],
+        [
+            new EventAbortedError('Stopped waiting for CONTENT_LOADED'),
+            'EventAbortedError',
+            EmbeddingErrorCode.EVENT_ABORTED,
+        ],
+        [
+            new InvalidParameterError('Year', 'Parameter Year only accepts finite numbers'),
+            'InvalidParameterError',
+            EmbeddingErrorCode.INVALID_PARAMETER,
+        ],
+        [
+            new InvalidFilterGroupError('group1', 'The filter group requires a scope'),
+            'InvalidFilterGroupError',
+            EmbeddingErrorCode.INVALID_FILTER_GROUP,
+        ],
+    ])('should create %p with its name and code', (error, name, code) => {
+        expect(error).toBeInstanceOf(Error);
+        expect(error).toBeInstanceOf(EmbeddingError);
+        expect(error.name).toEqual(name);
+        expect(error.code).toEqual(code);
+    });
+
+    it('should keep the response of a rejected command', () => {
+        const response = {success: false, errorCode: 'INVALID_SHEET'};
+        const error = new CommandRejectedError('GET_SHEETS', 'Failed to retrieve the sheets', response);
+
+        expect(error.eventName).toEqual('GET_SHEETS');
+        expect(error.response).toBe(response);
+    });
+});
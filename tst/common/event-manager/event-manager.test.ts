@@ -1,7 +1,14 @@
 import {EventManager} from '@common/event-manager/event-manager';
+import {ALL_EXPERIENCES} from '@common/event-manager/types';
+import {
+    EventAbortedError,
+    EventTimeoutError,
+    InvalidEventListenerError,
+    UnknownExperienceError,
+} from '@common/errors/errors';
 import {ExperienceType} from '@experience/base-experience/types';
 import {InfoMessageEventName} from '@common/events/messages';
-import {MessageEventName} from '@common/events/types';
+import {EmbeddingEvents, MessageEventName} from '@common/events/types';
 
 describe('EventManager', () => {
     const TEST_EXPERIENCE_IDENTIFIER_1 = 'testExperienceIdentifier1';
@@ -87,6 +94,8 @@ describe('EventManager', () => {
             // @ts-expect-error should throw error because of invalid type
             eventManager.addEventListener(null, mockListener1);
         }).toThrow('Experience identifier is required when calling addEventListener');
+        // @ts-expect-error should throw error because of invalid type
+        expect(() => eventManager.addEventListener(null, mockListener1)).toThrow(InvalidEventListenerError);
     });
 
     it('addEventListener should throw error when listener is not function', () => {
@@ -96,6 +105,8 @@ describe('EventManager', () => {
             // @ts-expect-error should throw error because of invalid type
             eventManager.addEventListener('test', {});
         }).toThrow('Invalid type provided for event listener');
+        // @ts-expect-error should throw error because of invalid type
+        expect(() => eventManager.addEventListener('test', {})).toThrow(InvalidEventListenerError);
     });
 
     it('invokeEventListener should throw error when experience cannot be found', () => {
@@ -106,6 +117,9 @@ describe('EventManager', () => {
                 eventName: MessageEventName.SIZE_CHANGED,
             });
         }).toThrow('Unable to find experience specific event listeners: test');
+        expect(() => eventManager.invokeEventListener('test', {eventName: MessageEventName.SIZE_CHANGED})).toThrow(
+            UnknownExperienceError
+        );
     });
 
     it('removeEventListener should throw error when experience cannot be found', () => {
@@ -115,5 +129,170 @@ describe('EventManager', () => {
             // @ts-expect-error should throw error because of invalid type
             eventManager.removeEventListener('test', {});
         }).toThrow('Unable to find experience specific event listeners: test');
+        // @ts-expect-error should throw error because of invalid type
+        expect(() => eventManager.removeEventListener('test', {})).toThrow(UnknownExperienceError);
+    });
+    describe('Subscriptions', () => {
+        const createEvent = (eventName: MessageEventName) =>
+            ({
+                eventTarget: {
+                    experienceType: ExperienceType.CONTROL,
+                    contextId: '',
+                },
+                message: {},
+                eventName,
+            } as EmbeddingEvents);
+
+        it('should only deliver the events selected by the filter', () => {
+            const eventManager = new EventManager();
+            const namedListener = jest.fn();
+            const predicateListener = jest.fn();
+            eventManager.subscribe(
+                TEST_EXPERIENCE_IDENTIFIER_1,
+                [MessageEventName.SIZE_CHANGED, MessageEventName.CONTENT_LOADED],
+                namedListener
+            );
+            eventManager.subscribe(
+                TEST_EXPERIENCE_IDENTIFIER_1,
+                event => event.eventName === MessageEventName.EXPERIENCE_INITIALIZED,
+                predicateListener
+            );
+
+            eventManager.invokeEventListener(TEST_EXPERIENCE_IDENTIFIER_1, createEvent(MessageEventName.SIZE_CHANGED));
+            eventManager.invokeEventListener(
+                TEST_EXPERIENCE_IDENTIFIER_1,
+                createEvent(MessageEventName.CONTENT_LOADED)
+            );
+            eventManager.invokeEventListener(
+                TEST_EXPERIENCE_IDENTIFIER_1,
+                createEvent(MessageEventName.EXPERIENCE_INITIALIZED)
+            );
+
+            expect(namedListener).toHaveBeenCalledTimes(2);
+            expect(predicateListener).toHaveBeenCalledTimes(1);
+        });
+
+        it('should remove a once listener after the first matching event', () => {
+            const eventManager = new EventManager();
+            const listener = jest.fn();
+            eventManager.once(TEST_EXPERIENCE_IDENTIFIER_1, MessageEventName.CONTENT_LOADED, listener);
+
+            eventManager.invokeEventListener(TEST_EXPERIENCE_IDENTIFIER_1, createEvent(MessageEventName.SIZE_CHANGED));
+            eventManager.invokeEventListener(
+                TEST_EXPERIENCE_IDENTIFIER_1,
+                createEvent(MessageEventName.CONTENT_LOADED)
+            );
+            eventManager.invokeEventListener(
+                TEST_EXPERIENCE_IDENTIFIER_1,
+                createEvent(MessageEventName.CONTENT_LOADED)
+            );
+
+            expect(listener).toHaveBeenCalledTimes(1);
+        });
+
+        it('should deliver the events of every experience to wildcard listeners', () => {
+            const eventManager = new EventManager();
+            const listener = jest.fn();
+            eventManager.addEventListener(TEST_EXPERIENCE_IDENTIFIER_1, jest.fn());
+            eventManager.addEventListener(TEST_EXPERIENCE_IDENTIFIER_2, jest.fn());
+            const subscription = eventManager.subscribe(ALL_EXPERIENCES, MessageEventName.CONTENT_LOADED, listener);
+
+            eventManager.invokeEventListener(
+                TEST_EXPERIENCE_IDENTIFIER_1,
+                createEvent(MessageEventName.CONTENT_LOADED)
+            );
+            eventManager.invokeEventListener(
+                TEST_EXPERIENCE_IDENTIFIER_2,
+                createEvent(MessageEventName.CONTENT_LOADED)
+            );
+            subscription.remove();
+            eventManager.invokeEventListener(
+                TEST_EXPERIENCE_IDENTIFIER_2,
+                createEvent(MessageEventName.CONTENT_LOADED)
+            );
+
+            expect(listener).toHaveBeenCalledTimes(2);
+        });
+
+        it('should resolve waitFor with the next matching event', async () => {
+            const eventManager = new EventManager();
+            const promise = eventManager.waitFor(TEST_EXPERIENCE_IDENTIFIER_1, MessageEventName.SELECTED_SHEET_CHANGED);
+            const event = createEvent(MessageEventName.SELECTED_SHEET_CHANGED);
+
+            eventManager.invokeEventListener(TEST_EXPERIENCE_IDENTIFIER_1, createEvent(MessageEventName.SIZE_CHANGED));
+            eventManager.invokeEventListener(TEST_EXPERIENCE_IDENTIFIER_1, event);
+
+            await expect(promise).resolves.toBe(event);
+        });
+
+        it('should reject waitFor when the timeout elapses', async () => {
+            jest.useFakeTimers();
+            const eventManager = new EventManager();
+            const listener = jest.fn();
+            eventManager.addEventListener(TEST_EXPERIENCE_IDENTIFIER_1, listener);
+            const promise = eventManager.waitFor(TEST_EXPERIENCE_IDENTIFIER_1, MessageEventName.CONTENT_LOADED, {
+                timeout: 1000,
+            });
+
+            const predicatePromise = eventManager.waitFor(TEST_EXPERIENCE_IDENTIFIER_1, () => false, {timeout: 1000});
+
+            jest.advanceTimersByTime(1000);
+
+            await expect(promise).rejects.toBeInstanceOf(EventTimeoutError);
+            await expect(promise).rejects.toThrow('Timed out waiting for CONTENT_LOADED');
+            await expect(predicatePromise).rejects.toThrow('Timed out waiting for an event matching the predicate');
+            eventManager.invokeEventListener(
+                TEST_EXPERIENCE_IDENTIFIER_1,
+                createEvent(MessageEventName.CONTENT_LOADED)
+            );
+            expect(listener).toHaveBeenCalledTimes(1);
+            jest.useRealTimers();
+        });
+
+        it('should unregister the cleanup of removed subscriptions', async () => {
+            const eventManager = new EventManager();
+            jest.spyOn(eventManager, 'removeEventListener');
+            eventManager.addEventListener(TEST_EXPERIENCE_IDENTIFIER_1, jest.fn());
+            const subscription = eventManager.subscribe(ALL_EXPERIENCES, MessageEventName.CONTENT_LOADED, jest.fn(), {
+                cleanUp: true,
+            });
+            const onceSubscription = eventManager.once(
+                ALL_EXPERIENCES,
+                MessageEventName.CONTENT_LOADED,
+                jest.fn(),
+                true
+            );
+            const promise = eventManager.waitFor(ALL_EXPERIENCES, MessageEventName.CONTENT_LOADED);
+
+            subscription.remove();
+            onceSubscription.remove();
+            eventManager.invokeEventListener(
+                TEST_EXPERIENCE_IDENTIFIER_1,
+                createEvent(MessageEventName.CONTENT_LOADED)
+            );
+            await promise;
+            jest.mocked(eventManager.removeEventListener).mockClear();
+            eventManager.cleanUpCallbacksForExperience(ALL_EXPERIENCES);
+
+            expect(eventManager.removeEventListener).not.toHaveBeenCalled();
+        });
+
+        it.each([
+            ['the experience is cleaned up', TEST_EXPERIENCE_IDENTIFIER_1],
+            ['every experience is cleaned up', ALL_EXPERIENCES],
+        ])('should reject a pending waitFor when %s', async (description, experienceId) => {
+            jest.useFakeTimers();
+            const eventManager = new EventManager();
+            const promise = eventManager.waitFor(experienceId, MessageEventName.CONTENT_LOADED);
+            const timedPromise = eventManager.waitFor(experienceId, MessageEventName.CONTENT_LOADED, {timeout: 1000});
+
+            eventManager.cleanUpCallbacksForExperience(experienceId);
+            jest.advanceTimersByTime(1000);
+
+            await expect(promise).rejects.toBeInstanceOf(EventAbortedError);
+            await expect(promise).rejects.toThrow('Stopped waiting for CONTENT_LOADED');
+            await expect(timedPromise).rejects.toBeInstanceOf(EventAbortedError);
+            jest.useRealTimers();
+        });
     });
 });
@@ -0,0 +1,108 @@
+import {EventManager} from '@common/event-manager/event-manager';
+import {EventStream} from '@common/event-manager/event-stream';
+import {ALL_EXPERIENCES} from '@common/event-manager/types';
+import {EmbeddingEvents, MessageEventName} from '@common/events/types';
+import {ExperienceType} from '@experience/base-experience/types';
+
+describe('EventStream', () => {
+    const TEST_EXPERIENCE_IDENTIFIER = 'testExperienceIdentifier';
+
+    const createEvent = (eventName: MessageEventName) =>
+        ({
+            eventTarget: {
+                experienceType: ExperienceType.CONTROL,
+                contextId: '',
+            },
+            message: {},
+            eventName,
+        } as EmbeddingEvents);
+
+    let eventManager: EventManager;
+
+    beforeEach(() => {
+        eventManager = new EventManager();
+    });
+
+    it('should push the selected events to subscribers until they unsubscribe', () => {
+        const next = jest.fn();
+        const stream = new EventStream(eventManager, TEST_EXPERIENCE_IDENTIFIER, MessageEventName.CONTENT_LOADED);
+        const subscription = stream.subscribe(next);
+
+        eventManager.invokeEventListener(TEST_EXPERIENCE_IDENTIFIER, createEvent(MessageEventName.SIZE_CHANGED));
+        eventManager.invokeEventListener(TEST_EXPERIENCE_IDENTIFIER, createEvent(MessageEventName.CONTENT_LOADED));
+        subscription.unsubscribe();
+        eventManager.invokeEventListener(TEST_EXPERIENCE_IDENTIFIER, createEvent(MessageEventName.CONTENT_LOADED));
+
+        expect(next).toBeCalledTimes(1);
+        expect(subscription.closed).toBe(true);
+    });
+
+    it('should complete subscribers when the experience is cleaned up', () => {
+        const observer = {next: jest.fn(), complete: jest.fn()};
+        new EventStream(eventManager, TEST_EXPERIENCE_IDENTIFIER).subscribe(observer);
+
+        eventManager.cleanUpCallbacksForExperience(TEST_EXPERIENCE_IDENTIFIER);
+        eventManager.invokeEventListener(TEST_EXPERIENCE_IDENTIFIER, createEvent(MessageEventName.CONTENT_LOADED));
+
+        expect(observer.next).not.toBeCalled();
+        expect(observer.complete).toBeCalledTimes(1);
+    });
+
+    it('should be iterable with for await until the experience is cleaned up', async () => {
+        const stream = new EventStream(eventManager, TEST_EXPERIENCE_IDENTIFIER);
+        const iterator = stream[Symbol.asyncIterator]();
+        const firstEvent = createEvent(MessageEventName.SIZE_CHANGED);
+        const secondEvent = createEvent(MessageEventName.CONTENT_LOADED);
+
+        eventManager.invokeEventListener(TEST_EXPERIENCE_IDENTIFIER, firstEvent);
+        await expect(iterator.next()).resolves.toEqual({done: false, value: firstEvent});
+
+        const secondResult = iterator.next();
+        eventManager.invokeEventListener(TEST_EXPERIENCE_IDENTIFIER, secondEvent);
+
+        await expect(secondResult).resolves.toEqual({done: false, value: secondEvent});
+
+        const lastResult = iterator.next();
+        eventManager.cleanUpCallbacksForExperience(TEST_EXPERIENCE_IDENTIFIER);
+
+        await expect(lastResult).resolves.toEqual({done: true, value: undefined});
+    });
+
+    it('should remove the listener when the iteration is stopped', async () => {
+        const iterator = new EventStream(eventManager, ALL_EXPERIENCES)[Symbol.asyncIterator]();
+        eventManager.addEventListener(TEST_EXPERIENCE_IDENTIFIER, jest.fn());
+        jest.spyOn(eventManager, 'removeEventListener');
+
+        const result = iterator.next();
+        await expect(iterator.return?.()).resolves.toEqual({done: true, value: undefined});
+        eventManager.invokeEventListener(TEST_EXPERIENCE_IDENTIFIER, createEvent(MessageEventName.SIZE_CHANGED));
+
+        await expect(result).resolves.toEqual({done: true, value: undefined});
+        await expect(iterator.next()).resolves.toEqual({done: true, value: undefined});
+        expect(eventManager.removeEventListener).toBeCalledWith(ALL_EXPERIENCES, expect.any(Function));
+    });
+
+    it('should unregister the cleanup of subscribers that unsubscribed and iterations that were stopped', async () => {
+        const stream = new EventStream(eventManager, TEST_EXPERIENCE_IDENTIFIER);
+        const observer = {next: jest.fn(), complete: jest.fn()};
+        const iterator = stream[Symbol.asyncIterator]();
+        stream.subscribe(observer).unsubscribe();
+        await iterator.return?.();
+        jest.spyOn(eventManager, 'removeEventListener');
+
+        eventManager.cleanUpCallbacksForExperience(TEST_EXPERIENCE_IDENTIFIER);
+
+        expect(observer.complete).not.toBeCalled();
+        expect(eventManager.removeEventListener).not.toBeCalled();
+    });
+
+    it('should expose itself through the observable interop methods', () => {
+        const observable = Symbol('observable');
+        Object.defineProperty(Symbol, 'observable', {value: observable, configurable: true});
+        const stream = new EventStream(eventManager, TEST_EXPERIENCE_IDENTIFIER);
+        delete (Symbol as {observable?: symbol}).observable;
+
+        expect(stream['@@observable']()).toBe(stream);
+        expect((stream as unknown as Record<symbol, () => EventStream>)[observable]()).toBe(stream);
+    });
+});
@@ -0,0 +1,203 @@
+import {FilterGroupBuilder} from '@common/filter-groups/filter-group-builder';
+import {InvalidFilterGroupError} from '@common/errors/errors';
+import {EmbeddingErrorCode} from '@common/errors/types';
+
+describe('FilterGroupBuilder', () => {
+    const STATE_COLUMN = {DataSetIdentifier: 'sales', ColumnName: 'State'};
+    const PRICE_COLUMN = {DataSetIdentifier: 'sales', ColumnName: 'Price'};
+    const DATE_COLUMN = {DataSetIdentifier: 'sales', ColumnName: 'OrderDate'};
+
+    it('should build a filter group with generated ids scoped to the selected sheets and visuals', () => {
+        const filterGroup = new FilterGroupBuilder()
+            .categoryFilter(STATE_COLUMN, ['WA', 'OR'])
+            .categoryFilter(STATE_COLUMN, [], {matchOperator: 'DOES_NOT_EQUAL', selectAll: true})
+            .scopeToSheets({Name: 'Overview', SheetId: 'sheet1'})
+            .scopeToVisuals('sheet2', ['visual1', {Name: 'Sales', VisualId: 'visual2'}])
+            .scopeToVisuals('sheet2', ['visual2', 'visual3'])
+            .build();
+
+        expect(filterGroup).toEqual({
+            FilterGroupId: expect.any(String),
+            Filters: [
+                {
+                    CategoryFilter: {
+                        FilterId: expect.any(String),
+                        Column: STATE_COLUMN,
+                        Configuration: {
+                            FilterListConfiguration: {MatchOperator: 'EQUALS', CategoryValues: ['WA', 'OR']},
+                        },
+                    },
+                },
+                {
+                    CategoryFilter: {
+                        FilterId: expect.any(String),
+                        Column: STATE_COLUMN,
+                        Configuration: {
+                            FilterListConfiguration: {
+                                MatchOperator: 'DOES_NOT_EQUAL',
+                                SelectAllOptions: 'FILTER_ALL_VALUES',
+                            },
+                        },
+                    },
+                },
+            ],
+            ScopeConfiguration: {
+                SelectedSheets: {
+                    SheetVisualScopingConfigurations: [
+                        {SheetId: 'sheet1', Scope: 'ALL_VISUALS'},
+                        {SheetId: 'sheet2', Scope: 'SELECTED_VISUALS', VisualIds: ['visual1', 'visual2', 'visual3']},
+                    ],
+                },
+            },
+            CrossDataset: 'SINGLE_DATASET',
+        });
+        expect(filterGroup.Filters?.[0].CategoryFilter?.FilterId).not.toEqual(
+            filterGroup.Filters?.[1].CategoryFilter?.FilterId
+        );
+    });
+
+    it('should build range, relative dates and top bottom filters', () => {
+        const from = new Date(Date.UTC(2023, 0, 1));
+        const filterGroup = new FilterGroupBuilder({filterGroupId: 'group1', crossDataset: 'ALL_DATASETS'})
+            .numericRangeFilter(PRICE_COLUMN, {filterId: 'price', minimum: 10, includeMaximum: false, maximum: 20})
+            .timeRangeFilter(DATE_COLUMN, {filterId: 'date', from, timeGranularity: 'DAY'})
+            .relativeDatesFilter(DATE_COLUMN, {
+                filterId: 'relative',
+                relativeDateType: 'LAST',
+                relativeDateValue: 3,
+                timeGranularity: 'MONTH',
+                anchorOption: 'NOW',
+            })
+            .topBottomFilter(STATE_COLUMN, {filterId: 'top', limit: 5, sortBy: PRICE_COLUMN})
+            .scopeToAllSheets()
+            .build();
+
+        expect(filterGroup).toEqual({
+            FilterGroupId: 'group1',
+            Filters: [
+                {
+                    NumericRangeFilter: {
+                        FilterId: 'price',
+                        Column: PRICE_COLUMN,
+                        IncludeMinimum: true,
+                        IncludeMaximum: false,
+                        RangeMinimum: {StaticValue: 10},
+                        RangeMaximum: {StaticValue: 20},
+                        NullOption: 'NON_NULLS_ONLY',
+                    },
+                },
+                {
+                    TimeRangeFilter: {
+                        FilterId: 'date',
+                        Column: DATE_COLUMN,
+                        IncludeMinimum: true,
+                        IncludeMaximum: true,
+                        RangeMinimumValue: {StaticValue: from},
+                        NullOption: 'NON_NULLS_ONLY',
+                        TimeGranularity: 'DAY',
+                    },
+                },
+                {
+                    RelativeDatesFilter: {
+                        FilterId: 'relative',
+                        Column: DATE_COLUMN,
+                        AnchorDateConfiguration: {AnchorOption: 'NOW'},
+                        TimeGranularity: 'MONTH',
+                        RelativeDateType: 'LAST',
+                        RelativeDateValue: 3,
+                        NullOption: 'NON_NULLS_ONLY',
+                    },
+                },
+                {
+                    TopBottomFilter: {
+                        FilterId: 'top',
+                        Column: STATE_COLUMN,
+                        Limit: 5,
+                        AggregationSortConfigurations: [
+                            {
+                                Column: PRICE_COLUMN,
+                                SortDirection: 'DESC',
+                                AggregationFunction: {
+                                    NumericalAggregationFunction: {SimpleNumericalAggregation: 'SUM'},
+                                },
+                            },
+                        ],
+                    },
+                },
+            ],
+            ScopeConfiguration: {AllSheets: {}},
+            CrossDataset: 'ALL_DATASETS',
+        });
+    });
+
+    it.each([
+        ['a category filter without values', () => new FilterGroupBuilder().categoryFilter(STATE_COLUMN, [])],
+        [
+            'a filter without a column name',
+            () => new FilterGroupBuilder().categoryFilter({DataSetIdentifier: 'sales', ColumnName: ''}, ['WA']),
+        ],
+        ['a numeric range without bounds', () => new FilterGroupBuilder().numericRangeFilter(PRICE_COLUMN, {})],
+        [
+            'a numeric range with a bound that is not finite',
+            () => new FilterGroupBuilder().numericRangeFilter(PRICE_COLUMN, {minimum: NaN}),
+        ],
+        [
+            'a numeric range with a minimum greater than its maximum',
+            () => new FilterGroupBuilder().numericRangeFilter(PRICE_COLUMN, {minimum: 2, maximum: 1}),
+        ],
+        ['a time range without bounds', () => new FilterGroupBuilder().timeRangeFilter(DATE_COLUMN, {})],
+        [
+            'a time range with an invalid date',
+            () => new FilterGroupBuilder().timeRangeFilter(DATE_COLUMN, {to: new Date('not a date')}),
+        ],
+        [
+            'a time range that starts after it ends',
+            () => new FilterGroupBuilder().timeRangeFilter(DATE_COLUMN, {from: new Date(2), to: new Date(1)}),
+        ],
+        [
+            'a relative dates filter without a number of periods',
+            () =>
+                new FilterGroupBuilder().relativeDatesFilter(DATE_COLUMN, {
+                    relativeDateType: 'NEXT',
+                    timeGranularity: 'DAY',
+                }),
+        ],
+        [
+            'a top bottom filter without a positive limit',
+            () => new FilterGroupBuilder().topBottomFilter(STATE_COLUMN, {limit: 0, sortBy: PRICE_COLUMN}),
+        ],
+        ['a scope without visuals', () => new FilterGroupBuilder().scopeToVisuals('sheet1', [])],
+        ['a scope without a sheet id', () => new FilterGroupBuilder().scopeToSheets('')],
+        ['a filter group without filters', () => new FilterGroupBuilder().scopeToAllSheets().build()],
+        ['a filter group without a scope', () => new FilterGroupBuilder().categoryFilter(STATE_COLUMN, ['WA']).build()],
+        [
+            'visuals of a sheet scoped as a whole',
+            () => new FilterGroupBuilder().scopeToSheets('sheet1').scopeToVisuals('sheet1', ['visual1']),
+        ],
+        [
+            'a sheet scoped as a whole after some of its visuals',
+            () => new FilterGroupBuilder().scopeToVisuals('sheet1', ['visual1']).scopeToSheets('sheet2', 'sheet1'),
+        ],
+        [
+            'filters sharing an id',
+            () =>
+                new FilterGroupBuilder()
+                    .categoryFilter(STATE_COLUMN, ['WA'], {filterId: 'state'})
+                    .numericRangeFilter(PRICE_COLUMN, {filterId: 'state', minimum: 1})
+                    .scopeToAllSheets()
+                    .build(),
+        ],
+        [
+            'a filter group scoped to all sheets and to selected sheets',
+            () =>
+                new FilterGroupBuilder()
+                    .categoryFilter(STATE_COLUMN, ['WA'])
+                    .scopeToAllSheets()
+                    .scopeToSheets('sheet1')
+                    .build(),
+        ],
+    ])('should throw InvalidFilterGroupError for %s', (description, build) => {
+        expect(build).toThrow(InvalidFilterGroupError);
+        expect(build).toThrow(expect.objectContaining({code: EmbeddingErrorCode.INVALID_FILTER_GROUP}));
+    });
+});
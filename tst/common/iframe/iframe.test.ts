@@ -1,5 +1,6 @@
-import {IframeOptions} from '@common/iframe/types';
+import {IframeAttributes, IframeOptions, PlaceholderRenderContext, PlaceholderState} from '@common/iframe/types';
 import {Iframe} from '@common/iframe/iframe';
+import {MissingUrlError} from '@common/errors/errors';
 
 describe('IFrame', () => {
     const TEST_ID = 'testId';
@@ -168,5 +169,161 @@ describe('IFrame', () => {
                 }
             );
         }).toThrow('No source has been provided.');
+        expect(
+            // @ts-expect-error - should throw error when source is missing
+            () => new Iframe({payload: {}, id: '1234', container: TEST_CONTAINER})
+        ).toThrow(MissingUrlError);
+    });
+
+    it('should remove the iframe, placeholder and post request form', () => {
+        const container = window.document.createElement('div');
+        const formSubmitSpy = jest.spyOn(window.HTMLFormElement.prototype, 'submit').mockImplementation(jest.fn());
+        const iframe = new Iframe({
+            ...DEFAULT_OPTIONS,
+            container,
+            withIframePlaceholder: true,
+            payload: {key: 'value'},
+        });
+
+        iframe.remove();
+        formSubmitSpy.mockRestore();
+
+        expect(container.querySelector('iframe')).toBeNull();
+        expect(container.querySelector('form')).toBeNull();
+        expect(container.querySelector(`#${TEST_ID}-placeholder`)).toBeNull();
+    });
+    it('should set the iframe attributes before the experience url is loaded', () => {
+        const container = window.document.createElement('div');
+        const containerAppendChildSpy = jest.spyOn(container, 'appendChild');
+        const setAttributeSpy = jest.spyOn(window.HTMLIFrameElement.prototype, 'setAttribute');
+        const iframe = new Iframe({
+            ...DEFAULT_OPTIONS,
+            container,
+            iframeAttributes: {
+                sandbox: ['allow-scripts', 'allow-same-origin', 'allow-popups'],
+                allow: 'clipboard-write; fullscreen',
+                referrerPolicy: 'strict-origin-when-cross-origin',
+                title: 'Sales dashboard',
+                'aria-label': 'Sales dashboard',
+            },
+        });
+        const sandboxCallOrder = setAttributeSpy.mock.invocationCallOrder[0];
+        setAttributeSpy.mockRestore();
+
+        const element = iframe.getIframe();
+        expect(element.getAttribute('sandbox')).toEqual('allow-scripts allow-same-origin allow-popups');
+        expect(element.allow).toEqual('clipboard-write; fullscreen');
+        expect(element.referrerPolicy).toEqual('strict-origin-when-cross-origin');
+        expect(element.title).toEqual('Sales dashboard');
+        expect(element.getAttribute('aria-label')).toEqual('Sales dashboard');
+        expect(sandboxCallOrder).toBeLessThan(containerAppendChildSpy.mock.invocationCallOrder[0]);
+    });
+
+    it('should describe the iframe attributes that prevent the experience from loading', () => {
+        expect(
+            Iframe.validateAttributes({
+                sandbox: ['allow-scripts', 'allow-everything'],
+                referrerPolicy: 'no-referrer',
+                'aria-describedby': 'description',
+            })
+        ).toEqual([
+            "'allow-everything' is not a sandbox token",
+            "sandbox must include 'allow-same-origin'",
+            "referrerPolicy 'no-referrer' does not send the embedding domain to QuickSight",
+        ]);
+        expect(
+            Iframe.validateAttributes({
+                allow: true,
+                title: 5,
+                src: 'https://test.amazon.com',
+            } as unknown as IframeAttributes)
+        ).toEqual(['allow must be a string', 'title must be a string', "'src' is not a supported iframe attribute"]);
+    });
+    describe('Placeholder states', () => {
+        const createPlaceholder = ({state, errorCode, retry}: PlaceholderRenderContext) => {
+            const placeholder = window.document.createElement('button');
+            placeholder.className = `placeholder-${state}`;
+            placeholder.textContent = errorCode ?? state;
+            placeholder.addEventListener('click', retry);
+            return placeholder;
+        };
+
+        it('should render the placeholder of each state in place of the iframe', () => {
+            const container = window.document.createElement('div');
+            const onRetry = jest.fn();
+            const iframe = new Iframe({
+                ...DEFAULT_OPTIONS,
+                container,
+                onRetry,
+                withIframePlaceholder: {
+                    loading: createPlaceholder,
+                    error: createPlaceholder,
+                    sessionExpired: createPlaceholder,
+                },
+            });
+
+            expect(container.querySelector('.placeholder-LOADING')).not.toBeNull();
+            expect(iframe.getIframe().style.opacity).toEqual('0');
+
+            iframe.getIframe().dispatchEvent(new Event('load'));
+
+            expect(iframe.getPlaceholderState()).toEqual(PlaceholderState.HIDDEN);
+            expect(container.querySelector(`#${TEST_ID}-placeholder`)).toBeNull();
+            expect(iframe.getIframe().style.opacity).toEqual('1');
+
+            iframe.setPlaceholderState(PlaceholderState.SESSION_EXPIRED, 'SESSION_EXPIRED');
+
+            const placeholder = container.querySelector<HTMLElement>(`#${TEST_ID}-placeholder`);
+            expect(placeholder?.nextSibling).toBe(iframe.getIframe());
+            expect(placeholder?.children.length).toEqual(1);
+            expect(placeholder?.textContent).toEqual('SESSION_EXPIRED');
+            expect(iframe.getIframe().style.opacity).toEqual('0');
+
+            container.querySelector<HTMLElement>('.placeholder-SESSION_EXPIRED')?.click();
+            expect(onRetry).toBeCalledTimes(1);
+
+            iframe.setPlaceholderState(PlaceholderState.ERROR, 'INTERNAL_ERROR');
+            expect(placeholder?.children.length).toEqual(1);
+            expect(placeholder?.textContent).toEqual('INTERNAL_ERROR');
+        });
+
+        it('should show the iframe in states without a placeholder', () => {
+            const container = window.document.createElement('div');
+            const iframe = new Iframe({...DEFAULT_OPTIONS, container, withIframePlaceholder: {}});
+
+            expect(container.querySelector('svg')).not.toBeNull();
+
+            iframe.setPlaceholderState(PlaceholderState.TIMED_OUT);
+
+            expect(iframe.getPlaceholderState()).toEqual(PlaceholderState.TIMED_OUT);
+            expect(container.querySelector(`#${TEST_ID}-placeholder`)).toBeNull();
+            expect(iframe.getIframe().style.opacity).toEqual('1');
+        });
+
+        it('should hide the timed out placeholder when the iframe loads after all', () => {
+            const container = window.document.createElement('div');
+            const iframe = new Iframe({
+                ...DEFAULT_OPTIONS,
+                container,
+                withIframePlaceholder: {timedOut: createPlaceholder},
+            });
+
+            iframe.setPlaceholderState(PlaceholderState.TIMED_OUT);
+            expect(container.querySelector('.placeholder-TIMED_OUT')).not.toBeNull();
+
+            iframe.getIframe().dispatchEvent(new Event('load'));
+
+            expect(container.querySelector(`#${TEST_ID}-placeholder`)).toBeNull();
+        });
+
+        it('should ignore placeholder states when created without placeholders', () => {
+            const container = window.document.createElement('div');
+            const iframe = new Iframe({...DEFAULT_OPTIONS, container});
+
+            iframe.setPlaceholderState(PlaceholderState.ERROR);
+
+            expect(iframe.getPlaceholderState()).toEqual(PlaceholderState.HIDDEN);
+            expect(container.children.length).toEqual(1);
+        });
     });
 });
@@ -0,0 +1,54 @@
+import {
+    allValuesParameter,
+    dateParameter,
+    formatDateParameterValue,
+    numberParameter,
+    stringParameter,
+    validateParameterNames,
+} from '@common/parameters/parameter-builders';
+import {ALL_VALUES} from '@common/parameters/types';
+import {InvalidParameterError} from '@common/errors/errors';
+import {EmbeddingErrorCode} from '@common/errors/types';
+
+describe('Parameter builders', () => {
+    const TEST_DATE = new Date(Date.UTC(2023, 4, 9, 7, 5, 3));
+
+    it('should build single and multi value parameters', () => {
+        expect(stringParameter('State', 'WA')).toEqual({Name: 'State', Values: ['WA']});
+        expect(stringParameter('States', ['WA', 'OR'])).toEqual({Name: 'States', Values: ['WA', 'OR']});
+        expect(numberParameter('Year', 2023)).toEqual({Name: 'Year', Values: [2023]});
+        expect(numberParameter('Years', [2022, 2023])).toEqual({Name: 'Years', Values: [2022, 2023]});
+        expect(allValuesParameter('State')).toEqual({Name: 'State', Values: [ALL_VALUES]});
+    });
+
+    it('should format dates the way QuickSight reads them', () => {
+        expect(dateParameter('Start', TEST_DATE)).toEqual({Name: 'Start', Values: ['2023-05-09 07:05:03']});
+        expect(dateParameter('Range', [TEST_DATE, new Date(Date.UTC(2023, 11, 31, 23, 59, 59))])).toEqual({
+            Name: 'Range',
+            Values: ['2023-05-09 07:05:03', '2023-12-31 23:59:59'],
+        });
+
+        const localDate = new Date(2023, 0, 2, 3, 4, 5);
+        expect(formatDateParameterValue(localDate, {timeZone: 'local'})).toEqual('2023-01-02 03:04:05');
+    });
+
+    it.each([
+        ['without a name', () => stringParameter('', 'WA')],
+        ['without values', () => stringParameter('State', [])],
+        ['with a value of another type', () => stringParameter('State', [1 as unknown as string])],
+        ['with a number that is not finite', () => numberParameter('Year', NaN)],
+        ['with an invalid date', () => dateParameter('Start', new Date('not a date'))],
+    ])('should throw InvalidParameterError for a parameter %s', (description, buildParameter) => {
+        expect(buildParameter).toThrow(InvalidParameterError);
+        expect(buildParameter).toThrow(expect.objectContaining({code: EmbeddingErrorCode.INVALID_PARAMETER}));
+    });
+
+    it('should describe the parameters that are not returned by getParameters', () => {
+        const knownParameters = [{Name: 'State', Values: ['WA']}];
+
+        expect(validateParameterNames([stringParameter('State', 'OR')], knownParameters)).toEqual([]);
+        expect(
+            validateParameterNames([stringParameter('State', 'OR'), numberParameter('Year', 2023)], knownParameters)
+        ).toEqual(['Parameter Year does not exist in the experience']);
+    });
+});
@@ -0,0 +1,58 @@
+import {TrafficRecorder} from '@common/recorder/traffic-recorder';
+import {TrafficEntryType} from '@common/recorder/types';
+import {PostMessageEvent} from '@common/events/events';
+import {MessageEventName} from '@common/events/types';
+import {ExperienceType} from '@experience/base-experience/types';
+
+describe('TrafficRecorder', () => {
+    const TEST_EXPERIENCE_ID = '1234-CONTROL';
+    const messageEvent = new PostMessageEvent(
+        MessageEventName.GET_SHEETS,
+        {contextId: '1234', experienceType: ExperienceType.CONTROL},
+        'eventId',
+        0,
+        'testSdkVersion'
+    );
+
+    it('should not record until it is started', () => {
+        const recorder = new TrafficRecorder('testSdkVersion');
+
+        recorder.record(TrafficEntryType.COMMAND, TEST_EXPERIENCE_ID, MessageEventName.GET_SHEETS, messageEvent);
+
+        expect(recorder.isRecording()).toBe(false);
+        expect(recorder.getRecording().entries).toEqual([]);
+    });
+
+    it('should record entries until it is stopped and export them as JSON', () => {
+        const recorder = new TrafficRecorder('testSdkVersion').start();
+
+        recorder.record(TrafficEntryType.COMMAND, TEST_EXPERIENCE_ID, MessageEventName.GET_SHEETS, messageEvent);
+        const recording = recorder.stop();
+        recorder.record(TrafficEntryType.RESPONSE, TEST_EXPERIENCE_ID, MessageEventName.GET_SHEETS, messageEvent);
+
+        expect(recording).toEqual({
+            sdkVersion: 'testSdkVersion',
+            startedAt: expect.any(Number),
+            stoppedAt: expect.any(Number),
+            entries: [
+                {
+                    type: TrafficEntryType.COMMAND,
+                    timestamp: expect.any(Number),
+                    experienceId: TEST_EXPERIENCE_ID,
+                    eventName: MessageEventName.GET_SHEETS,
+                    messageEvent,
+                },
+            ],
+        });
+        expect(JSON.parse(recorder.export())).toEqual(JSON.parse(JSON.stringify(recording)));
+    });
+
+    it('should discard the previous recording when started again', () => {
+        const recorder = new TrafficRecorder('testSdkVersion').start();
+        recorder.record(TrafficEntryType.COMMAND, TEST_EXPERIENCE_ID, MessageEventName.GET_SHEETS, messageEvent);
+
+        recorder.start();
+
+        expect(recorder.getRecording().entries).toEqual([]);
+    });
+});
@@ -0,0 +1,146 @@
+import {MessageTransport} from '@common/transport/message-transport';
+import {EmbeddingTransportOptions} from '@common/transport/types';
+import {PostMessageEvent} from '@common/events/events';
+import {ExperienceType} from '@experience/base-experience/types';
+import {MessageEventName} from '@common/events/types';
+
+class FakeMessagePort {
+    public onmessage: ((event: MessageEvent) => void) | null = null;
+    public remotePort?: FakeMessagePort;
+    public postMessage = jest.fn((data: unknown) => this.remotePort?.onmessage?.(new MessageEvent('message', {data})));
+    public close = jest.fn();
+}
+
+class FakeMessageChannel {
+    public port1 = new FakeMessagePort();
+    public port2 = new FakeMessagePort();
+
+    constructor() {
+        this.port1.remotePort = this.port2;
+        this.port2.remotePort = this.port1;
+    }
+}
+
+describe('MessageTransport', () => {
+    const TEST_ORIGIN = 'https://test.amazon.com';
+    const eventTarget = {contextId: '1234', experienceType: ExperienceType.CONTROL};
+    const createMessage = (eventName: MessageEventName, eventId: string, message?: {success: boolean}) =>
+        new PostMessageEvent(eventName, eventTarget, eventId, 0, 'testSdkVersion', message);
+
+    let mockPostMessage: jest.Mock;
+    let options: EmbeddingTransportOptions;
+    let transport: MessageTransport;
+
+    const establishChannel = () => {
+        transport.connect(createMessage(MessageEventName.ESTABLISH_MESSAGE_CHANNEL, 'handshake'));
+        const [, , [hostPort]] = mockPostMessage.mock.calls[0];
+        hostPort.postMessage(createMessage(MessageEventName.ESTABLISH_MESSAGE_CHANNEL, 'handshake', {success: true}));
+
+        return hostPort as FakeMessagePort;
+    };
+
+    beforeEach(() => {
+        Object.defineProperty(window, 'MessageChannel', {value: FakeMessageChannel, configurable: true});
+        mockPostMessage = jest.fn();
+        options = {
+            eventTarget,
+            getTargetWindow: () => ({postMessage: mockPostMessage} as unknown as Window),
+            getTargetOrigin: () => TEST_ORIGIN,
+            acceptsMessage: message => message?.eventId === '1234',
+            isTrustedMessage: event => event.origin === TEST_ORIGIN,
+            onMessage: jest.fn(),
+            onUntrustedMessage: jest.fn(),
+            onChannelChange: jest.fn(),
+        };
+        transport = new MessageTransport(options);
+    });
+
+    afterEach(() => {
+        transport.close();
+        Reflect.deleteProperty(window, 'MessageChannel');
+    });
+
+    it('should post messages to the target window until a channel is established', () => {
+        const message = createMessage(MessageEventName.GET_SHEETS, '1234');
+
+        transport.postMessage(message);
+
+        expect(transport.isChannelEstablished()).toBe(false);
+        expect(mockPostMessage).toBeCalledWith(message, TEST_ORIGIN);
+    });
+
+    it('should only pass on accepted messages from trusted origins', () => {
+        const message = createMessage(MessageEventName.GET_SHEETS, '1234', {success: true});
+
+        window.dispatchEvent(new MessageEvent('message', {data: {eventId: 'unrelated'}, origin: TEST_ORIGIN}));
+        window.dispatchEvent(new MessageEvent('message', {data: message, origin: 'https://attacker.com'}));
+        window.dispatchEvent(new MessageEvent('message', {data: message, origin: TEST_ORIGIN}));
+
+        expect(options.onUntrustedMessage).toBeCalledTimes(1);
+        expect(options.onMessage).toBeCalledTimes(1);
+        expect(options.onMessage).toBeCalledWith(message);
+    });
+
+    it('should exchange messages over the port once the frame accepts it', () => {
+        const hostPort = establishChannel();
+        const message = createMessage(MessageEventName.GET_SHEETS, '1234');
+        const response = createMessage(MessageEventName.GET_SHEETS, '1234', {success: true});
+
+        expect(mockPostMessage).toBeCalledWith(
+            expect.objectContaining({eventName: MessageEventName.ESTABLISH_MESSAGE_CHANNEL}),
+            TEST_ORIGIN,
+            [hostPort]
+        );
+        expect(transport.isChannelEstablished()).toBe(true);
+        expect(options.onChannelChange).toBeCalledWith(true);
+
+        transport.postMessage(message);
+        hostPort.postMessage(response);
+        window.dispatchEvent(new MessageEvent('message', {data: response, origin: TEST_ORIGIN}));
+
+        expect(mockPostMessage).toBeCalledTimes(1);
+        expect(hostPort.remotePort?.postMessage).toBeCalledWith(message);
+        expect(options.onMessage).toBeCalledTimes(1);
+        expect(options.onMessage).toBeCalledWith(response);
+    });
+
+    it('should keep using the window when the frame does not answer the handshake', () => {
+        transport.connect(createMessage(MessageEventName.ESTABLISH_MESSAGE_CHANNEL, 'handshake'));
+        const [, , [hostPort]] = mockPostMessage.mock.calls[0];
+
+        hostPort.postMessage(createMessage(MessageEventName.ESTABLISH_MESSAGE_CHANNEL, 'other', {success: true}));
+
+        expect(transport.isChannelEstablished()).toBe(false);
+        expect(options.onChannelChange).not.toBeCalled();
+    });
+
+    it('should fall back to the window when disconnected', () => {
+        const hostPort = establishChannel();
+
+        transport.disconnect();
+
+        expect(hostPort.remotePort?.close).toBeCalled();
+        expect(transport.isChannelEstablished()).toBe(false);
+        expect(options.onChannelChange).toHaveBeenLastCalledWith(false);
+
+        window.dispatchEvent(new MessageEvent('message', {data: {eventId: '1234'}, origin: TEST_ORIGIN}));
+        expect(options.onMessage).toBeCalledTimes(1);
+    });
+
+    it('should not offer a port when MessageChannel is not supported', () => {
+        Reflect.deleteProperty(window, 'MessageChannel');
+
+        transport.connect(createMessage(MessageEventName.ESTABLISH_MESSAGE_CHANNEL, 'handshake'));
+
+        expect(mockPostMessage).not.toBeCalled();
+    });
+
+    it('should stop listening to the window when closed', () => {
+        transport.close();
+
+        window.dispatchEvent(new MessageEvent('message', {data: {eventId: '1234'}, origin: TEST_ORIGIN}));
+
+        expect(options.onMessage).not.toBeCalled();
+        expect(options.onChannelChange).not.toBeCalled();
+    });
+});
@@ -0,0 +1,66 @@
+import {validateDatapoints, validateMessage} from '@common/validation/message-schemas';
+import {arraySchema, numericSchema, objectSchema, optionalSchema, stringSchema} from '@common/validation/schema';
+import {MessageEventName} from '@common/events/types';
+
+describe('Message schemas', () => {
+    const TEST_DATAPOINT = {
+        FormattedValues: [{String: 'France'}],
+        RawValues: [{String: 'France'}],
+        Columns: [{Field: {String: {Column: {DataSetIdentifier: 'data', ColumnName: 'country'}}}}],
+        SelectedColumnIndex: 0,
+    };
+
+    it('should describe every problem of a value with its path', () => {
+        const schema = objectSchema({
+            name: stringSchema,
+            sizes: arraySchema(numericSchema),
+            title: optionalSchema(stringSchema),
+        });
+
+        expect(schema({name: 'sheet', sizes: [1, '2']}, 'value')).toEqual([]);
+        expect(schema({name: 'sheet', sizes: [], title: null}, 'value')).toEqual([]);
+        expect(schema({name: 1, sizes: ['auto', 3], title: 1}, 'value')).toEqual([
+            'value.name must be a string',
+            'value.sizes[0] must be numeric',
+            'value.title must be a string',
+        ]);
+        expect(schema([], 'value')).toEqual(['value must be an object']);
+        expect(schema({name: 'sheet', sizes: '1'}, 'value')).toEqual(['value.sizes must be an array']);
+    });
+
+    it('should validate the messages of the info events', () => {
+        expect(validateMessage(MessageEventName.SIZE_CHANGED, {height: '500'})).toEqual([]);
+        expect(validateMessage(MessageEventName.SIZE_CHANGED, {height: ''})).toEqual([
+            'message.height must be numeric',
+        ]);
+        expect(
+            validateMessage(MessageEventName.PARAMETERS_CHANGED, {changedParameters: [{Name: 'country', Values: []}]})
+        ).toEqual([]);
+        expect(validateMessage(MessageEventName.SELECTED_SHEET_CHANGED, {selectedSheet: {}})).toEqual([
+            'message.selectedSheet.SheetId must be a string',
+        ]);
+        expect(validateMessage(MessageEventName.CONTENT_LOADED, undefined)).toEqual([]);
+        expect(validateMessage(MessageEventName.EXPERIENCE_INITIALIZED, 'anything')).toEqual([]);
+    });
+
+    it('should not validate the messages of events without a schema', () => {
+        expect(validateMessage(MessageEventName.GET_SHEETS, 'anything')).toEqual([]);
+    });
+
+    it('should validate the datapoints of invoked callback operations', () => {
+        expect(
+            validateMessage(MessageEventName.CALLBACK_OPERATION_INVOKED, {
+                CustomActionId: 'action',
+                DashboardId: 'dashboard',
+                VisualId: 'visual',
+                SheetId: 'sheet',
+                Datapoints: [TEST_DATAPOINT],
+            })
+        ).toEqual([]);
+        expect(validateDatapoints([TEST_DATAPOINT])).toEqual([]);
+        expect(validateDatapoints([{...TEST_DATAPOINT, RawValues: undefined, SelectedColumnIndex: '0'}])).toEqual([
+            'Datapoints[0].RawValues must be an array',
+            'Datapoints[0].SelectedColumnIndex must be a number',
+        ]);
+    });
+});
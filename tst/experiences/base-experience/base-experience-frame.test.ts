@@ -8,17 +8,29 @@ import {
 } from '@experience/base-experience/types';
 import {ControlOptions} from '@experience/control-experience/types';
 import {EventListener} from '@common/event-manager/types';
-import {MessageEventName} from '@common/events/types';
+import {ChangeEventLevel, ChangeEventName, MessageEventName} from '@common/events/types';
 import {BaseExperienceFrame} from '@experience/base-experience/frame/experience-frame';
 import {EventManager} from '@common/event-manager/event-manager';
 import {BaseExperience} from '@experience/base-experience/base-experience';
-import {EmbeddingIFrameElement} from '@common/iframe/types';
+import {EmbeddingIFrameElement, PlaceholderRenderContext} from '@common/iframe/types';
+import {
+    CommandAbortedError,
+    CommandTimeoutError,
+    FrameNotCreatedError,
+    FrameTimeoutError,
+    FrameUnmountedError,
+    InvalidExperienceError,
+} from '@common/errors/errors';
+import {v4} from 'uuid';
+import {EmbeddingTransportOptions} from '@common/transport/types';
+import {PostMessageEvent} from '@common/events/events';
+import {Iframe} from '@common/iframe/iframe';
 jest.setTimeout(10000);
 
 jest.mock('uuid', () => {
     return {
         __esModule: true,
-        v4: () => '1234-1234',
+        v4: jest.fn(() => '1234-1234'),
     };
 });
 
@@ -37,9 +49,10 @@ class TestExperienceFrame extends BaseExperienceFrame<ContentOptions, Transforme
         d: TransformedContentOptions,
         e: InternalExperiences,
         f: string,
-        g?: EventListener
+        g?: EventListener,
+        h?: (url: string) => void
     ) {
-        super(a, b, c, d, e, f, g);
+        super(a, b, c, d, e, f, g, h);
 
         this.experience = {
             experienceType: ExperienceType.CONTROL,
@@ -48,7 +61,7 @@ class TestExperienceFrame extends BaseExperienceFrame<ContentOptions, Transforme
         this.experienceId = '1234';
     }
 
-    buildExperienceUrl = () => '';
+    buildExperienceUrl = (baseUrl: string) => baseUrl;
 }
 
 describe('BaseExperience', () => {
@@ -150,6 +163,949 @@ describe('BaseExperience', () => {
         expect(acknowledge).toEqual({success: true});
     });
 
+    it('should reject pending messages and emit FRAME_REMOVED when unmounted', async () => {
+        const onChangeSpy = jest.fn();
+        const eventManager = new EventManager();
+        const testExperience = new TestExperienceFrame(
+            {
+                container: TEST_CONTAINER,
+                url: 'https://localhost',
+                onChange: onChangeSpy,
+            },
+            {
+                contextId: '',
+                eventManager,
+                urlInfo: {sessionId: '', host: ''},
+            },
+            {},
+            {},
+            {contextId: '1234', experienceType: ExperienceType.CONTROL},
+            '1234'
+        );
+
+        const frame = window.document.createElement('iframe') as EmbeddingIFrameElement;
+        Object.defineProperty(frame, 'contentWindow', {
+            writable: false,
+            value: {
+                postMessage: jest.fn(),
+            },
+        });
+        testExperience.iframe = frame;
+        jest.spyOn(eventManager, 'cleanUpCallbacksForExperience');
+
+        const pendingResponse = testExperience.send({
+            eventName: MessageEventName.GET_SHEETS,
+            eventTarget: {
+                contextId: '1234',
+                experienceType: ExperienceType.CONTROL,
+            },
+        });
+
+        testExperience.unmount();
+        testExperience.unmount();
+
+        await expect(pendingResponse).rejects.toThrow('The experience frame has been unmounted');
+        expect(testExperience.iframe).toBeNull();
+        expect(eventManager.cleanUpCallbacksForExperience).toBeCalledTimes(1);
+        expect(onChangeSpy).toHaveBeenLastCalledWith(
+            expect.objectContaining({
+                eventName: ChangeEventName.FRAME_REMOVED,
+                message: 'The frame was unmounted',
+            }),
+            {frame: null}
+        );
+    });
+
+    it('should queue messages until the experience is initialized', async () => {
+        const testExperience = new TestExperienceFrame(
+            {
+                container: TEST_CONTAINER,
+                url: 'https://localhost',
+            },
+            {
+                contextId: '',
+                eventManager: new EventManager(),
+                urlInfo: {sessionId: '', host: ''},
+            },
+            {},
+            {},
+            {contextId: '1234', experienceType: ExperienceType.CONTROL},
+            '1234'
+        );
+
+        const frame = window.document.createElement('iframe') as EmbeddingIFrameElement;
+        const mockPostMessage = jest.fn();
+        Object.defineProperty(frame, 'contentWindow', {
+            writable: false,
+            value: {
+                postMessage: mockPostMessage,
+            },
+        });
+        testExperience.iframe = frame;
+
+        const eventTarget = {
+            contextId: '1234',
+            experienceType: ExperienceType.CONTROL,
+        };
+        (v4 as jest.Mock).mockReturnValueOnce('1234-0001').mockReturnValueOnce('1234-0002');
+        const firstResponse = testExperience.send({eventName: MessageEventName.GET_SHEETS, eventTarget});
+        const secondResponse = testExperience.send({eventName: MessageEventName.GET_PARAMETERS, eventTarget});
+
+        await Promise.resolve();
+        expect(mockPostMessage).not.toBeCalled();
+
+        testExperience.onMessage({eventName: MessageEventName.EXPERIENCE_INITIALIZED, eventTarget});
+        await testExperience.whenReady();
+        await new Promise(resolve => setTimeout(resolve));
+
+        expect(mockPostMessage).toHaveBeenNthCalledWith(
+            1,
+            expect.objectContaining({eventName: MessageEventName.GET_SHEETS}),
+            'https://localhost'
+        );
+        expect(mockPostMessage).toHaveBeenNthCalledWith(
+            2,
+            expect.objectContaining({eventName: MessageEventName.GET_PARAMETERS}),
+            'https://localhost'
+        );
+
+        ['1234-0001', '1234-0002'].forEach(eventId =>
+            window.dispatchEvent(
+                new MessageEvent('message', {
+                    data: {eventId, message: {success: true}},
+                    source: frame.contentWindow,
+                })
+            )
+        );
+
+        await expect(firstResponse).resolves.toEqual({success: true});
+        await expect(secondResponse).resolves.toEqual({success: true});
+    });
+
+    it('should reject whenReady when the frame is unmounted before the experience is initialized', async () => {
+        const testExperience = new TestExperienceFrame(
+            {
+                container: TEST_CONTAINER,
+                url: 'https://localhost',
+            },
+            {
+                contextId: '',
+                eventManager: new EventManager(),
+                urlInfo: {sessionId: '', host: ''},
+            },
+            {},
+            {},
+            {contextId: '1234', experienceType: ExperienceType.CONTROL},
+            '1234'
+        );
+
+        const whenReady = testExperience.whenReady();
+        testExperience.unmount();
+
+        await expect(whenReady).rejects.toThrow('The experience frame has been unmounted');
+        await expect(whenReady).rejects.toThrow(FrameUnmountedError);
+    });
+
+    describe('Transport', () => {
+        it('should exchange messages through the transport created by the embedding context', async () => {
+            const eventTarget = {contextId: '1234', experienceType: ExperienceType.CONTROL};
+            const transport = {postMessage: jest.fn(), connect: jest.fn(), disconnect: jest.fn(), close: jest.fn()};
+            const createTransport = jest.fn((options: EmbeddingTransportOptions) => {
+                transport.postMessage.mockImplementation((message: PostMessageEvent) =>
+                    options.onMessage({...message, message: 'testSheetId'})
+                );
+                return transport;
+            });
+            const testExperience = new TestExperienceFrame(
+                {
+                    container: TEST_CONTAINER,
+                    url: 'https://localhost',
+                },
+                {
+                    contextId: '',
+                    eventManager: new EventManager(),
+                    urlInfo: {sessionId: '', host: ''},
+                    createTransport,
+                },
+                {},
+                {},
+                eventTarget,
+                '1234'
+            );
+            testExperience.iframe = window.document.createElement('iframe') as EmbeddingIFrameElement;
+            testExperience.onMessage({eventName: MessageEventName.EXPERIENCE_INITIALIZED, eventTarget});
+
+            await expect(
+                testExperience.send({eventName: MessageEventName.GET_SELECTED_SHEET_ID, eventTarget})
+            ).resolves.toEqual({success: true, message: 'testSheetId'});
+            expect(createTransport).toBeCalledTimes(1);
+            expect(transport.postMessage).toBeCalledWith(
+                expect.objectContaining({eventName: MessageEventName.GET_SELECTED_SHEET_ID})
+            );
+
+            testExperience.unmount();
+            expect(transport.close).toBeCalled();
+        });
+    });
+
+    describe('Command options', () => {
+        const eventTarget = {
+            contextId: '1234',
+            experienceType: ExperienceType.CONTROL,
+        };
+        let mockPostMessage: jest.Mock;
+
+        const createInitializedFrame = (controlOptions: Partial<ControlOptions> = {}, onChange?: EventListener) => {
+            const testExperience = new TestExperienceFrame(
+                {
+                    container: TEST_CONTAINER,
+                    url: 'https://localhost',
+                    onChange,
+                },
+                {
+                    contextId: '',
+                    eventManager: new EventManager(),
+                    urlInfo: {sessionId: '', host: ''},
+                    ...controlOptions,
+                },
+                {},
+                {},
+                {contextId: '1234', experienceType: ExperienceType.CONTROL},
+                '1234'
+            );
+
+            const frame = window.document.createElement('iframe') as EmbeddingIFrameElement;
+            Object.defineProperty(frame, 'contentWindow', {
+                writable: false,
+                value: {
+                    postMessage: mockPostMessage,
+                },
+            });
+            testExperience.iframe = frame;
+            testExperience.onMessage({eventName: MessageEventName.EXPERIENCE_INITIALIZED, eventTarget});
+
+            return testExperience;
+        };
+
+        beforeEach(() => {
+            mockPostMessage = jest.fn();
+        });
+
+        it('should reject with CommandTimeoutError after retrying the command', async () => {
+            const testExperience = createInitializedFrame();
+
+            const response = testExperience.send(
+                {eventName: MessageEventName.GET_SHEETS, eventTarget},
+                {timeoutMs: 10, retries: 2}
+            );
+
+            await expect(response).rejects.toThrow(CommandTimeoutError);
+            await expect(response).rejects.toMatchObject({
+                message: 'GET_SHEETS timed out',
+                eventName: MessageEventName.GET_SHEETS,
+                timeoutMs: 10,
+            });
+            expect(mockPostMessage).toBeCalledTimes(3);
+        });
+
+        it('should ignore responses from untrusted origins', async () => {
+            const onChangeSpy = jest.fn();
+            const testExperience = createInitializedFrame(
+                {
+                    urlInfo: {sessionId: '', host: 'https://test.amazon.com'},
+                    allowedOrigins: ['https://proxy.example.com'],
+                },
+                onChangeSpy
+            );
+
+            const response = testExperience.send({eventName: MessageEventName.GET_SHEETS, eventTarget});
+            await new Promise(resolve => setTimeout(resolve));
+            const source = testExperience.iframe?.contentWindow;
+
+            window.dispatchEvent(
+                new MessageEvent('message', {
+                    data: {eventId: '1234-1234', message: ['untrusted']},
+                    origin: 'https://attacker.com',
+                    source,
+                })
+            );
+            window.dispatchEvent(
+                new MessageEvent('message', {
+                    data: {eventId: '1234-1234', message: ['trusted']},
+                    origin: 'https://proxy.example.com',
+                    source,
+                })
+            );
+
+            await expect(response).resolves.toEqual({success: true, message: ['trusted']});
+            expect(onChangeSpy).toBeCalledWith(
+                expect.objectContaining({
+                    eventName: ChangeEventName.UNTRUSTED_MESSAGE_ORIGIN,
+                    data: {origin: 'https://attacker.com', eventName: MessageEventName.GET_SHEETS},
+                }),
+                expect.any(Object)
+            );
+        });
+
+        it('should ignore responses posted by the embedded frame of another experience', async () => {
+            const testExperience = createInitializedFrame({urlInfo: {sessionId: '', host: 'https://test.amazon.com'}});
+            const otherFrame = window.document.createElement('iframe');
+            otherFrame.className = Iframe.IFRAME_CLASS_NAME;
+            window.document.body.appendChild(otherFrame);
+
+            const response = testExperience.send({eventName: MessageEventName.GET_SHEETS, eventTarget});
+            await new Promise(resolve => setTimeout(resolve));
+
+            [otherFrame.contentWindow, testExperience.iframe?.contentWindow].forEach((source, index) =>
+                window.dispatchEvent(
+                    new MessageEvent('message', {
+                        data: {eventId: '1234-1234', message: [`response${index}`]},
+                        origin: 'https://test.amazon.com',
+                        source,
+                    })
+                )
+            );
+            otherFrame.remove();
+
+            await expect(response).resolves.toEqual({success: true, message: ['response1']});
+        });
+
+        it('should use the command options of the embedding context by default', async () => {
+            const testExperience = createInitializedFrame({commandOptions: {timeoutMs: 10}});
+
+            await expect(
+                testExperience.send({eventName: MessageEventName.GET_SHEETS, eventTarget})
+            ).rejects.toMatchObject({timeoutMs: 10});
+        });
+
+        it('should reject with CommandAbortedError when the signal aborts', async () => {
+            const testExperience = createInitializedFrame();
+            const abortController = new AbortController();
+
+            const response = testExperience.send(
+                {eventName: MessageEventName.GET_SHEETS, eventTarget},
+                {signal: abortController.signal}
+            );
+            await new Promise(resolve => setTimeout(resolve));
+            abortController.abort();
+
+            await expect(response).rejects.toThrow(CommandAbortedError);
+            expect(mockPostMessage).toBeCalledTimes(1);
+        });
+
+        it('should not add a window listener for each command', async () => {
+            const addEventListenerSpy = jest.spyOn(window, 'addEventListener');
+            const testExperience = createInitializedFrame();
+
+            const responses = [MessageEventName.GET_SHEETS, MessageEventName.GET_PARAMETERS].map(eventName =>
+                testExperience.send({eventName, eventTarget}, {timeoutMs: 10})
+            );
+            await Promise.allSettled(responses);
+
+            expect(mockPostMessage).toBeCalledTimes(2);
+            expect(addEventListenerSpy.mock.calls.filter(([type]) => type === 'message')).toHaveLength(1);
+            addEventListenerSpy.mockRestore();
+        });
+
+        it('should not send the command when the signal is already aborted', async () => {
+            const testExperience = createInitializedFrame();
+            const abortController = new AbortController();
+            abortController.abort();
+
+            await expect(
+                testExperience.send(
+                    {eventName: MessageEventName.GET_SHEETS, eventTarget},
+                    {signal: abortController.signal}
+                )
+            ).rejects.toThrow('GET_SHEETS was aborted');
+            expect(mockPostMessage).not.toBeCalled();
+        });
+
+        it('should drop a queued command when the signal aborts before the experience is initialized', async () => {
+            const testExperience = new TestExperienceFrame(
+                {
+                    container: TEST_CONTAINER,
+                    url: 'https://localhost',
+                },
+                {
+                    contextId: '',
+                    eventManager: new EventManager(),
+                    urlInfo: {sessionId: '', host: ''},
+                },
+                {},
+                {},
+                {contextId: '1234', experienceType: ExperienceType.CONTROL},
+                '1234'
+            );
+            testExperience.iframe = window.document.createElement('iframe') as EmbeddingIFrameElement;
+            const abortController = new AbortController();
+
+            const response = testExperience.send(
+                {eventName: MessageEventName.GET_SHEETS, eventTarget},
+                {signal: abortController.signal}
+            );
+            abortController.abort();
+
+            await expect(response).rejects.toThrow(CommandAbortedError);
+        });
+    });
+
+    describe('Lazy embedding', () => {
+        const internalExperience: InternalExperiences = {contextId: '1234', experienceType: ExperienceType.CONTROL};
+        const observe = jest.fn();
+        const disconnect = jest.fn();
+        let onIntersection: (entries: Partial<IntersectionObserverEntry>[]) => void;
+        let intersectionObserverSpy: jest.Mock;
+
+        const createLazyExperience = (
+            lazy: FrameOptions['lazy'],
+            onChange = jest.fn(),
+            refreshControlFrame?: (url: string) => void,
+            validateSessionUrl?: (url: string) => void
+        ) =>
+            new TestExperienceFrame(
+                {
+                    container: TEST_CONTAINER,
+                    url: 'https://localhost/embed',
+                    lazy,
+                    onChange,
+                },
+                {
+                    contextId: '',
+                    eventManager: new EventManager(),
+                    urlInfo: {sessionId: '', host: ''},
+                    timeout: 10000,
+                    refreshControlFrame,
+                },
+                {},
+                {},
+                internalExperience,
+                '1234',
+                undefined,
+                validateSessionUrl
+            );
+
+        beforeEach(() => {
+            observe.mockClear();
+            disconnect.mockClear();
+            intersectionObserverSpy = jest.fn(callback => {
+                onIntersection = callback;
+                return {observe, disconnect};
+            });
+            Object.defineProperty(window, 'IntersectionObserver', {
+                value: intersectionObserverSpy,
+                configurable: true,
+                writable: true,
+            });
+        });
+
+        afterEach(() => {
+            delete (window as {IntersectionObserver?: unknown}).IntersectionObserver;
+        });
+
+        it('should create the frame with a minted url once the container scrolls into view', async () => {
+            const onChange = jest.fn();
+            const urlProvider = jest.fn().mockResolvedValue('https://localhost/minted');
+            const testExperience = createLazyExperience({urlProvider, rootMargin: '200px'}, onChange);
+
+            testExperience.mountExperienceIframe();
+
+            expect(TEST_CONTAINER.querySelector('iframe')).toBeNull();
+            expect(intersectionObserverSpy).toBeCalledWith(expect.any(Function), {rootMargin: '200px'});
+            expect(observe).toBeCalledWith(TEST_CONTAINER);
+            expect(onChange).toHaveBeenLastCalledWith(
+                expect.objectContaining({eventName: ChangeEventName.FRAME_DEFERRED}),
+                {frame: null}
+            );
+
+            onIntersection([{isIntersecting: false}]);
+            expect(urlProvider).not.toBeCalled();
+
+            onIntersection([{isIntersecting: true}]);
+            await new Promise(resolve => setTimeout(resolve));
+
+            const iframe = TEST_CONTAINER.querySelector<EmbeddingIFrameElement>('iframe');
+            expect(disconnect).toBeCalled();
+            expect(urlProvider).toBeCalledWith(internalExperience);
+            expect(iframe?.src).toEqual('https://localhost/minted');
+            expect(iframe?.loading).toEqual('lazy');
+            expect(onChange).toBeCalledWith(
+                expect.objectContaining({eventName: ChangeEventName.FRAME_STARTED}),
+                expect.anything()
+            );
+
+            testExperience.unmount();
+        });
+
+        it('should queue commands sent before the container is visible and drop them when unmounted', async () => {
+            const testExperience = createLazyExperience(true);
+            testExperience.mountExperienceIframe();
+
+            const response = testExperience.send({
+                eventName: MessageEventName.GET_SHEETS,
+                eventTarget: internalExperience,
+            });
+            testExperience.unmount();
+
+            await expect(response).rejects.toThrow(CommandAbortedError);
+            expect(disconnect).toBeCalled();
+            expect(TEST_CONTAINER.querySelector('iframe')).toBeNull();
+        });
+
+        it('should queue commands sent while the url is minted', async () => {
+            const testExperience = createLazyExperience({urlProvider: () => new Promise<string>(() => undefined)});
+            testExperience.mountExperienceIframe();
+            onIntersection([{isIntersecting: true}]);
+
+            const response = testExperience.send({
+                eventName: MessageEventName.GET_SHEETS,
+                eventTarget: internalExperience,
+            });
+            testExperience.unmount();
+
+            await expect(response).rejects.toThrow(CommandAbortedError);
+        });
+
+        it('should check the minted url and move the control frame to its session', async () => {
+            const refreshControlFrame = jest.fn();
+            const validateSessionUrl = jest.fn();
+            const testExperience = createLazyExperience(
+                {urlProvider: jest.fn().mockResolvedValue('https://localhost/minted')},
+                jest.fn(),
+                refreshControlFrame,
+                validateSessionUrl
+            );
+
+            testExperience.mountExperienceIframe();
+            onIntersection([{isIntersecting: true}]);
+            await new Promise(resolve => setTimeout(resolve));
+
+            expect(validateSessionUrl).toBeCalledWith('https://localhost/minted');
+            expect(refreshControlFrame).toBeCalledWith('https://localhost/minted');
+            expect(TEST_CONTAINER.querySelector('iframe')?.src).toEqual('https://localhost/minted');
+            testExperience.unmount();
+        });
+
+        it('should not create the frame when the minted url is not allowed', async () => {
+            const testExperience = createLazyExperience(
+                {urlProvider: jest.fn().mockResolvedValue('https://attacker.com/minted')},
+                jest.fn(),
+                () => {
+                    throw new Error('The url is not allowed');
+                }
+            );
+            const whenReady = testExperience.whenReady();
+
+            testExperience.mountExperienceIframe();
+            onIntersection([{isIntersecting: true}]);
+
+            await expect(whenReady).rejects.toThrow('The url is not allowed');
+            expect(TEST_CONTAINER.querySelector('iframe')).toBeNull();
+            await expect(
+                testExperience.send({eventName: MessageEventName.GET_SHEETS, eventTarget: internalExperience})
+            ).rejects.toThrow(FrameNotCreatedError);
+        });
+
+        it('should emit FRAME_NOT_CREATED when the url can not be minted', async () => {
+            const onChange = jest.fn();
+            const testExperience = createLazyExperience(
+                {urlProvider: jest.fn().mockRejectedValue(new Error('Forbidden'))},
+                onChange
+            );
+            const whenReady = testExperience.whenReady();
+
+            testExperience.mountExperienceIframe();
+            onIntersection([{isIntersecting: true}]);
+
+            await expect(whenReady).rejects.toThrow('Minting the url of the frame failed: Forbidden');
+            await expect(whenReady).rejects.toThrow(FrameNotCreatedError);
+            expect(onChange).toHaveBeenLastCalledWith(
+                expect.objectContaining({
+                    eventName: ChangeEventName.FRAME_NOT_CREATED,
+                    message: 'Minting the url of the frame failed: Forbidden',
+                }),
+                {frame: null}
+            );
+            expect(TEST_CONTAINER.querySelector('iframe')).toBeNull();
+        });
+
+        it('should reject commands when the minted url is missing', async () => {
+            const onChange = jest.fn();
+            const testExperience = createLazyExperience({urlProvider: jest.fn().mockResolvedValue('')}, onChange);
+            const whenReady = testExperience.whenReady();
+
+            testExperience.mountExperienceIframe();
+            onIntersection([{isIntersecting: true}]);
+
+            await expect(whenReady).rejects.toThrow('Url is required for the experience');
+            expect(onChange).toHaveBeenLastCalledWith(expect.objectContaining({eventName: ChangeEventName.NO_URL}), {
+                frame: null,
+            });
+        });
+
+        it('should not create the frame when it is unmounted while the url is minted', async () => {
+            const testExperience = createLazyExperience({
+                urlProvider: jest.fn().mockResolvedValue('https://localhost/minted'),
+            });
+
+            testExperience.mountExperienceIframe();
+            onIntersection([{isIntersecting: true}]);
+            testExperience.unmount();
+            await new Promise(resolve => setTimeout(resolve));
+
+            expect(TEST_CONTAINER.querySelector('iframe')).toBeNull();
+        });
+
+        it('should create the frame right away when intersection observers are not supported', async () => {
+            delete (window as {IntersectionObserver?: unknown}).IntersectionObserver;
+            const testExperience = createLazyExperience(true);
+
+            testExperience.mountExperienceIframe();
+            const response = testExperience.send({
+                eventName: MessageEventName.GET_SHEETS,
+                eventTarget: internalExperience,
+            });
+            await Promise.resolve();
+
+            expect(TEST_CONTAINER.querySelector('iframe')?.src).toEqual('https://localhost/embed');
+            testExperience.unmount();
+            await expect(response).rejects.toThrow(CommandAbortedError);
+        });
+    });
+
+    describe('Frame load', () => {
+        const internalExperience: InternalExperiences = {contextId: '1234', experienceType: ExperienceType.CONTROL};
+
+        const createExperience = (frameOptions: Partial<FrameOptions>, onChange = jest.fn()) => {
+            const testExperience = new TestExperienceFrame(
+                {
+                    container: TEST_CONTAINER,
+                    url: 'https://localhost/embed',
+                    onChange,
+                    ...frameOptions,
+                },
+                {
+                    contextId: '',
+                    eventManager: new EventManager(),
+                    urlInfo: {sessionId: '', host: ''},
+                    timeout: 10000,
+                },
+                {},
+                {},
+                internalExperience,
+                '1234'
+            );
+            testExperience.mountExperienceIframe();
+            return testExperience;
+        };
+
+        afterEach(() => {
+            jest.useRealTimers();
+        });
+
+        it('should resolve whenLoaded once the iframe loads', async () => {
+            const testExperience = createExperience({});
+
+            testExperience.iframe?.dispatchEvent(new Event('load'));
+
+            await expect(testExperience.whenLoaded()).resolves.toBeUndefined();
+            testExperience.unmount();
+        });
+
+        it('should reject whenLoaded with a FrameTimeoutError when the iframe does not load within the load timeout', async () => {
+            jest.useFakeTimers();
+            const onChange = jest.fn();
+            const testExperience = createExperience({loadTimeoutMs: 500}, onChange);
+            const loaded = testExperience.whenLoaded();
+
+            expect(() => jest.advanceTimersByTime(500)).not.toThrow();
+
+            await expect(loaded).rejects.toThrow(FrameTimeoutError);
+            await expect(loaded).rejects.toEqual(expect.objectContaining({timeoutMs: 500}));
+            expect(onChange).toHaveBeenLastCalledWith(
+                expect.objectContaining({
+                    eventName: ChangeEventName.FRAME_NOT_CREATED,
+                    message: 'Creating the frame timed out',
+                    data: {experience: internalExperience, timeoutMs: 500},
+                }),
+                expect.anything()
+            );
+            testExperience.unmount();
+        });
+
+        it('should clear the load timer and reject whenLoaded when unmounted before the iframe loads', async () => {
+            jest.useFakeTimers();
+            const testExperience = createExperience({});
+            const loaded = testExperience.whenLoaded();
+
+            testExperience.unmount();
+
+            expect(jest.getTimerCount()).toEqual(0);
+            await expect(loaded).rejects.toThrow('The experience frame has been unmounted');
+        });
+
+        it('should wait for the new iframe to load when reloaded after loading', async () => {
+            const testExperience = createExperience({});
+            testExperience.iframe?.dispatchEvent(new Event('load'));
+            await testExperience.whenLoaded();
+
+            testExperience.reload('https://localhost/reloaded');
+            const loaded = testExperience.whenLoaded();
+            const onLoaded = jest.fn();
+            loaded.then(onLoaded);
+            await Promise.resolve();
+
+            expect(onLoaded).not.toBeCalled();
+
+            testExperience.iframe?.dispatchEvent(new Event('load'));
+            await expect(loaded).resolves.toBeUndefined();
+            testExperience.unmount();
+        });
+
+        it('should count the time a command is queued against its timeout', async () => {
+            jest.useFakeTimers();
+            const testExperience = createExperience({});
+            const getSheets = {eventName: MessageEventName.GET_SHEETS, eventTarget: internalExperience};
+
+            const neverReady = testExperience.send(getSheets, {timeoutMs: 50});
+            jest.advanceTimersByTime(50);
+
+            await expect(neverReady).rejects.toThrow(CommandTimeoutError);
+
+            const readyLate = testExperience.send(getSheets, {timeoutMs: 50});
+            const onSettled = jest.fn();
+            readyLate.then(onSettled, onSettled);
+            jest.advanceTimersByTime(30);
+            testExperience.onMessage({
+                eventName: MessageEventName.EXPERIENCE_INITIALIZED,
+                eventTarget: internalExperience,
+            });
+            await Promise.resolve();
+            await Promise.resolve();
+            jest.advanceTimersByTime(19);
+            await Promise.resolve();
+
+            expect(onSettled).not.toBeCalled();
+
+            jest.advanceTimersByTime(1);
+
+            await expect(readyLate).rejects.toThrow(CommandTimeoutError);
+            await expect(readyLate).rejects.toEqual(expect.objectContaining({timeoutMs: 50}));
+            testExperience.unmount();
+        });
+
+        it('should reject queued commands when the frame does not load in time until the experience initializes', async () => {
+            jest.useFakeTimers();
+            const testExperience = createExperience({loadTimeoutMs: 500});
+            const getSheets = {eventName: MessageEventName.GET_SHEETS, eventTarget: internalExperience};
+            const queued = testExperience.send(getSheets, {timeoutMs: 10000});
+            const ready = testExperience.whenReady();
+
+            jest.advanceTimersByTime(500);
+
+            await expect(queued).rejects.toThrow(CommandAbortedError);
+            await expect(queued).rejects.toThrow('Creating the frame timed out');
+            await expect(ready).rejects.toThrow(FrameTimeoutError);
+
+            testExperience.onMessage({
+                eventName: MessageEventName.EXPERIENCE_INITIALIZED,
+                eventTarget: internalExperience,
+            });
+
+            await expect(testExperience.whenReady()).resolves.toBeUndefined();
+            testExperience.unmount();
+        });
+
+        it('should wait for the reloaded frame after the load timed out', async () => {
+            jest.useFakeTimers();
+            const testExperience = createExperience({loadTimeoutMs: 500});
+            jest.advanceTimersByTime(500);
+            await expect(testExperience.whenReady()).rejects.toThrow(FrameTimeoutError);
+
+            testExperience.reload('https://localhost/reloaded');
+            const ready = testExperience.whenReady();
+            testExperience.onMessage({
+                eventName: MessageEventName.EXPERIENCE_INITIALIZED,
+                eventTarget: internalExperience,
+            });
+
+            await expect(ready).resolves.toBeUndefined();
+            testExperience.unmount();
+        });
+    });
+
+    describe('Placeholders', () => {
+        const internalExperience: InternalExperiences = {contextId: '1234', experienceType: ExperienceType.CONTROL};
+        const createRetryButton = ({state, retry}: PlaceholderRenderContext) => {
+            const button = window.document.createElement('button');
+            button.className = `retry-${state}`;
+            button.addEventListener('click', retry);
+            return button;
+        };
+
+        const createExperienceWithPlaceholders = (controlOptions: Partial<ControlOptions>, onChange = jest.fn()) => {
+            const testExperience = new TestExperienceFrame(
+                {
+                    container: TEST_CONTAINER,
+                    url: 'https://localhost/embed',
+                    withIframePlaceholder: {error: createRetryButton, sessionExpired: createRetryButton},
+                    onChange,
+                },
+                {
+                    contextId: '',
+                    eventManager: new EventManager(),
+                    urlInfo: {sessionId: '', host: ''},
+                    timeout: 10000,
+                    ...controlOptions,
+                },
+                {},
+                {},
+                internalExperience,
+                '1234'
+            );
+            testExperience.mountExperienceIframe();
+            testExperience.iframe?.dispatchEvent(new Event('load'));
+            return testExperience;
+        };
+
+        it('should reload the experience with a minted url when retried from the session expired placeholder', async () => {
+            const getSessionUrl = jest.fn().mockResolvedValue('https://localhost/minted');
+            const refreshControlFrame = jest.fn();
+            const testExperience = createExperienceWithPlaceholders({getSessionUrl, refreshControlFrame});
+
+            testExperience.onMessage({
+                eventName: MessageEventName.ERROR_OCCURRED,
+                eventTarget: internalExperience,
+                message: {errorCode: 'Unauthorized'},
+            });
+            TEST_CONTAINER.querySelector<HTMLElement>('.retry-SESSION_EXPIRED')?.click();
+            await new Promise(resolve => setTimeout(resolve));
+
+            expect(getSessionUrl).toBeCalledWith(internalExperience);
+            expect(refreshControlFrame).toBeCalledWith('https://localhost/minted');
+            expect(TEST_CONTAINER.querySelectorAll('iframe').length).toEqual(1);
+            expect(TEST_CONTAINER.querySelector('iframe')?.src).toEqual('https://localhost/minted');
+            expect(TEST_CONTAINER.querySelector('.retry-SESSION_EXPIRED')).toBeNull();
+
+            testExperience.unmount();
+        });
+
+        it('should show the timed out placeholder when the frame does not load in time', () => {
+            jest.useFakeTimers();
+            const testExperience = new TestExperienceFrame(
+                {
+                    container: TEST_CONTAINER,
+                    url: 'https://localhost/embed',
+                    withIframePlaceholder: {timedOut: createRetryButton},
+                },
+                {
+                    contextId: '',
+                    eventManager: new EventManager(),
+                    urlInfo: {sessionId: '', host: ''},
+                    timeout: 10000,
+                },
+                {},
+                {},
+                internalExperience,
+                '1234'
+            );
+            testExperience.mountExperienceIframe();
+
+            jest.advanceTimersByTime(10000);
+            expect(TEST_CONTAINER.querySelector('.retry-TIMED_OUT')).not.toBeNull();
+
+            jest.useRealTimers();
+            testExperience.unmount();
+        });
+
+        it('should not reload the experience when it is unmounted while the url is minted', async () => {
+            const getSessionUrl = jest.fn().mockResolvedValue('https://localhost/minted');
+            const testExperience = createExperienceWithPlaceholders({getSessionUrl});
+
+            testExperience.onMessage({
+                eventName: MessageEventName.ERROR_OCCURRED,
+                eventTarget: internalExperience,
+                message: {errorCode: 'INTERNAL_ERROR'},
+            });
+            TEST_CONTAINER.querySelector<HTMLElement>('.retry-ERROR')?.click();
+            testExperience.unmount();
+            await new Promise(resolve => setTimeout(resolve));
+
+            expect(TEST_CONTAINER.querySelector('iframe')).toBeNull();
+        });
+
+        it('should not report a failed retry when the experience is unmounted while the url is minted', async () => {
+            const onChange = jest.fn();
+            const getSessionUrl = jest.fn().mockRejectedValue(new Error('Forbidden'));
+            const testExperience = createExperienceWithPlaceholders({getSessionUrl}, onChange);
+
+            testExperience.onMessage({
+                eventName: MessageEventName.ERROR_OCCURRED,
+                eventTarget: internalExperience,
+                message: {errorCode: 'INTERNAL_ERROR'},
+            });
+            TEST_CONTAINER.querySelector<HTMLElement>('.retry-ERROR')?.click();
+            testExperience.unmount();
+            await new Promise(resolve => setTimeout(resolve));
+
+            expect(onChange).not.toBeCalledWith(
+                expect.objectContaining({eventName: ChangeEventName.RETRY_FAILED}),
+                expect.anything()
+            );
+        });
+
+        it.each([
+            [
+                'no url can be minted',
+                {getSessionUrl: jest.fn().mockRejectedValue(new Error('No url provider has been set'))},
+                'Reloading the experience failed: No url provider has been set',
+            ],
+            [
+                'there is no url provider',
+                {},
+                'Reloading the experience failed: A url provider is required to reload the experience',
+            ],
+            [
+                'the minted url is not allowed',
+                {
+                    getSessionUrl: jest.fn().mockResolvedValue('https://attacker.com/minted'),
+                    refreshControlFrame: () => {
+                        throw new Error('The url is not allowed');
+                    },
+                },
+                'Reloading the experience failed: The url is not allowed',
+            ],
+        ])(
+            'should emit RETRY_FAILED and show the error placeholder when %s',
+            async (description, controlOptions, message) => {
+                const onChange = jest.fn();
+                const testExperience = createExperienceWithPlaceholders(controlOptions, onChange);
+
+                testExperience.onMessage({
+                    eventName: MessageEventName.ERROR_OCCURRED,
+                    eventTarget: internalExperience,
+                    message: {errorCode: 'INTERNAL_ERROR'},
+                });
+                TEST_CONTAINER.querySelector<HTMLElement>('.retry-ERROR')?.click();
+                await new Promise(resolve => setTimeout(resolve));
+
+                expect(onChange).toHaveBeenLastCalledWith(
+                    expect.objectContaining({
+                        eventName: ChangeEventName.RETRY_FAILED,
+                        eventLevel: ChangeEventLevel.ERROR,
+                        message,
+                    }),
+                    expect.anything()
+                );
+                expect(TEST_CONTAINER.querySelectorAll('iframe').length).toEqual(1);
+                expect(TEST_CONTAINER.querySelector('iframe')?.src).toEqual('https://localhost/embed');
+                expect(TEST_CONTAINER.querySelector('.retry-ERROR')).not.toBeNull();
+
+                testExperience.unmount();
+            }
+        );
+    });
+
     it('should throw error if experience type is invalid', async () => {
         const embedExperienceWrapper = async () => {
             // @ts-expect-error - should throw error
@@ -158,5 +1114,6 @@ describe('BaseExperience', () => {
         await expect(embedExperienceWrapper).rejects.toThrow(
             'Invalid experience unable to build experience identifier'
         );
+        await expect(embedExperienceWrapper).rejects.toThrow(InvalidExperienceError);
     });
 });
@@ -10,6 +10,7 @@ import {MessageEventName} from '@common/events/types';
 import {ConsoleContentOptions} from '@experience/console-experience/types';
 import {ControlOptions, IControlExperience} from '@experience/control-experience/types';
 import {EventManager} from '@common/event-manager/event-manager';
+import {InvalidExperienceError} from '@common/errors/errors';
 import {BaseExperience} from '@experience/base-experience/base-experience';
 import {BaseExperienceFrame} from '@experience/base-experience/frame/experience-frame';
 
@@ -78,6 +79,7 @@ describe('BaseExperience', () => {
         await expect(embedExperienceWrapper).rejects.toThrow(
             'Invalid experience unable to build experience identifier'
         );
+        await expect(embedExperienceWrapper).rejects.toThrow(InvalidExperienceError);
     });
 
     it('Should throw error when send is called before URL has been set', async () => {
@@ -101,6 +103,29 @@ describe('BaseExperience', () => {
         expect(await testExperience.send).rejects.toThrow('Experience has not been initialized');
     });
 
+    it('Should return the load promise of the experience frame from loaded', () => {
+        const testExperience = new TestExperience(
+            {
+                url: 'https://localhost.com',
+                container: window.document.createElement('div'),
+            },
+            {},
+            {
+                contextId: '1',
+                urlInfo: {
+                    sessionId: '',
+                    host: '',
+                },
+                eventManager: new EventManager(),
+            },
+            new Set()
+        );
+        const loaded = Promise.resolve();
+        testExperience.experienceFrame.whenLoaded = () => loaded;
+
+        expect(testExperience.loaded).toBe(loaded);
+    });
+
     it('Should call addInternalEventListener on experience frame when addEventListener is called', () => {
         const testExperience = new TestExperience(
             {
@@ -125,4 +150,33 @@ describe('BaseExperience', () => {
 
         expect(mockAddInternalEventListener).toBeCalledWith(MessageEventName.RESET, mockEventListener);
     });
+
+    it('Should add a listener that is removed after the first event when once is called', () => {
+        const testExperience = new TestExperience(
+            {
+                url: 'https://localhost:8000',
+                container: window.document.createElement('div'),
+            },
+            {},
+            {
+                contextId: '1',
+                urlInfo: {
+                    sessionId: '',
+                    host: '',
+                },
+                eventManager: new EventManager(),
+            },
+            new Set()
+        );
+
+        const mockEventListener = jest.fn();
+
+        testExperience.once([MessageEventName.RESET, MessageEventName.CONTENT_LOADED], mockEventListener);
+
+        expect(mockAddInternalEventListener).toBeCalledWith(
+            [MessageEventName.RESET, MessageEventName.CONTENT_LOADED],
+            mockEventListener,
+            true
+        );
+    });
 });
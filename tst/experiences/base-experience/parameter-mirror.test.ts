@@ -0,0 +1,171 @@
+import {ParameterMirror} from '@experience/base-experience/parameter-mirror';
+import {ResponseMessage} from '@common/events/events';
+import {CommandAbortedError} from '@common/errors/errors';
+
+describe('ParameterMirror', () => {
+    const createDeferredResponse = () => {
+        let resolve: (response: ResponseMessage) => void = () => undefined;
+        let reject: (error: Error) => void = () => undefined;
+        const promise = new Promise<ResponseMessage>((promiseResolve, promiseReject) => {
+            resolve = promiseResolve;
+            reject = promiseReject;
+        });
+
+        return {promise, resolve, reject};
+    };
+
+    it('should not send the parameters that already have the given values', async () => {
+        const sendParameters = jest.fn().mockResolvedValue({success: true});
+        const parameterMirror = new ParameterMirror(sendParameters, [{Name: 'Year', Values: [2023]}]);
+
+        await expect(parameterMirror.set([{Name: 'Year', Values: ['2023']}])).resolves.toEqual({success: true});
+        await parameterMirror.set([
+            {Name: 'Year', Values: [2023]},
+            {Name: 'State', Values: ['WA']},
+        ]);
+
+        expect(sendParameters).toBeCalledTimes(1);
+        expect(sendParameters).toBeCalledWith([{Name: 'State', Values: ['WA']}]);
+        expect(parameterMirror.getSnapshot()).toEqual([
+            {Name: 'Year', Values: [2023]},
+            {Name: 'State', Values: ['WA']},
+        ]);
+    });
+
+    it('should coalesce the parameters set while a command is in flight into one command', async () => {
+        const firstResponse = createDeferredResponse();
+        const sendParameters = jest
+            .fn()
+            .mockReturnValueOnce(firstResponse.promise)
+            .mockResolvedValueOnce({success: true});
+        const parameterMirror = new ParameterMirror(sendParameters, [{Name: 'Price', Values: [1]}]);
+
+        const first = parameterMirror.set([{Name: 'Price', Values: [2]}]);
+        const second = parameterMirror.set([{Name: 'Price', Values: [3]}]);
+        const third = parameterMirror.set(
+            [
+                {Name: 'Price', Values: [1]},
+                {Name: 'State', Values: ['WA']},
+            ],
+            {
+                timeoutMs: 100,
+            }
+        );
+        const fourth = parameterMirror.set([{Name: 'State', Values: ['WA']}]);
+
+        expect(sendParameters).toBeCalledTimes(1);
+        expect(parameterMirror.getSnapshot()).toEqual([{Name: 'Price', Values: [1]}]);
+
+        firstResponse.resolve({success: true});
+
+        await expect(first).resolves.toEqual({success: true});
+        await expect(Promise.all([second, third, fourth])).resolves.toEqual([
+            {success: true},
+            {success: true},
+            {success: true},
+        ]);
+        expect(sendParameters).toBeCalledTimes(2);
+        expect(sendParameters).toHaveBeenLastCalledWith(
+            [
+                {Name: 'Price', Values: [1]},
+                {Name: 'State', Values: ['WA']},
+            ],
+            {timeoutMs: 100}
+        );
+        expect(parameterMirror.getSnapshot()).toEqual([
+            {Name: 'Price', Values: [1]},
+            {Name: 'State', Values: ['WA']},
+        ]);
+    });
+
+    it('should keep the previous values when the command fails', async () => {
+        const firstResponse = createDeferredResponse();
+        const sendParameters = jest
+            .fn()
+            .mockReturnValueOnce(firstResponse.promise)
+            .mockResolvedValueOnce({success: false, errorCode: 'INVALID_PARAMETER'});
+        const parameterMirror = new ParameterMirror(sendParameters);
+
+        const first = parameterMirror.set([{Name: 'State', Values: ['WA']}]);
+        const second = parameterMirror.set([{Name: 'Region', Values: ['West']}]);
+        firstResponse.reject(new Error('Timed out'));
+
+        await expect(first).rejects.toThrow('Timed out');
+        await expect(second).resolves.toEqual({success: false, errorCode: 'INVALID_PARAMETER'});
+        expect(sendParameters).toBeCalledTimes(2);
+        expect(parameterMirror.getSnapshot()).toEqual([]);
+    });
+
+    it('should resolve the calls that set the values of a command in flight with the response of that command', async () => {
+        const firstResponse = createDeferredResponse();
+        const sendParameters = jest.fn().mockReturnValueOnce(firstResponse.promise);
+        const parameterMirror = new ParameterMirror(sendParameters);
+        const onSettled = jest.fn();
+
+        const first = parameterMirror.set([{Name: 'State', Values: ['WA']}]);
+        const second = parameterMirror.set([{Name: 'State', Values: ['WA']}]);
+        second.then(onSettled, onSettled);
+        await Promise.resolve();
+
+        expect(onSettled).not.toBeCalled();
+
+        firstResponse.resolve({success: false, message: 'INVALID_PARAMETER'});
+
+        await expect(first).resolves.toEqual({success: false, message: 'INVALID_PARAMETER'});
+        await expect(second).resolves.toEqual({success: false, message: 'INVALID_PARAMETER'});
+        expect(sendParameters).toBeCalledTimes(1);
+    });
+
+    it('should only abort the call the signal is given to', async () => {
+        const firstResponse = createDeferredResponse();
+        const sendParameters = jest
+            .fn()
+            .mockReturnValueOnce(firstResponse.promise)
+            .mockResolvedValueOnce({success: true});
+        const parameterMirror = new ParameterMirror(sendParameters);
+        const abortController = new AbortController();
+
+        const first = parameterMirror.set([{Name: 'State', Values: ['WA']}], {signal: abortController.signal});
+        const second = parameterMirror.set([{Name: 'State', Values: ['OR']}]);
+        const third = parameterMirror.set([{Name: 'Region', Values: ['West']}], {
+            timeoutMs: 100,
+            signal: abortController.signal,
+        });
+        abortController.abort();
+        firstResponse.resolve({success: true});
+
+        await expect(first).rejects.toThrow(CommandAbortedError);
+        await expect(third).rejects.toThrow(CommandAbortedError);
+        await expect(second).resolves.toEqual({success: true});
+        await expect(
+            parameterMirror.set([{Name: 'State', Values: ['CA']}], {signal: abortController.signal})
+        ).rejects.toThrow(CommandAbortedError);
+        expect(sendParameters).toBeCalledTimes(2);
+        expect(sendParameters).toHaveBeenNthCalledWith(1, [{Name: 'State', Values: ['WA']}]);
+        expect(sendParameters).toHaveBeenLastCalledWith(
+            [
+                {Name: 'State', Values: ['OR']},
+                {Name: 'Region', Values: ['West']},
+            ],
+            {timeoutMs: 100}
+        );
+    });
+
+    it('should describe the previous and next values of the parameters reported by the experience', () => {
+        const parameterMirror = new ParameterMirror(jest.fn(), [{Name: 'State', Values: ['WA']}]);
+
+        expect(
+            parameterMirror.applyChanges([
+                {Name: 'State', Values: ['OR']},
+                {Name: 'Region', Values: ['West']},
+            ])
+        ).toEqual([
+            {Name: 'State', PreviousValues: ['WA'], Values: ['OR']},
+            {Name: 'Region', PreviousValues: undefined, Values: ['West']},
+        ]);
+        expect(parameterMirror.getSnapshot()).toEqual([
+            {Name: 'State', Values: ['OR']},
+            {Name: 'Region', Values: ['West']},
+        ]);
+    });
+});
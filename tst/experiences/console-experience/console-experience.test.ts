@@ -158,4 +158,15 @@ describe('ConsoleExperience', () => {
             {frame: null}
         );
     });
+
+    it('should throw error if the session is refreshed without a url', async () => {
+        const consoleExperience = new ConsoleExperience(
+            {url: TEST_CONSOLE_URL, container: TEST_CONTAINER},
+            {},
+            TEST_CONTROL_OPTIONS,
+            new Set<string>()
+        );
+
+        await expect(consoleExperience.refreshSession()).rejects.toThrow('A url is required to refresh the session');
+    });
 });
@@ -4,6 +4,14 @@ import {ChangeEventLevel, ChangeEventName, InfoMessageEventName} from '../../../
 import {ControlExperience} from '@experience/control-experience/control-experience';
 import {ControlOptions} from '@experience/control-experience/types';
 import {SDK_VERSION} from '@experience/base-experience/frame/experience-frame';
+import {Iframe} from '@common/iframe/iframe';
+import {ConsoleExperience} from '@experience/console-experience/console-experience';
+
+const TEST_MESSAGE_ORIGIN = 'https://test.amazon.com';
+// Frames are added to the document as the tests go, the last one belongs to the latest control experience
+const getEmbeddingFrameWindow = () =>
+    Array.from(window.document.querySelectorAll<HTMLIFrameElement>(`iframe.${Iframe.IFRAME_CLASS_NAME}`)).pop()
+        ?.contentWindow ?? null;
 
 describe('ControlExperience', () => {
     const TEST_CONTAINER: HTMLBodyElement = window.document.body as HTMLBodyElement;
@@ -67,6 +75,8 @@ describe('ControlExperience', () => {
 
         controlExperience.controlFrameMessageListener(
             new MessageEvent('message', {
+                origin: TEST_MESSAGE_ORIGIN,
+                source: getEmbeddingFrameWindow(),
                 data: {
                     eventTarget: {
                         experienceType: ExperienceType.CONSOLE,
@@ -110,6 +120,343 @@ describe('ControlExperience', () => {
         expect(onChangeSpy).toBeCalledTimes(2);
     });
 
+    describe('Message origin', () => {
+        const TEST_SIZE_CHANGED_MESSAGE = {
+            eventTarget: {
+                experienceType: ExperienceType.CONSOLE,
+                discriminator: 0,
+                contextId: TEST_CONTEXT_ID,
+            },
+            eventName: InfoMessageEventName.SIZE_CHANGED,
+            message: {
+                height: '500',
+            },
+        };
+
+        beforeEach(() => {
+            jest.spyOn(eventManager, 'invokeEventListener').mockImplementation(jest.fn());
+        });
+
+        afterEach(() => {
+            jest.restoreAllMocks();
+        });
+
+        it('should emit UNTRUSTED_MESSAGE_ORIGIN and drop messages from other origins', () => {
+            const controlExperience = new ControlExperience(TEST_CONTAINER, TEST_CONTROL_OPTIONS, onChangeSpy);
+
+            controlExperience.controlFrameMessageListener(
+                new MessageEvent('message', {
+                    origin: 'https://attacker.com',
+                    source: getEmbeddingFrameWindow(),
+                    data: TEST_SIZE_CHANGED_MESSAGE,
+                })
+            );
+
+            expect(eventManager.invokeEventListener).not.toBeCalled();
+            expect(onChangeSpy).toHaveBeenLastCalledWith(
+                expect.objectContaining({
+                    eventName: ChangeEventName.UNTRUSTED_MESSAGE_ORIGIN,
+                    eventLevel: ChangeEventLevel.WARN,
+                    data: {
+                        origin: 'https://attacker.com',
+                        eventName: InfoMessageEventName.SIZE_CHANGED,
+                    },
+                }),
+                expect.any(Object)
+            );
+        });
+
+        it('should drop messages that are not posted by an embedded frame', () => {
+            const controlExperience = new ControlExperience(TEST_CONTAINER, TEST_CONTROL_OPTIONS, onChangeSpy);
+
+            controlExperience.controlFrameMessageListener(
+                new MessageEvent('message', {
+                    origin: TEST_MESSAGE_ORIGIN,
+                    source: window,
+                    data: TEST_SIZE_CHANGED_MESSAGE,
+                })
+            );
+
+            expect(eventManager.invokeEventListener).not.toBeCalled();
+            expect(onChangeSpy).toHaveBeenLastCalledWith(
+                expect.objectContaining({eventName: ChangeEventName.UNTRUSTED_MESSAGE_ORIGIN}),
+                expect.any(Object)
+            );
+        });
+
+        it('should drop messages posted by the embedded frame of another experience', () => {
+            const controlExperience = new ControlExperience(TEST_CONTAINER, TEST_CONTROL_OPTIONS, onChangeSpy);
+            const otherFrame = window.document.createElement('iframe');
+            otherFrame.className = Iframe.IFRAME_CLASS_NAME;
+            TEST_CONTAINER.appendChild(otherFrame);
+            controlExperience.registerFrameWindow(
+                `${TEST_CONTEXT_ID}-${ExperienceType.DASHBOARD}-otherDashboard`,
+                () => otherFrame.contentWindow
+            );
+
+            [
+                TEST_SIZE_CHANGED_MESSAGE,
+                {...TEST_SIZE_CHANGED_MESSAGE, eventTarget: {experienceType: 'UNKNOWN', contextId: TEST_CONTEXT_ID}},
+            ].forEach(data =>
+                controlExperience.controlFrameMessageListener(
+                    new MessageEvent('message', {
+                        origin: TEST_MESSAGE_ORIGIN,
+                        source: otherFrame.contentWindow,
+                        data: data as typeof TEST_SIZE_CHANGED_MESSAGE,
+                    })
+                )
+            );
+            otherFrame.remove();
+
+            expect(eventManager.invokeEventListener).not.toBeCalled();
+            expect(onChangeSpy).toHaveBeenLastCalledWith(
+                expect.objectContaining({eventName: ChangeEventName.UNTRUSTED_MESSAGE_ORIGIN}),
+                expect.any(Object)
+            );
+        });
+
+        it('should accept messages posted by the embedded frame of the experience they target', () => {
+            const controlExperience = new ControlExperience(
+                TEST_CONTAINER,
+                {...TEST_CONTROL_OPTIONS, contextId: 'targetContextId'},
+                onChangeSpy
+            );
+            const targetFrame = window.document.createElement('iframe');
+            targetFrame.className = Iframe.IFRAME_CLASS_NAME;
+            TEST_CONTAINER.appendChild(targetFrame);
+            controlExperience.registerFrameWindow(
+                `${TEST_CONTEXT_ID}-${ExperienceType.CONSOLE}`,
+                () => targetFrame.contentWindow
+            );
+
+            controlExperience.controlFrameMessageListener(
+                new MessageEvent('message', {
+                    origin: TEST_MESSAGE_ORIGIN,
+                    source: targetFrame.contentWindow,
+                    data: TEST_SIZE_CHANGED_MESSAGE,
+                })
+            );
+            targetFrame.remove();
+
+            expect(eventManager.invokeEventListener).toBeCalledWith(
+                `${TEST_CONTEXT_ID}-${ExperienceType.CONSOLE}`,
+                TEST_SIZE_CHANGED_MESSAGE
+            );
+        });
+
+        it('should accept messages posted by the frame of an experience embedded inside a shadow root', () => {
+            const controlExperience = new ControlExperience(
+                TEST_CONTAINER,
+                {...TEST_CONTROL_OPTIONS, contextId: 'shadowContextId'},
+                onChangeSpy
+            );
+            const host = window.document.createElement('div');
+            const container = window.document.createElement('div');
+            host.attachShadow({mode: 'open'}).appendChild(container);
+            TEST_CONTAINER.appendChild(host);
+            const consoleExperience = new ConsoleExperience(
+                {url: 'https://test.amazon.com/embedding/guid/start/favorites', container},
+                {},
+                {
+                    ...TEST_CONTROL_OPTIONS,
+                    contextId: 'shadowContextId',
+                    registerFrameWindow: controlExperience.registerFrameWindow,
+                },
+                new Set<string>()
+            );
+            const data = {
+                ...TEST_SIZE_CHANGED_MESSAGE,
+                eventTarget: {...TEST_SIZE_CHANGED_MESSAGE.eventTarget, contextId: 'shadowContextId'},
+            };
+            const postMessage = (source: MessageEventSource | null) =>
+                controlExperience.controlFrameMessageListener(
+                    new MessageEvent('message', {origin: TEST_MESSAGE_ORIGIN, source, data})
+                );
+            // jsdom does not create a window for frames inside a shadow root, the one of a frame of the document stands in
+            const windowFrame = window.document.createElement('iframe');
+            TEST_CONTAINER.appendChild(windowFrame);
+            const frameWindow = windowFrame.contentWindow;
+            Object.defineProperty(container.querySelector('iframe'), 'contentWindow', {value: frameWindow});
+
+            postMessage(frameWindow);
+            consoleExperience.unmount();
+            postMessage(frameWindow);
+            host.remove();
+            windowFrame.remove();
+
+            expect(eventManager.invokeEventListener).toBeCalledTimes(1);
+            expect(eventManager.invokeEventListener).toBeCalledWith(`shadowContextId-${ExperienceType.CONSOLE}`, data);
+            expect(onChangeSpy).toHaveBeenLastCalledWith(
+                expect.objectContaining({eventName: ChangeEventName.UNTRUSTED_MESSAGE_ORIGIN}),
+                expect.any(Object)
+            );
+        });
+
+        it('should accept messages from allowed origins', () => {
+            const controlExperience = new ControlExperience(
+                TEST_CONTAINER,
+                {...TEST_CONTROL_OPTIONS, allowedOrigins: ['https://proxy.example.com']},
+                onChangeSpy
+            );
+
+            controlExperience.controlFrameMessageListener(
+                new MessageEvent('message', {
+                    origin: 'https://proxy.example.com',
+                    source: getEmbeddingFrameWindow(),
+                    data: TEST_SIZE_CHANGED_MESSAGE,
+                })
+            );
+
+            expect(eventManager.invokeEventListener).toBeCalledWith(
+                `${TEST_CONTEXT_ID}-${ExperienceType.CONSOLE}`,
+                TEST_SIZE_CHANGED_MESSAGE
+            );
+        });
+
+        it('should emit MALFORMED_MESSAGE and drop messages that do not match their schema', () => {
+            const controlExperience = new ControlExperience(TEST_CONTAINER, TEST_CONTROL_OPTIONS, onChangeSpy);
+            jest.spyOn(controlExperience, 'send');
+            const malformedMessage = {...TEST_SIZE_CHANGED_MESSAGE, message: {height: '500px; display: none'}};
+
+            controlExperience.controlFrameMessageListener(
+                new MessageEvent('message', {
+                    origin: TEST_MESSAGE_ORIGIN,
+                    source: getEmbeddingFrameWindow(),
+                    data: malformedMessage,
+                })
+            );
+
+            expect(eventManager.invokeEventListener).not.toBeCalled();
+            expect(controlExperience.send).not.toBeCalled();
+            expect(onChangeSpy).toHaveBeenLastCalledWith(
+                expect.objectContaining({
+                    eventName: ChangeEventName.MALFORMED_MESSAGE,
+                    eventLevel: ChangeEventLevel.WARN,
+                    data: expect.objectContaining({
+                        eventName: InfoMessageEventName.SIZE_CHANGED,
+                        message: malformedMessage.message,
+                        validationErrors: ['message.height must be numeric'],
+                    }),
+                }),
+                expect.any(Object)
+            );
+        });
+    });
+
+    describe('Message channel', () => {
+        class FakeMessagePort {
+            public onmessage: ((event: MessageEvent) => void) | null = null;
+            public remotePort?: FakeMessagePort;
+            public postMessage = (data: unknown) => this.remotePort?.onmessage?.(new MessageEvent('message', {data}));
+            public close = jest.fn();
+        }
+
+        class FakeMessageChannel {
+            public port1 = new FakeMessagePort();
+            public port2 = new FakeMessagePort();
+
+            constructor() {
+                this.port1.remotePort = this.port2;
+                this.port2.remotePort = this.port1;
+            }
+        }
+
+        beforeEach(() => {
+            Object.defineProperty(window, 'MessageChannel', {value: FakeMessageChannel, configurable: true});
+            jest.spyOn(eventManager, 'invokeEventListener').mockImplementation(jest.fn());
+        });
+
+        afterEach(() => {
+            Reflect.deleteProperty(window, 'MessageChannel');
+            jest.restoreAllMocks();
+        });
+
+        it('should receive messages over the channel of the control frame instead of the window', () => {
+            const controlExperience = new ControlExperience(
+                TEST_CONTAINER,
+                {...TEST_CONTROL_OPTIONS, contextId: 'CHANNEL'},
+                onChangeSpy
+            );
+            const iframe = TEST_CONTAINER.querySelector<HTMLIFrameElement>('iframe[name="CHANNEL-CONTROL"]');
+            const postMessageSpy = jest.spyOn(iframe?.contentWindow as Window, 'postMessage').mockImplementation();
+
+            iframe?.dispatchEvent(new Event('load'));
+            const [handshake, , [hostPort]] = postMessageSpy.mock.calls[0] as unknown as [
+                {eventId: string},
+                string,
+                [MessagePort]
+            ];
+            hostPort.postMessage({eventId: handshake.eventId, message: {success: true}});
+            hostPort.postMessage({
+                eventName: InfoMessageEventName.SIZE_CHANGED,
+                eventTarget: {experienceType: ExperienceType.CONSOLE, discriminator: 0, contextId: 'CHANNEL'},
+                message: {height: '500'},
+            });
+
+            controlExperience.controlFrameMessageListener(
+                new MessageEvent('message', {
+                    origin: TEST_MESSAGE_ORIGIN,
+                    source: iframe?.contentWindow,
+                    data: {
+                        eventName: InfoMessageEventName.SIZE_CHANGED,
+                        eventTarget: {experienceType: ExperienceType.CONSOLE, discriminator: 0, contextId: 'CHANNEL'},
+                        message: {height: '500'},
+                    },
+                })
+            );
+
+            expect(handshake).toEqual(expect.objectContaining({eventName: 'ESTABLISH_MESSAGE_CHANNEL'}));
+            expect(eventManager.invokeEventListener).toBeCalledTimes(1);
+            expect(eventManager.invokeEventListener).toBeCalledWith(
+                `CHANNEL-${ExperienceType.CONSOLE}`,
+                expect.objectContaining({eventName: InfoMessageEventName.SIZE_CHANGED})
+            );
+        });
+
+        it('should keep receiving messages posted to the window by frames without a channel', () => {
+            const controlExperience = new ControlExperience(
+                TEST_CONTAINER,
+                {...TEST_CONTROL_OPTIONS, contextId: 'FALLBACK'},
+                onChangeSpy
+            );
+            const handleMessageEvent = jest.spyOn(controlExperience, 'handleMessageEvent');
+            const iframe = TEST_CONTAINER.querySelector<HTMLIFrameElement>('iframe[name="FALLBACK-CONTROL"]');
+            const postMessageSpy = jest.spyOn(iframe?.contentWindow as Window, 'postMessage').mockImplementation();
+            const experienceFrame = window.document.createElement('iframe');
+            experienceFrame.className = Iframe.IFRAME_CLASS_NAME;
+            TEST_CONTAINER.appendChild(experienceFrame);
+            controlExperience.registerFrameWindow(
+                `FALLBACK-${ExperienceType.CONSOLE}`,
+                () => experienceFrame.contentWindow
+            );
+
+            iframe?.dispatchEvent(new Event('load'));
+            const [handshake, , [hostPort]] = postMessageSpy.mock.calls[0] as unknown as [
+                {eventId: string},
+                string,
+                [MessagePort]
+            ];
+            hostPort.postMessage({eventId: handshake.eventId, message: {success: true}});
+            window.dispatchEvent(
+                new MessageEvent('message', {
+                    origin: TEST_MESSAGE_ORIGIN,
+                    source: experienceFrame.contentWindow,
+                    data: {
+                        eventName: InfoMessageEventName.SIZE_CHANGED,
+                        eventTarget: {experienceType: ExperienceType.CONSOLE, discriminator: 0, contextId: 'FALLBACK'},
+                        message: {height: '500'},
+                    },
+                })
+            );
+            experienceFrame.remove();
+            controlExperience.unmount();
+
+            expect(handleMessageEvent).toBeCalledWith(
+                expect.objectContaining({eventName: InfoMessageEventName.SIZE_CHANGED})
+            );
+        });
+    });
+
     it('should throw error if getControlIFrame is before experience frame has been initialized', () => {
         expect(true).toBeTruthy();
     });
@@ -1,4 +1,5 @@
-import {DashboardContentOptions} from '@experience/dashboard-experience/types';
+import {DashboardContentOptions, DashboardState} from '@experience/dashboard-experience/types';
+import type {FilterGroup} from '@aws-sdk/client-quicksight';
 import {ExperienceType} from '@experience/base-experience/types';
 import {EventManager} from '@common/event-manager/event-manager';
 import {DashboardExperience} from '@experience/dashboard-experience/dashboard-experience';
@@ -6,6 +7,19 @@ import {ControlExperience} from '@experience/control-experience/control-experien
 import {ChangeEventLevel, ChangeEventName, MessageEventName} from '@common/events/types';
 import {InfoMessageEventName} from '@common/events/messages';
 import {SDK_VERSION} from '@experience/base-experience/frame/experience-frame';
+import {EmbeddingErrorCode} from '@common/errors/types';
+import {Iframe} from '@common/iframe/iframe';
+import {allValuesParameter, dateParameter, numberParameter} from '@common/parameters/parameter-builders';
+
+const TEST_MESSAGE_ORIGIN = 'https://localhost.com';
+// Frames are added to the document as the tests go, the last one belongs to the latest control experience
+const getEmbeddingFrameWindow = () =>
+    Array.from(window.document.querySelectorAll<HTMLIFrameElement>(`iframe.${Iframe.IFRAME_CLASS_NAME}`)).pop()
+        ?.contentWindow ?? null;
+const getControlFrameWindow = (contextId: string) =>
+    Array.from(
+        window.document.querySelectorAll<HTMLIFrameElement>(`iframe#${contextId}-${ExperienceType.CONTROL}`)
+    ).pop()?.contentWindow ?? null;
 
 describe('DashboardExperience', () => {
     let TEST_CONTAINER: HTMLElement;
@@ -273,6 +287,8 @@ describe('DashboardExperience', () => {
 
         controlExperience.controlFrameMessageListener(
             new MessageEvent('message', {
+                origin: TEST_MESSAGE_ORIGIN,
+                source: getEmbeddingFrameWindow(),
                 data: {
                     eventTarget: {
                         experienceType: ExperienceType.DASHBOARD,
@@ -360,6 +376,46 @@ describe('DashboardExperience', () => {
         expect(createDashboardFrameWrapper).toThrowError('Invalid dashboard experience URL');
     });
 
+    it('should log a warning when the theme options can not be applied', async () => {
+        const body = window.document.querySelector('body');
+        const controlExperience = new ControlExperience(body!, TEST_CONTROL_OPTIONS);
+        const logger = {log: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn(), info: jest.fn()};
+        const error = new Error('Timed out');
+        const dashboardFrame = new DashboardExperience(
+            {url: TEST_DASHBOARD_URL, container: TEST_CONTAINER},
+            {
+                themeOptions: {
+                    themeOverride: {Typography: {FontFamilies: [{FontFamily: 'Comic Neue'}]}},
+                    preloadThemes: ['arn:aws:quicksight::aws:theme/RAINIER'],
+                },
+            },
+            TEST_CONTROL_OPTIONS,
+            new Set<string>()
+        ).setLogProvider(logger);
+        jest.spyOn(dashboardFrame, 'send').mockRejectedValue(error);
+
+        controlExperience.controlFrameMessageListener(
+            new MessageEvent('message', {
+                origin: TEST_MESSAGE_ORIGIN,
+                source: getEmbeddingFrameWindow(),
+                data: {
+                    eventTarget: {
+                        experienceType: ExperienceType.DASHBOARD,
+                        discriminator: 0,
+                        contextId: TEST_CONTEXT_ID,
+                        dashboardId: TEST_DASHBOARD_ID,
+                    },
+                    eventName: InfoMessageEventName.EXPERIENCE_INITIALIZED,
+                    message: {},
+                },
+            })
+        );
+        await new Promise(resolve => setTimeout(resolve));
+
+        expect(logger.warn).toBeCalledWith('Failed to apply the theme override of the content options', error);
+        expect(logger.warn).toBeCalledWith('Failed to preload the themes of the content options', error);
+    });
+
     it('should emit warning if with unrecognized content options', () => {
         const frameOptions = {
             url: TEST_DASHBOARD_URL,
@@ -435,6 +491,8 @@ describe('DashboardExperience', () => {
 
             controlExperience.controlFrameMessageListener(
                 new MessageEvent('message', {
+                    origin: TEST_MESSAGE_ORIGIN,
+                    source: getEmbeddingFrameWindow(),
                     data: {
                         eventTarget: {
                             experienceType: ExperienceType.DASHBOARD,
@@ -451,6 +509,27 @@ describe('DashboardExperience', () => {
             );
 
             expect(iFrame?.height).toEqual('500px');
+
+            controlExperience.controlFrameMessageListener(
+                new MessageEvent('message', {
+                    origin: TEST_MESSAGE_ORIGIN,
+                    source: getEmbeddingFrameWindow(),
+                    data: {
+                        eventTarget: {
+                            experienceType: ExperienceType.DASHBOARD,
+                            discriminator: 0,
+                            contextId: TEST_CONTEXT_ID,
+                            dashboardId: TEST_DASHBOARD_ID,
+                        },
+                        eventName: InfoMessageEventName.SIZE_CHANGED,
+                        message: {
+                            height: null as unknown as string,
+                        },
+                    },
+                })
+            );
+
+            expect(iFrame?.height).toEqual('500px');
         });
     });
 
@@ -710,6 +789,10 @@ describe('DashboardExperience', () => {
             };
 
             await expect(wrapper).rejects.toThrowError('Failed to retrieve the sheets');
+            await expect(wrapper).rejects.toMatchObject({
+                code: EmbeddingErrorCode.COMMAND_REJECTED,
+                eventName: MessageEventName.GET_SHEETS,
+            });
         });
 
         it('should emit GET_SELECTED_SHEET_ID event when getSelectedSheetId is called', async () => {
@@ -807,4 +890,534 @@ describe('DashboardExperience', () => {
             );
         });
     });
+
+    describe('State', () => {
+        const REGION_FILTER_GROUP: FilterGroup = {
+            FilterGroupId: 'region',
+            Filters: [],
+            ScopeConfiguration: {AllSheets: {}},
+            CrossDataset: 'ALL_DATASETS',
+        };
+        const ADDED_FILTER_GROUP: FilterGroup = {...REGION_FILTER_GROUP, FilterGroupId: 'added'};
+        const VISUAL_ACTION = {
+            CustomActionId: 'action1',
+            Name: 'Drill down',
+            Trigger: 'DATA_POINT_CLICK',
+            ActionOperations: [],
+        };
+        const DASHBOARD_STATE: DashboardState = {
+            sheetId: 'sheet2',
+            parameters: [{Name: 'State', Values: ['WA']}],
+            filterGroups: {sheet1: [REGION_FILTER_GROUP], sheet2: [REGION_FILTER_GROUP, ADDED_FILTER_GROUP]},
+            visualActions: [{sheetId: 'sheet1', visualId: 'visual1', actions: [VISUAL_ACTION]}],
+            theme: {themeArn: TEST_THEME_ARN, themeOverride: {UIColorPalette: {PrimaryBackground: '#000000'}}},
+        };
+
+        const createDashboardExperience = (respond: (eventName: string) => unknown) => {
+            const dashboardExperience = new DashboardExperience(
+                {url: TEST_DASHBOARD_URL, container: TEST_CONTAINER},
+                {themeOptions: {themeArn: TEST_THEME_ARN}},
+                TEST_CONTROL_OPTIONS,
+                new Set<string>()
+            );
+            const mockSend = jest.fn().mockImplementation(({eventName}) => Promise.resolve(respond(eventName)));
+            jest.spyOn(dashboardExperience, 'send').mockImplementation(mockSend);
+            return {dashboardExperience, mockSend};
+        };
+
+        it('should capture the selected sheet, parameters, filter groups, visual actions and theme', async () => {
+            const {dashboardExperience} = createDashboardExperience(eventName => {
+                switch (eventName) {
+                    case MessageEventName.GET_SELECTED_SHEET_ID:
+                        return {message: 'sheet2'};
+                    case MessageEventName.GET_PARAMETERS:
+                        return {message: [{Name: 'State', Values: ['WA']}]};
+                    case MessageEventName.GET_SHEETS:
+                        return {message: [{SheetId: 'sheet1'}, {SheetId: 'sheet2'}]};
+                    case MessageEventName.GET_FILTER_GROUPS_FOR_SHEET:
+                        return {message: [REGION_FILTER_GROUP]};
+                    case MessageEventName.GET_SHEET_VISUALS:
+                        return {message: [{VisualId: 'visual1'}]};
+                    case MessageEventName.GET_VISUAL_ACTIONS:
+                        return {message: [VISUAL_ACTION]};
+                    default:
+                        return {success: true};
+                }
+            });
+            await dashboardExperience.setThemeOverride({UIColorPalette: {PrimaryBackground: '#000000'}});
+
+            const state = await dashboardExperience.getState();
+
+            expect(state).toEqual({
+                sheetId: 'sheet2',
+                parameters: [{Name: 'State', Values: ['WA']}],
+                filterGroups: {sheet1: [REGION_FILTER_GROUP], sheet2: [REGION_FILTER_GROUP]},
+                visualActions: [
+                    {sheetId: 'sheet1', visualId: 'visual1', actions: [VISUAL_ACTION]},
+                    {sheetId: 'sheet2', visualId: 'visual1', actions: [VISUAL_ACTION]},
+                ],
+                theme: {themeArn: TEST_THEME_ARN, themeOverride: {UIColorPalette: {PrimaryBackground: '#000000'}}},
+            });
+            expect(JSON.parse(JSON.stringify(state))).toEqual(state);
+        });
+
+        it('should replay the state in order and add the filter groups the dashboard does not have', async () => {
+            const {dashboardExperience, mockSend} = createDashboardExperience(eventName =>
+                eventName === MessageEventName.GET_FILTER_GROUPS_FOR_SHEET
+                    ? {message: [REGION_FILTER_GROUP]}
+                    : {success: true}
+            );
+
+            await dashboardExperience.applyState(DASHBOARD_STATE);
+
+            const commands = mockSend.mock.calls
+                .map(([{eventName}]) => eventName)
+                .filter(eventName => eventName !== MessageEventName.GET_FILTER_GROUPS_FOR_SHEET);
+            expect(commands).toEqual([
+                MessageEventName.SET_THEME,
+                MessageEventName.SET_THEME_OVERRIDE,
+                MessageEventName.SET_PARAMETERS,
+                MessageEventName.UPDATE_FILTER_GROUPS,
+                MessageEventName.ADD_FILTER_GROUPS,
+                MessageEventName.SET_VISUAL_ACTIONS,
+                MessageEventName.SET_SELECTED_SHEET_ID,
+            ]);
+            expect(mockSend).toBeCalledWith(
+                expect.objectContaining({
+                    eventName: MessageEventName.UPDATE_FILTER_GROUPS,
+                    message: [REGION_FILTER_GROUP],
+                })
+            );
+            expect(mockSend).toBeCalledWith(
+                expect.objectContaining({
+                    eventName: MessageEventName.ADD_FILTER_GROUPS,
+                    message: [ADDED_FILTER_GROUP],
+                })
+            );
+        });
+
+        it('should reject with CommandRejectedError at the first step the dashboard does not accept', async () => {
+            const {dashboardExperience, mockSend} = createDashboardExperience(eventName =>
+                eventName === MessageEventName.SET_PARAMETERS
+                    ? {success: false, errorCode: 'INVALID_PARAMETER'}
+                    : {message: [], success: true}
+            );
+
+            await expect(dashboardExperience.applyState(DASHBOARD_STATE)).rejects.toMatchObject({
+                code: EmbeddingErrorCode.COMMAND_REJECTED,
+                eventName: MessageEventName.SET_PARAMETERS,
+                response: {success: false, errorCode: 'INVALID_PARAMETER'},
+            });
+            expect(mockSend).not.toBeCalledWith(
+                expect.objectContaining({eventName: MessageEventName.SET_SELECTED_SHEET_ID})
+            );
+        });
+    });
+
+    describe('Parameters', () => {
+        it('should pass the parameters built with the parameter builders in the experience url', () => {
+            new DashboardExperience(
+                {url: TEST_DASHBOARD_URL, container: TEST_CONTAINER},
+                {
+                    parameters: [
+                        dateParameter('Start', new Date(Date.UTC(2023, 4, 9, 7, 5, 3))),
+                        numberParameter('Years', [2022, 2023]),
+                        allValuesParameter('State'),
+                    ],
+                },
+                {...TEST_CONTROL_OPTIONS, eventManager: new EventManager()},
+                new Set<string>()
+            );
+
+            expect(new URL(TEST_CONTAINER.querySelector('iframe')!.src).hash).toEqual(
+                '#p.Start=2023-05-09%2007%3A05%3A03&p.Years=2022&p.Years=2023&p.State=ALL_VALUES'
+            );
+        });
+
+        it('should add the previous values of the parameters to PARAMETERS_CHANGED and keep a snapshot', () => {
+            const testEventManager = new EventManager();
+            const dashboardExperience = new DashboardExperience(
+                {url: TEST_DASHBOARD_URL, container: TEST_CONTAINER},
+                {parameters: [{Name: 'State', Values: ['WA']}]},
+                {...TEST_CONTROL_OPTIONS, eventManager: testEventManager},
+                new Set<string>()
+            );
+            const listener = jest.fn();
+            dashboardExperience.addEventListener(MessageEventName.PARAMETERS_CHANGED, listener);
+
+            testEventManager.invokeEventListener(dashboardExperience.getExperienceId(), {
+                eventName: MessageEventName.PARAMETERS_CHANGED,
+                eventTarget: {
+                    experienceType: ExperienceType.DASHBOARD,
+                    contextId: TEST_CONTEXT_ID,
+                    dashboardId: TEST_DASHBOARD_ID,
+                },
+                message: {changedParameters: [{Name: 'State', Values: ['OR']}]},
+            });
+
+            expect(listener).toBeCalledWith(
+                expect.objectContaining({
+                    message: {
+                        changedParameters: [{Name: 'State', Values: ['OR']}],
+                        parameterChanges: [{Name: 'State', PreviousValues: ['WA'], Values: ['OR']}],
+                    },
+                }),
+                undefined
+            );
+            expect(dashboardExperience.getParameterSnapshot()).toEqual([{Name: 'State', Values: ['OR']}]);
+        });
+    });
+
+    describe('Url sync', () => {
+        it('should stop syncing with the page url when the experience is unmounted', () => {
+            const dashboardExperience = new DashboardExperience(
+                {url: TEST_DASHBOARD_URL, container: TEST_CONTAINER},
+                {},
+                {...TEST_CONTROL_OPTIONS, eventManager: new EventManager()},
+                new Set<string>()
+            );
+            const setSelectedSheetId = jest
+                .spyOn(dashboardExperience, 'setSelectedSheetId')
+                .mockResolvedValue({success: true});
+
+            dashboardExperience.syncWithUrl();
+            dashboardExperience.unmount();
+            window.history.replaceState(null, '', '/?qs.sheet=sheet2');
+            window.dispatchEvent(new PopStateEvent('popstate'));
+            window.history.replaceState(null, '', '/');
+
+            expect(setSelectedSheetId).not.toBeCalled();
+        });
+    });
+
+    describe('Session refresh', () => {
+        const TEST_REFRESHED_URL = `https://test.amazon.com/embed/newGuid/dashboards/${TEST_DASHBOARD_ID}`;
+        const FILTER_GROUPS = [{FilterGroupId: '123', Filters: [], CrossDataset: 'ALL_DATASETS'}];
+
+        const initialize = (controlExperience: ControlExperience, contextId: string) =>
+            controlExperience.controlFrameMessageListener(
+                new MessageEvent('message', {
+                    origin: TEST_MESSAGE_ORIGIN,
+                    source: getControlFrameWindow(contextId),
+                    data: {
+                        eventTarget: {
+                            experienceType: ExperienceType.DASHBOARD,
+                            discriminator: 0,
+                            contextId,
+                            dashboardId: TEST_DASHBOARD_ID,
+                        },
+                        eventName: InfoMessageEventName.EXPERIENCE_INITIALIZED,
+                        message: {},
+                    },
+                })
+            );
+
+        it('should reload the frame with the new url and keep the selected sheet, parameters and filter groups', async () => {
+            const refreshControlFrame = jest.fn();
+            const controlOptions = {...TEST_CONTROL_OPTIONS, contextId: 'refreshContextId', refreshControlFrame};
+            const controlExperience = new ControlExperience(window.document.body as HTMLBodyElement, controlOptions);
+            const dashboardExperience = new DashboardExperience(
+                {url: TEST_DASHBOARD_URL, container: TEST_CONTAINER, onChange: onChangeSpy},
+                {},
+                controlOptions,
+                new Set<string>()
+            );
+            const mockSend = jest.fn().mockImplementation(({eventName}) => {
+                switch (eventName) {
+                    case MessageEventName.GET_SELECTED_SHEET_ID:
+                        return Promise.resolve({message: 'sheet2'});
+                    case MessageEventName.GET_PARAMETERS:
+                        return Promise.resolve({message: [{Name: 'State', Values: ['WA']}]});
+                    case MessageEventName.GET_FILTER_GROUPS_FOR_SHEET:
+                        return Promise.resolve({message: FILTER_GROUPS});
+                    default:
+                        return Promise.resolve({success: true});
+                }
+            });
+            jest.spyOn(dashboardExperience, 'send').mockImplementation(mockSend);
+            initialize(controlExperience, 'refreshContextId');
+
+            await dashboardExperience.refreshSession(TEST_REFRESHED_URL);
+
+            const iFrames = TEST_CONTAINER.querySelectorAll('iframe');
+            expect(iFrames.length).toEqual(1);
+            expect(iFrames[0].src.startsWith(TEST_REFRESHED_URL)).toBeTruthy();
+            expect(new URL(iFrames[0].src).searchParams.get('sheetId')).toEqual('sheet2');
+            expect(new URL(iFrames[0].src).hash).toEqual('#p.State=WA');
+            expect(refreshControlFrame).toBeCalledWith(TEST_REFRESHED_URL);
+            expect(onChangeSpy).toHaveBeenLastCalledWith(
+                expect.objectContaining({
+                    eventName: ChangeEventName.SESSION_REFRESHED,
+                }),
+                {frame: iFrames[0]}
+            );
+
+            initialize(controlExperience, 'refreshContextId');
+
+            expect(mockSend).toHaveBeenLastCalledWith(
+                expect.objectContaining({
+                    eventName: MessageEventName.UPDATE_FILTER_GROUPS,
+                    message: FILTER_GROUPS,
+                })
+            );
+        });
+
+        it('should capture the state with a short timeout and keep the mirrored parameters when it fails', async () => {
+            const controlOptions = {...TEST_CONTROL_OPTIONS, contextId: 'captureContextId'};
+            const controlExperience = new ControlExperience(window.document.body as HTMLBodyElement, controlOptions);
+            const dashboardExperience = new DashboardExperience(
+                {url: TEST_DASHBOARD_URL, container: TEST_CONTAINER},
+                {parameters: [{Name: 'State', Values: ['WA']}]},
+                controlOptions,
+                new Set<string>()
+            );
+            const mockSend = jest.fn().mockImplementation(({eventName}) => {
+                if (eventName === MessageEventName.SET_PARAMETERS) {
+                    return Promise.resolve({success: true});
+                }
+
+                return Promise.reject(new Error('Timed out'));
+            });
+            jest.spyOn(dashboardExperience, 'send').mockImplementation(mockSend);
+            initialize(controlExperience, 'captureContextId');
+
+            await dashboardExperience.setParameters([{Name: 'State', Values: ['OR']}]);
+            await dashboardExperience.refreshSession(TEST_REFRESHED_URL);
+
+            expect(mockSend).toBeCalledWith(expect.objectContaining({eventName: MessageEventName.GET_PARAMETERS}), {
+                timeoutMs: 1000,
+            });
+            expect(new URL(TEST_CONTAINER.querySelector('iframe')?.src as string).hash).toEqual('#p.State=OR');
+        });
+
+        it('should refresh an experience that never initialized without waiting for its state', async () => {
+            jest.useFakeTimers();
+            const dashboardExperience = new DashboardExperience(
+                {url: TEST_DASHBOARD_URL, container: TEST_CONTAINER},
+                {parameters: [{Name: 'State', Values: ['WA']}], sheetOptions: {initialSheetId: 'sheet2'}},
+                TEST_CONTROL_OPTIONS,
+                new Set<string>()
+            );
+
+            try {
+                // The timers are not advanced, the refresh would never resolve if it waited for the queued getters
+                await dashboardExperience.refreshSession(TEST_REFRESHED_URL);
+            } finally {
+                jest.useRealTimers();
+            }
+
+            const url = new URL(TEST_CONTAINER.querySelector('iframe')?.src as string);
+            expect(url.href.startsWith(TEST_REFRESHED_URL)).toBeTruthy();
+            expect(url.searchParams.get('sheetId')).toEqual('sheet2');
+            expect(url.hash).toEqual('#p.State=WA');
+        });
+
+        it('should request the url from the url provider when no url is given', async () => {
+            const getSessionUrl = jest.fn().mockResolvedValue(TEST_REFRESHED_URL);
+            const dashboardExperience = new DashboardExperience(
+                {url: TEST_DASHBOARD_URL, container: TEST_CONTAINER},
+                {},
+                {...TEST_CONTROL_OPTIONS, getSessionUrl},
+                new Set<string>()
+            );
+            jest.spyOn(dashboardExperience, 'send').mockRejectedValue(new Error('Session expired'));
+
+            await dashboardExperience.refreshSession();
+
+            expect(getSessionUrl).toBeCalledWith({
+                experienceType: ExperienceType.DASHBOARD,
+                dashboardId: TEST_DASHBOARD_ID,
+            });
+            expect(TEST_CONTAINER.querySelector('iframe')?.src.startsWith(TEST_REFRESHED_URL)).toBeTruthy();
+        });
+
+        it('should throw error if the url points at another dashboard', async () => {
+            const dashboardExperience = new DashboardExperience(
+                {url: TEST_DASHBOARD_URL, container: TEST_CONTAINER, onChange: onChangeSpy},
+                {},
+                TEST_CONTROL_OPTIONS,
+                new Set<string>()
+            );
+
+            await expect(
+                dashboardExperience.refreshSession('https://test.amazon.com/embed/newGuid/dashboards/otherDashboard')
+            ).rejects.toThrow('The session url does not match the embedded experience');
+            expect(onChangeSpy).toHaveBeenLastCalledWith(
+                expect.objectContaining({eventName: ChangeEventName.INVALID_URL}),
+                expect.any(Object)
+            );
+        });
+        it('should wait for the reloaded frame to be initialized after the session is refreshed', async () => {
+            const controlOptions = {...TEST_CONTROL_OPTIONS, contextId: 'readyContextId'};
+            const controlExperience = new ControlExperience(window.document.body as HTMLBodyElement, controlOptions);
+            const dashboardExperience = new DashboardExperience(
+                {url: TEST_DASHBOARD_URL, container: TEST_CONTAINER},
+                {},
+                controlOptions,
+                new Set<string>()
+            );
+            jest.spyOn(dashboardExperience, 'send').mockRejectedValue(new Error('Session expired'));
+            const isReady = () =>
+                Promise.race([dashboardExperience.whenReady().then(() => true), Promise.resolve().then(() => false)]);
+
+            expect(await isReady()).toBe(false);
+            initialize(controlExperience, 'readyContextId');
+            expect(await isReady()).toBe(true);
+
+            await dashboardExperience.refreshSession(TEST_REFRESHED_URL);
+
+            expect(await isReady()).toBe(false);
+            initialize(controlExperience, 'readyContextId');
+            expect(await isReady()).toBe(true);
+        });
+    });
+
+    describe('Session recovery', () => {
+        const TEST_RECOVERY_CONTEXT_ID = 'recoveryContextId';
+        const TEST_REFRESHED_URL = `https://test.amazon.com/embed/newGuid/dashboards/${TEST_DASHBOARD_ID}`;
+        const controlOptions = {
+            ...TEST_CONTROL_OPTIONS,
+            contextId: TEST_RECOVERY_CONTEXT_ID,
+            timeout: ControlExperience.FRAME_TIMEOUT,
+        };
+        let controlExperience: ControlExperience;
+
+        const emitError = (errorCode: string) => {
+            controlExperience.controlFrameMessageListener(
+                new MessageEvent('message', {
+                    origin: TEST_MESSAGE_ORIGIN,
+                    source: getControlFrameWindow(TEST_RECOVERY_CONTEXT_ID),
+                    data: {
+                        eventTarget: {
+                            experienceType: ExperienceType.DASHBOARD,
+                            discriminator: 0,
+                            contextId: TEST_RECOVERY_CONTEXT_ID,
+                            dashboardId: TEST_DASHBOARD_ID,
+                        },
+                        eventName: InfoMessageEventName.ERROR_OCCURRED,
+                        message: {errorCode},
+                    },
+                })
+            );
+        };
+
+        // Flushes the promise chain of the recovery, firing the backoff timers in between
+        const waitForRecovery = async () => {
+            for (let i = 0; i < 20; i++) {
+                await Promise.resolve();
+                jest.advanceTimersByTime(0);
+            }
+        };
+
+        beforeEach(() => {
+            jest.useFakeTimers();
+            controlExperience = new ControlExperience(window.document.body as HTMLBodyElement, controlOptions);
+        });
+
+        afterEach(() => {
+            jest.useRealTimers();
+        });
+
+        it('should re-embed the dashboard when the session expires', async () => {
+            const urlProvider = jest.fn().mockResolvedValue(TEST_REFRESHED_URL);
+            const dashboardExperience = new DashboardExperience(
+                {
+                    url: TEST_DASHBOARD_URL,
+                    container: TEST_CONTAINER,
+                    sessionRecovery: {urlProvider, backoffMs: 0},
+                },
+                {},
+                controlOptions,
+                new Set<string>()
+            );
+            jest.spyOn(dashboardExperience, 'send').mockRejectedValue(new Error('Session expired'));
+
+            emitError('Unauthorized');
+            await waitForRecovery();
+
+            expect(urlProvider).toBeCalledWith({
+                experienceType: ExperienceType.DASHBOARD,
+                dashboardId: TEST_DASHBOARD_ID,
+            });
+            expect(TEST_CONTAINER.querySelector('iframe')?.src.startsWith(TEST_REFRESHED_URL)).toBeTruthy();
+
+            dashboardExperience.unmount();
+        });
+
+        it('should ignore errors that are not session expiry errors', async () => {
+            const urlProvider = jest.fn().mockResolvedValue(TEST_REFRESHED_URL);
+            const dashboardExperience = new DashboardExperience(
+                {
+                    url: TEST_DASHBOARD_URL,
+                    container: TEST_CONTAINER,
+                    sessionRecovery: {urlProvider, errorCodes: ['CUSTOM_EXPIRY']},
+                },
+                {},
+                controlOptions,
+                new Set<string>()
+            );
+
+            emitError('Unauthorized');
+            await waitForRecovery();
+
+            expect(urlProvider).not.toBeCalled();
+
+            dashboardExperience.unmount();
+        });
+
+        it('should emit SESSION_RECOVERY_FAILED when every attempt fails', async () => {
+            const urlProvider = jest.fn().mockRejectedValue(new Error('Failed to generate url'));
+            const dashboardExperience = new DashboardExperience(
+                {
+                    url: TEST_DASHBOARD_URL,
+                    container: TEST_CONTAINER,
+                    onChange: onChangeSpy,
+                    sessionRecovery: {urlProvider, maxAttempts: 2, backoffMs: 0},
+                },
+                {},
+                controlOptions,
+                new Set<string>()
+            );
+
+            emitError('Unauthorized');
+            emitError('Unauthorized');
+            await waitForRecovery();
+
+            expect(urlProvider).toBeCalledTimes(2);
+            expect(onChangeSpy).toHaveBeenLastCalledWith(
+                expect.objectContaining({
+                    eventName: ChangeEventName.SESSION_RECOVERY_FAILED,
+                    eventLevel: ChangeEventLevel.ERROR,
+                }),
+                expect.any(Object)
+            );
+
+            dashboardExperience.unmount();
+        });
+
+        it('should stop recovering the session when the experience is unmounted', async () => {
+            const urlProvider = jest.fn().mockRejectedValue(new Error('Failed to generate url'));
+            const dashboardExperience = new DashboardExperience(
+                {
+                    url: TEST_DASHBOARD_URL,
+                    container: TEST_CONTAINER,
+                    onChange: onChangeSpy,
+                    sessionRecovery: {urlProvider, maxAttempts: 3, backoffMs: 0},
+                },
+                {},
+                controlOptions,
+                new Set<string>()
+            );
+
+            emitError('Forbidden');
+            dashboardExperience.unmount();
+            await waitForRecovery();
+
+            expect(urlProvider).toBeCalledTimes(1);
+            expect(onChangeSpy).not.toBeCalledWith(
+                expect.objectContaining({eventName: ChangeEventName.SESSION_RECOVERY_FAILED}),
+                expect.anything()
+            );
+        });
+    });
 });
@@ -0,0 +1,155 @@
+import {DashboardExperience} from '@experience/dashboard-experience/dashboard-experience';
+import {DashboardUrlSync} from '@experience/dashboard-experience/url-sync';
+import {EventListener} from '@common/event-manager/types';
+import {EmbeddingEvents, MessageEventName} from '@common/events/types';
+import {ExperienceType} from '@experience/base-experience/types';
+
+describe('DashboardUrlSync', () => {
+    const eventTarget = {experienceType: ExperienceType.DASHBOARD, contextId: '', dashboardId: 'dashboardId'};
+    const remove = jest.fn();
+    let onDashboardChange: EventListener;
+    let dashboard: {
+        addEventListener: jest.Mock;
+        setParameters: jest.Mock;
+        setSelectedSheetId: jest.Mock;
+    };
+
+    const logger = {log: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn(), info: jest.fn()};
+    const cleanUp = {add: jest.fn(), remove: jest.fn()};
+
+    const createUrlSync = (options?: ConstructorParameters<typeof DashboardUrlSync>[1]) =>
+        new DashboardUrlSync(dashboard as unknown as DashboardExperience, options, logger, cleanUp);
+
+    const emit = (event: object) => onDashboardChange({...event, eventTarget} as EmbeddingEvents);
+
+    beforeEach(() => {
+        window.history.replaceState(null, '', '/report?tab=1');
+        remove.mockClear();
+        logger.warn.mockClear();
+        cleanUp.add.mockClear();
+        cleanUp.remove.mockClear();
+        dashboard = {
+            addEventListener: jest.fn((filter, listener) => {
+                onDashboardChange = listener;
+                return {remove};
+            }),
+            setParameters: jest.fn().mockResolvedValue({success: true}),
+            setSelectedSheetId: jest.fn().mockResolvedValue({success: true}),
+        };
+    });
+
+    it('should apply the sheet and parameters of the page url when started', () => {
+        window.history.replaceState(null, '', '/report?tab=1&qs.sheet=sheet2&qs.p.State=WA&qs.p.State=OR');
+
+        createUrlSync().start();
+
+        expect(dashboard.addEventListener).toBeCalledWith(
+            [MessageEventName.PARAMETERS_CHANGED, MessageEventName.SELECTED_SHEET_CHANGED],
+            expect.any(Function)
+        );
+        expect(dashboard.setParameters).toBeCalledWith([{Name: 'State', Values: ['WA', 'OR']}]);
+        expect(dashboard.setSelectedSheetId).toBeCalledWith('sheet2');
+    });
+
+    it('should write the changes of the dashboard to the query string and keep the rest of the url', () => {
+        const historyLength = window.history.length;
+        createUrlSync().start();
+
+        emit({
+            eventName: MessageEventName.PARAMETERS_CHANGED,
+            message: {changedParameters: [{Name: 'State', Values: ['WA', 'OR']}]},
+        });
+        emit({
+            eventName: MessageEventName.SELECTED_SHEET_CHANGED,
+            message: {selectedSheet: {SheetId: 'sheet2'}},
+        });
+
+        expect(dashboard.setParameters).not.toBeCalled();
+        expect(window.location.pathname).toEqual('/report');
+        expect(window.location.search).toEqual('?tab=1&qs.sheet=sheet2&qs.p.State=WA&qs.p.State=OR');
+        expect(window.history.length).toEqual(historyLength);
+    });
+
+    it('should push history entries to the hash and apply them on popstate', () => {
+        const historyLength = window.history.length;
+        const urlSync = createUrlSync({mode: 'hash', prefix: 'dash-', history: 'push'}).start();
+
+        emit({
+            eventName: MessageEventName.SELECTED_SHEET_CHANGED,
+            message: {selectedSheet: {SheetId: 'sheet2'}},
+        });
+        emit({
+            eventName: MessageEventName.SELECTED_SHEET_CHANGED,
+            message: {selectedSheet: {SheetId: 'sheet2'}},
+        });
+
+        expect(window.location.search).toEqual('?tab=1');
+        expect(window.location.hash).toEqual('#dash-sheet=sheet2');
+        expect(window.history.length).toEqual(historyLength + 1);
+
+        window.history.replaceState(null, '', '/report?tab=1#dash-sheet=sheet1&dash-p.State=WA');
+        window.dispatchEvent(new PopStateEvent('popstate'));
+
+        expect(dashboard.setSelectedSheetId).toBeCalledWith('sheet1');
+        expect(dashboard.setParameters).toBeCalledWith([{Name: 'State', Values: ['WA']}]);
+
+        urlSync.stop();
+        window.history.replaceState(null, '', '/report?tab=1#dash-sheet=sheet3');
+        window.dispatchEvent(new PopStateEvent('popstate'));
+
+        expect(remove).toBeCalled();
+        expect(dashboard.setSelectedSheetId).not.toBeCalledWith('sheet3');
+    });
+
+    it('should keep the route of the hash and write the keys after it', () => {
+        window.history.replaceState(null, '', '/app#/reports/42');
+        const urlSync = createUrlSync({mode: 'hash'}).start();
+
+        emit({
+            eventName: MessageEventName.SELECTED_SHEET_CHANGED,
+            message: {selectedSheet: {SheetId: 's1'}},
+        });
+
+        expect(window.location.pathname).toEqual('/app');
+        expect(window.location.hash).toEqual('#/reports/42?qs.sheet=s1');
+
+        window.history.replaceState(null, '', '/app#/reports/43?view=table&qs.sheet=s2&qs.p.State=WA');
+        window.dispatchEvent(new PopStateEvent('popstate'));
+
+        expect(dashboard.setSelectedSheetId).toBeCalledWith('s2');
+        expect(dashboard.setParameters).toBeCalledWith([{Name: 'State', Values: ['WA']}]);
+
+        emit({
+            eventName: MessageEventName.SELECTED_SHEET_CHANGED,
+            message: {selectedSheet: {SheetId: 's3'}},
+        });
+
+        expect(window.location.hash).toEqual('#/reports/43?view=table&qs.sheet=s3&qs.p.State=WA');
+
+        urlSync.stop();
+    });
+
+    it('should register its stop for the cleanup of the experience until it is stopped', () => {
+        const urlSync = createUrlSync().start();
+
+        expect(cleanUp.add).toBeCalledWith(urlSync.stop);
+
+        urlSync.stop();
+
+        expect(cleanUp.remove).toBeCalledWith(urlSync.stop);
+    });
+
+    it('should log a warning when the page url can not be applied', async () => {
+        const error = new Error('Timed out');
+        dashboard.setParameters.mockRejectedValue(error);
+        dashboard.setSelectedSheetId.mockRejectedValue(error);
+        window.history.replaceState(null, '', '/report?qs.sheet=sheet2&qs.p.Year=2023');
+
+        createUrlSync().start();
+        await new Promise(resolve => setTimeout(resolve));
+
+        expect(dashboard.setParameters).toBeCalledWith([{Name: 'Year', Values: ['2023']}]);
+        expect(logger.warn).toBeCalledWith('Failed to apply the parameters of the page url', error);
+        expect(logger.warn).toBeCalledWith('Failed to apply the sheet of the page url', error);
+    });
+});
@@ -5,6 +5,13 @@ import {EventManager} from '@common/event-manager/event-manager';
 import {QSearchExperience} from '@experience/q-search-experience/q-search-experience';
 import {ControlExperience} from '@experience/control-experience/control-experience';
 import {SDK_VERSION} from '@experience/base-experience/frame/experience-frame';
+import {Iframe} from '@common/iframe/iframe';
+
+const TEST_MESSAGE_ORIGIN = 'https://localhost.com';
+// Frames are added to the document as the tests go, the last one belongs to the latest control experience
+const getEmbeddingFrameWindow = () =>
+    Array.from(window.document.querySelectorAll<HTMLIFrameElement>(`iframe.${Iframe.IFRAME_CLASS_NAME}`)).pop()
+        ?.contentWindow ?? null;
 
 describe('QSearchExperience', () => {
     let TEST_CONTAINER: HTMLElement;
@@ -237,6 +244,8 @@ describe('QSearchExperience', () => {
 
             controlExperience.controlFrameMessageListener(
                 new MessageEvent('message', {
+                    origin: TEST_MESSAGE_ORIGIN,
+                    source: getEmbeddingFrameWindow(),
                     data: {
                         eventTarget: TEST_INTERNAL_EXPERIENCE,
                         eventName: MessageEventName.Q_SEARCH_OPENED,
@@ -251,6 +260,8 @@ describe('QSearchExperience', () => {
 
             controlExperience.controlFrameMessageListener(
                 new MessageEvent('message', {
+                    origin: TEST_MESSAGE_ORIGIN,
+                    source: getEmbeddingFrameWindow(),
                     data: {
                         eventTarget: TEST_INTERNAL_EXPERIENCE,
                         eventName: MessageEventName.Q_SEARCH_OPENED,
@@ -260,6 +271,20 @@ describe('QSearchExperience', () => {
             );
 
             expect(iFrame?.style.height).toEqual('500px');
+
+            controlExperience.controlFrameMessageListener(
+                new MessageEvent('message', {
+                    origin: TEST_MESSAGE_ORIGIN,
+                    source: getEmbeddingFrameWindow(),
+                    data: {
+                        eventTarget: TEST_INTERNAL_EXPERIENCE,
+                        eventName: MessageEventName.Q_SEARCH_OPENED,
+                        message: {height: null as unknown as string},
+                    },
+                })
+            );
+
+            expect(iFrame?.style.height).toEqual('500px');
         });
 
         it('should enter full screen mode when Q_SEARCH_ENTERED_FULLSCREEN is emitted', () => {
@@ -278,6 +303,8 @@ describe('QSearchExperience', () => {
 
             controlExperience.controlFrameMessageListener(
                 new MessageEvent('message', {
+                    origin: TEST_MESSAGE_ORIGIN,
+                    source: getEmbeddingFrameWindow(),
                     data: {
                         eventTarget: TEST_INTERNAL_EXPERIENCE,
                         eventName: MessageEventName.Q_SEARCH_ENTERED_FULLSCREEN,
@@ -306,6 +333,8 @@ describe('QSearchExperience', () => {
 
             controlExperience.controlFrameMessageListener(
                 new MessageEvent('message', {
+                    origin: TEST_MESSAGE_ORIGIN,
+                    source: getEmbeddingFrameWindow(),
                     data: {
                         eventTarget: TEST_INTERNAL_EXPERIENCE,
                         eventName: MessageEventName.Q_SEARCH_EXITED_FULLSCREEN,
@@ -318,6 +347,8 @@ describe('QSearchExperience', () => {
 
             controlExperience.controlFrameMessageListener(
                 new MessageEvent('message', {
+                    origin: TEST_MESSAGE_ORIGIN,
+                    source: getEmbeddingFrameWindow(),
                     data: {
                         eventTarget: TEST_INTERNAL_EXPERIENCE,
                         eventName: MessageEventName.Q_SEARCH_ENTERED_FULLSCREEN,
@@ -330,6 +361,8 @@ describe('QSearchExperience', () => {
 
             controlExperience.controlFrameMessageListener(
                 new MessageEvent('message', {
+                    origin: TEST_MESSAGE_ORIGIN,
+                    source: getEmbeddingFrameWindow(),
                     data: {
                         eventTarget: TEST_INTERNAL_EXPERIENCE,
                         eventName: MessageEventName.Q_SEARCH_EXITED_FULLSCREEN,
@@ -359,6 +392,8 @@ describe('QSearchExperience', () => {
 
             controlExperience.controlFrameMessageListener(
                 new MessageEvent('message', {
+                    origin: TEST_MESSAGE_ORIGIN,
+                    source: getEmbeddingFrameWindow(),
                     data: {
                         eventTarget: TEST_INTERNAL_EXPERIENCE,
                         eventName: MessageEventName.CONTENT_LOADED,
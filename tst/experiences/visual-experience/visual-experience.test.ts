@@ -7,6 +7,13 @@ import {VisualExperience} from '@experience/visual-experience/visual-experience'
 import {ControlExperience} from '@experience/control-experience/control-experience';
 import {InfoMessageEventName} from '@common/events/messages';
 import {SDK_VERSION} from '@experience/base-experience/frame/experience-frame';
+import {Iframe} from '@common/iframe/iframe';
+
+const TEST_MESSAGE_ORIGIN = 'https://localhost.com';
+// Frames are added to the document as the tests go, the last one belongs to the latest control experience
+const getEmbeddingFrameWindow = () =>
+    Array.from(window.document.querySelectorAll<HTMLIFrameElement>(`iframe.${Iframe.IFRAME_CLASS_NAME}`)).pop()
+        ?.contentWindow ?? null;
 
 describe('VisualExperience', () => {
     let TEST_CONTAINER: HTMLElement;
@@ -203,6 +210,8 @@ describe('VisualExperience', () => {
 
         controlExperience.controlFrameMessageListener(
             new MessageEvent('message', {
+                origin: TEST_MESSAGE_ORIGIN,
+                source: getEmbeddingFrameWindow(),
                 data: {
                     eventTarget: TEST_INTERNAL_EXPERIENCE,
                     eventName: InfoMessageEventName.EXPERIENCE_INITIALIZED,
@@ -312,6 +321,41 @@ describe('VisualExperience', () => {
         expect(createVisualFrameWrapper).toThrowError('Invalid visual experience URL');
     });
 
+    it('should log a warning when the theme options can not be applied', async () => {
+        const body = window.document.querySelector('body');
+        const controlExperience = new ControlExperience(body!, TEST_CONTROL_OPTIONS);
+        const logger = {log: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn(), info: jest.fn()};
+        const error = new Error('Timed out');
+        const visualExperience = new VisualExperience(
+            {url: TEST_VISUAL_URL, container: TEST_CONTAINER},
+            {
+                themeOptions: {
+                    themeOverride: {Typography: {FontFamilies: [{FontFamily: 'Comic Neue'}]}},
+                    preloadThemes: ['arn:aws:quicksight::aws:theme/RAINIER'],
+                },
+            },
+            TEST_CONTROL_OPTIONS,
+            new Set<string>()
+        ).setLogProvider(logger);
+        jest.spyOn(visualExperience, 'send').mockRejectedValue(error);
+
+        controlExperience.controlFrameMessageListener(
+            new MessageEvent('message', {
+                origin: TEST_MESSAGE_ORIGIN,
+                source: getEmbeddingFrameWindow(),
+                data: {
+                    eventTarget: TEST_INTERNAL_EXPERIENCE,
+                    eventName: InfoMessageEventName.EXPERIENCE_INITIALIZED,
+                    message: {},
+                },
+            })
+        );
+        await new Promise(resolve => setTimeout(resolve));
+
+        expect(logger.warn).toBeCalledWith('Failed to apply the theme override of the content options', error);
+        expect(logger.warn).toBeCalledWith('Failed to preload the themes of the content options', error);
+    });
+
     it('should emit warning if with unrecognized content options', () => {
         const frameOptions = {
             url: TEST_VISUAL_URL,
@@ -406,6 +450,8 @@ describe('VisualExperience', () => {
 
             controlExperience.controlFrameMessageListener(
                 new MessageEvent('message', {
+                    origin: TEST_MESSAGE_ORIGIN,
+                    source: getEmbeddingFrameWindow(),
                     data: {
                         eventTarget: TEST_INTERNAL_EXPERIENCE,
                         eventName: InfoMessageEventName.SIZE_CHANGED,
@@ -417,6 +463,51 @@ describe('VisualExperience', () => {
             );
 
             expect(iframe?.height).toEqual('500px');
+
+            controlExperience.controlFrameMessageListener(
+                new MessageEvent('message', {
+                    origin: TEST_MESSAGE_ORIGIN,
+                    source: getEmbeddingFrameWindow(),
+                    data: {
+                        eventTarget: TEST_INTERNAL_EXPERIENCE,
+                        eventName: InfoMessageEventName.SIZE_CHANGED,
+                        message: {
+                            height: null as unknown as string,
+                        },
+                    },
+                })
+            );
+
+            expect(iframe?.height).toEqual('500px');
+        });
+
+        it('should add the previous values of the parameters to PARAMETERS_CHANGED and keep a snapshot', () => {
+            const eventManager = new EventManager();
+            const visualExperience = new VisualExperience(
+                {url: TEST_VISUAL_URL, container: TEST_CONTAINER},
+                {parameters: [{Name: 'State', Values: ['CT']}]},
+                {...TEST_CONTROL_OPTIONS, eventManager},
+                new Set<string>()
+            );
+            const listener = jest.fn();
+            visualExperience.addEventListener(MessageEventName.PARAMETERS_CHANGED, listener);
+
+            eventManager.invokeEventListener(visualExperience.getExperienceId(), {
+                eventName: MessageEventName.PARAMETERS_CHANGED,
+                eventTarget: TEST_INTERNAL_EXPERIENCE,
+                message: {changedParameters: [{Name: 'State', Values: ['WA']}]},
+            });
+
+            expect(listener).toBeCalledWith(
+                expect.objectContaining({
+                    message: {
+                        changedParameters: [{Name: 'State', Values: ['WA']}],
+                        parameterChanges: [{Name: 'State', PreviousValues: ['CT'], Values: ['WA']}],
+                    },
+                }),
+                undefined
+            );
+            expect(visualExperience.getParameterSnapshot()).toEqual([{Name: 'State', Values: ['WA']}]);
         });
     });
 
@@ -642,4 +733,51 @@ describe('VisualExperience', () => {
             );
         });
     });
+
+    describe('Session refresh', () => {
+        const TEST_REFRESHED_URL = `https://test.amazon.com/embed/newGuid/dashboards/${TEST_DASHBOARD_ID}/sheets/${TEST_SHEET_ID}/visuals/${TEST_VISUAL_ID}`;
+
+        it('should keep the filter groups of the visual when the session is refreshed', async () => {
+            const body = window.document.querySelector('body');
+            const controlExperience = new ControlExperience(body!, TEST_CONTROL_OPTIONS);
+            const visualExperience = new VisualExperience(
+                {url: TEST_VISUAL_URL, container: TEST_CONTAINER},
+                {},
+                TEST_CONTROL_OPTIONS,
+                new Set<string>()
+            );
+            const getFilterGroupsSpy = jest.spyOn(visualExperience, 'getFilterGroups').mockResolvedValue([]);
+            controlExperience.controlFrameMessageListener(
+                new MessageEvent('message', {
+                    origin: TEST_MESSAGE_ORIGIN,
+                    source: getEmbeddingFrameWindow(),
+                    data: {
+                        eventTarget: TEST_INTERNAL_EXPERIENCE,
+                        eventName: InfoMessageEventName.EXPERIENCE_INITIALIZED,
+                        message: {},
+                    },
+                })
+            );
+
+            await visualExperience.refreshSession(TEST_REFRESHED_URL);
+
+            expect(getFilterGroupsSpy).toBeCalledTimes(1);
+            expect(TEST_CONTAINER.querySelector('iframe')?.src.startsWith(TEST_REFRESHED_URL)).toBeTruthy();
+        });
+
+        it('should not request the filter groups of a visual that never initialized', async () => {
+            const visualExperience = new VisualExperience(
+                {url: TEST_VISUAL_URL, container: TEST_CONTAINER},
+                {},
+                TEST_CONTROL_OPTIONS,
+                new Set<string>()
+            );
+            const getFilterGroupsSpy = jest.spyOn(visualExperience, 'getFilterGroups');
+
+            await visualExperience.refreshSession(TEST_REFRESHED_URL);
+
+            expect(getFilterGroupsSpy).not.toBeCalled();
+            expect(TEST_CONTAINER.querySelector('iframe')?.src.startsWith(TEST_REFRESHED_URL)).toBeTruthy();
+        });
+    });
 });
@@ -1,4 +1,10 @@
-import {createEmbeddingContext} from '../src';
+import {
+    createEmbeddingContext,
+    EmbeddingTransportOptions,
+    InvalidUrlError,
+    MessageTransport,
+    UrlNotAllowedError,
+} from '../src';
 import {ChangeEventLevel, ChangeEventName} from '../src/common/events';
 import {EventListener} from '../src/common/event-manager';
 
@@ -112,6 +118,34 @@ describe('EmbeddingContext', () => {
             );
         });
 
+        it('should throw error if iframeAttributes would prevent the dashboard from loading', async () => {
+            const mockContextOnChange = jest.fn();
+            const embeddingContext = await createEmbeddingContext({
+                onChange: mockContextOnChange,
+            });
+            const embedExperienceWrapper = async () => {
+                return await embeddingContext.embedDashboard({
+                    container: TEST_CONTAINER,
+                    url: TEST_DASHBOARD_URL,
+                    iframeAttributes: {sandbox: ['allow-scripts']},
+                });
+            };
+            await expect(embedExperienceWrapper).rejects.toThrow("sandbox must include 'allow-same-origin'");
+
+            expect(mockContextOnChange).toBeCalledWith(
+                expect.objectContaining({
+                    eventLevel: ChangeEventLevel.ERROR,
+                    eventName: ChangeEventName.INVALID_FRAME_OPTIONS,
+                    data: {
+                        methodName: 'embedDashboard',
+                        iframeAttributeProblems: ["sandbox must include 'allow-same-origin'"],
+                    },
+                }),
+                {frame: null}
+            );
+            expect(TEST_CONTAINER.querySelector('iframe')).toBeNull();
+        });
+
         it('should throw error if body element is missing in DOM', async () => {
             const mockContextOnChange = jest.fn();
             jest.spyOn(document, 'getElementsByTagName').mockImplementation(
@@ -152,6 +186,7 @@ describe('EmbeddingContext', () => {
             await expect(embedExperienceWrapper).rejects.toThrow(
                 'Invalid embedding url: "https://test.amazon.com/embed/guid/dashboards/testDashboardId"'
             );
+            await expect(embedExperienceWrapper).rejects.toBeInstanceOf(InvalidUrlError);
         });
 
         it('should emit warning if frameOptions contains unrecognized properties', async () => {
@@ -363,4 +398,226 @@ describe('EmbeddingContext', () => {
             );
         });
     });
+
+    describe('createTransport', () => {
+        it('should create the transport of every frame with the given factory', async () => {
+            const createTransport = jest.fn((options: EmbeddingTransportOptions) => new MessageTransport(options));
+            const embeddingContext = await createEmbeddingContext({createTransport});
+            await embeddingContext.embedDashboard({
+                url: 'https://test.amazon.com/embed/guid/dashboards/testDashboardId?authcode=1234',
+                container: window.document.createElement('div'),
+            });
+
+            // One transport for the control frame and one for the dashboard frame
+            expect(createTransport).toBeCalledTimes(2);
+            embeddingContext.destroy();
+        });
+    });
+
+    describe('destroy', () => {
+        const TEST_DASHBOARD_URL = 'https://test.amazon.com/embed/guid/dashboards/testDashboardId?authcode=1234';
+
+        it('should remove every experience frame and the control frame', async () => {
+            const TEST_CONTAINER = window.document.createElement('div');
+            const mockContextOnChange = jest.fn();
+            const controlFrameCount = window.document.body.querySelectorAll('iframe').length;
+            const embeddingContext = await createEmbeddingContext({
+                onChange: mockContextOnChange,
+            });
+            await embeddingContext.embedDashboard({
+                url: TEST_DASHBOARD_URL,
+                container: TEST_CONTAINER,
+            });
+
+            expect(TEST_CONTAINER.querySelector('iframe')).not.toBeNull();
+            expect(window.document.body.querySelectorAll('iframe').length).toEqual(controlFrameCount + 1);
+
+            embeddingContext.destroy();
+
+            expect(TEST_CONTAINER.querySelector('iframe')).toBeNull();
+            expect(window.document.body.querySelectorAll('iframe').length).toEqual(controlFrameCount);
+            expect(mockContextOnChange).toHaveBeenLastCalledWith(
+                expect.objectContaining({
+                    eventName: ChangeEventName.CONTEXT_DESTROYED,
+                    eventLevel: ChangeEventLevel.INFO,
+                }),
+                {frame: null}
+            );
+        });
+
+        it('should throw error if an experience is embedded after the context is destroyed', async () => {
+            const mockContextOnChange = jest.fn();
+            const embeddingContext = await createEmbeddingContext({
+                onChange: mockContextOnChange,
+            });
+            embeddingContext.destroy();
+            embeddingContext.destroy();
+
+            expect(mockContextOnChange).toBeCalledTimes(1);
+
+            const embedExperienceWrapper = async () => {
+                return await embeddingContext.embedDashboard({
+                    url: TEST_DASHBOARD_URL,
+                    container: window.document.createElement('div'),
+                });
+            };
+            await expect(embedExperienceWrapper).rejects.toThrow(
+                'embedDashboard is called on a destroyed embedding context'
+            );
+        });
+    });
+
+    describe('setUrlProvider', () => {
+        it('should refresh the experience and the control frame with the url from the provider', async () => {
+            const TEST_CONTAINER = window.document.createElement('div');
+            const TEST_REFRESHED_URL = 'https://test.amazon.com/embed/newGuid/dashboards/testDashboardId?authcode=5678';
+            const urlProvider = jest.fn().mockResolvedValue(TEST_REFRESHED_URL);
+            const embeddingContext = await createEmbeddingContext();
+            embeddingContext.setUrlProvider(urlProvider);
+
+            const dashboardExperience = await embeddingContext.embedDashboard({
+                url: 'https://test.amazon.com/embed/guid/dashboards/testDashboardId?authcode=1234',
+                container: TEST_CONTAINER,
+            });
+            jest.spyOn(dashboardExperience, 'send').mockRejectedValue(new Error('Session expired'));
+
+            await dashboardExperience.refreshSession();
+
+            expect(urlProvider).toBeCalledTimes(1);
+            expect(window.document.body.querySelector('iframe[src*="/embed/newGuid/embedControl"]')).not.toBeNull();
+            expect(TEST_CONTAINER.querySelector('iframe')?.src.startsWith(TEST_REFRESHED_URL)).toBeTruthy();
+
+            embeddingContext.destroy();
+        });
+
+        it('should keep the control frame when the new url belongs to the same session', async () => {
+            const TEST_CONTAINER = window.document.createElement('div');
+            const TEST_DASHBOARD_URL = 'https://test.amazon.com/embed/guid/dashboards/testDashboardId?authcode=1234';
+            const embeddingContext = await createEmbeddingContext();
+            const dashboardExperience = await embeddingContext.embedDashboard({
+                url: TEST_DASHBOARD_URL,
+                container: TEST_CONTAINER,
+            });
+            jest.spyOn(dashboardExperience, 'send').mockRejectedValue(new Error('Session expired'));
+            const controlFrame = window.document.body.querySelector('iframe[src*="/embed/guid/embedControl"]');
+
+            await dashboardExperience.refreshSession(TEST_DASHBOARD_URL);
+
+            expect(controlFrame?.isConnected).toBeTruthy();
+
+            embeddingContext.destroy();
+        });
+
+        it('should throw error when the session is refreshed without a url provider', async () => {
+            const embeddingContext = await createEmbeddingContext();
+            const dashboardExperience = await embeddingContext.embedDashboard({
+                url: 'https://test.amazon.com/embed/guid/dashboards/testDashboardId?authcode=1234',
+                container: window.document.createElement('div'),
+            });
+
+            await expect(dashboardExperience.refreshSession()).rejects.toThrow(
+                'No url provider has been set on the embedding context'
+            );
+
+            embeddingContext.destroy();
+        });
+    });
+
+    describe('URL policy', () => {
+        const TEST_REGIONAL_URL =
+            'https://us-east-1.quicksight.aws.amazon.com/embed/guid/dashboards/testDashboardId?code=1';
+        let TEST_CONTAINER: HTMLElement;
+
+        beforeEach(() => {
+            TEST_CONTAINER = window.document.createElement('div');
+        });
+
+        it('should reject urls of hosts that are not allowed before creating any frame', async () => {
+            const onChangeSpy = jest.fn();
+            const embeddingContext = await createEmbeddingContext({
+                onChange: onChangeSpy,
+                allowedHosts: ['*.quicksight.aws.amazon.com'],
+            });
+            const iframeCount = window.document.body.querySelectorAll('iframe').length;
+
+            await expect(
+                embeddingContext.embedDashboard({
+                    url: 'https://test.amazon.com/embed/guid/dashboards/testDashboardId?code=1',
+                    container: TEST_CONTAINER,
+                })
+            ).rejects.toBeInstanceOf(UrlNotAllowedError);
+
+            expect(window.document.body.querySelectorAll('iframe').length).toEqual(iframeCount);
+            expect(TEST_CONTAINER.querySelector('iframe')).toBeNull();
+            expect(onChangeSpy).toHaveBeenLastCalledWith(
+                expect.objectContaining({
+                    eventName: ChangeEventName.URL_NOT_ALLOWED,
+                    eventLevel: ChangeEventLevel.ERROR,
+                    message:
+                        'embedDashboard is called with an embed url of a host that is not allowed: "test.amazon.com"',
+                }),
+                {frame: null}
+            );
+        });
+
+        it('should embed urls of allowed hosts and regions', async () => {
+            const embeddingContext = await createEmbeddingContext({
+                allowedHosts: ['*.quicksight.aws.amazon.com'],
+                allowedRegions: ['us-east-1'],
+            });
+
+            await embeddingContext.embedDashboard({url: TEST_REGIONAL_URL, container: TEST_CONTAINER});
+
+            expect(TEST_CONTAINER.querySelector('iframe')).not.toBeNull();
+
+            embeddingContext.destroy();
+        });
+
+        it('should reject urls of regions that are not allowed', async () => {
+            const embeddingContext = await createEmbeddingContext({
+                allowedRegions: ['eu-west-1'],
+            });
+
+            await expect(
+                embeddingContext.embedVisual({
+                    url: 'https://us-east-1.quicksight.aws.amazon.com/embed/guid/dashboards/testDashboardId/sheets/sheetId/visuals/visualId?code=1',
+                    container: TEST_CONTAINER,
+                })
+            ).rejects.toThrow(
+                'embedVisual is called with an embed url of a region that is not allowed: "us-east-1.quicksight.aws.amazon.com"'
+            );
+        });
+
+        it('should reject urls that can not be parsed', async () => {
+            const embeddingContext = await createEmbeddingContext({
+                allowedHosts: ['test.amazon.com'],
+            });
+
+            await expect(embeddingContext.embedConsole({url: 'not a url', container: TEST_CONTAINER})).rejects.toThrow(
+                'embedConsole is called with an embed url that can not be parsed'
+            );
+        });
+
+        it('should not refresh the session with a url of a host that is not allowed', async () => {
+            const embeddingContext = await createEmbeddingContext({
+                allowedHosts: ['us-east-1.quicksight.aws.amazon.com'],
+            });
+            const dashboardExperience = await embeddingContext.embedDashboard({
+                url: TEST_REGIONAL_URL,
+                container: TEST_CONTAINER,
+            });
+            jest.spyOn(dashboardExperience, 'send').mockRejectedValue(new Error('Session expired'));
+
+            await expect(
+                dashboardExperience.refreshSession(
+                    'https://eu-west-1.quicksight.aws.amazon.com/embed/newGuid/dashboards/testDashboardId?code=2'
+                )
+            ).rejects.toBeInstanceOf(UrlNotAllowedError);
+            expect(
+                TEST_CONTAINER.querySelector('iframe')?.src.startsWith(TEST_REGIONAL_URL.split('?')[0])
+            ).toBeTruthy();
+
+            embeddingContext.destroy();
+        });
+    });
 });
@@ -0,0 +1,194 @@
+import {createEmbeddingContext} from '../../src';
+import {HostSimulator} from '../../src/testing';
+import {EmbeddingEventOf, MessageEventName} from '@common/events/types';
+import {Parameter} from '../../src/common/types';
+import {CommandRejectedError, CommandTimeoutError} from '@common/errors/errors';
+import {EmbeddingContext} from '@common/embedding-context/embedding-context';
+
+describe('HostSimulator', () => {
+    const TEST_DASHBOARD_URL =
+        'https://us-east-1.quicksight.aws.amazon.com/embed/guid/dashboards/testDashboardId?authcode=1234';
+    const TEST_SHEETS = [
+        {Name: 'Sheet 1', SheetId: 'sheet1'},
+        {Name: 'Sheet 2', SheetId: 'sheet2'},
+    ];
+
+    let host: HostSimulator;
+    let embeddingContext: EmbeddingContext;
+
+    const embedDashboard = (onMessage = jest.fn()) =>
+        embeddingContext.embedDashboard(
+            {url: TEST_DASHBOARD_URL, container: window.document.createElement('div')},
+            {onMessage}
+        );
+
+    beforeEach(async () => {
+        host = new HostSimulator({state: {sheets: TEST_SHEETS}});
+        embeddingContext = await createEmbeddingContext({createTransport: host.createTransport});
+    });
+
+    afterEach(() => {
+        embeddingContext.destroy();
+    });
+
+    it('should initialize the experience and answer getters', async () => {
+        const dashboard = await embedDashboard();
+
+        await dashboard.whenReady();
+
+        await expect(dashboard.getSheets()).resolves.toEqual(TEST_SHEETS);
+        await expect(dashboard.getSelectedSheetId()).resolves.toEqual('sheet1');
+        expect(host.getFrames()).toHaveLength(2);
+        expect(host.getExperienceFrames()[0].getExperience()).toEqual(
+            expect.objectContaining({dashboardId: 'testDashboardId'})
+        );
+    });
+
+    it('should keep the state of setters and emit the matching events', async () => {
+        const onMessage = jest.fn();
+        const dashboard = await embedDashboard(onMessage);
+
+        await dashboard.setParameters([{Name: 'country', Values: ['France']}]);
+        await dashboard.setSelectedSheetId('sheet2');
+
+        await expect(dashboard.getParameters()).resolves.toEqual([{Name: 'country', Values: ['France']}]);
+        await expect(dashboard.getSelectedSheetId()).resolves.toEqual('sheet2');
+        expect(onMessage).toBeCalledWith(
+            expect.objectContaining({
+                eventName: MessageEventName.PARAMETERS_CHANGED,
+                message: {
+                    changedParameters: [{Name: 'country', Values: ['France']}],
+                    parameterChanges: [{Name: 'country', PreviousValues: undefined, Values: ['France']}],
+                },
+            }),
+            expect.any(Object)
+        );
+        expect(onMessage).toBeCalledWith(
+            expect.objectContaining({
+                eventName: MessageEventName.SELECTED_SHEET_CHANGED,
+                message: {selectedSheet: {Name: 'Sheet 2', SheetId: 'sheet2'}},
+            }),
+            expect.any(Object)
+        );
+        expect(host.getMessages()).toContainEqual(expect.objectContaining({eventName: MessageEventName.ACKNOWLEDGE}));
+    });
+
+    it('should emit events of the experience', async () => {
+        const onMessage = jest.fn();
+        const dashboard = await embedDashboard(onMessage);
+        await dashboard.whenReady();
+
+        host.emit(MessageEventName.SIZE_CHANGED, {height: '500'});
+
+        expect(onMessage).toHaveBeenLastCalledWith(
+            expect.objectContaining({eventName: MessageEventName.SIZE_CHANGED, message: {height: '500'}}),
+            expect.any(Object)
+        );
+    });
+
+    it('should resolve the events waited for by the experience and the context', async () => {
+        const contextListener = jest.fn();
+        embeddingContext.addEventListener(MessageEventName.SIZE_CHANGED, contextListener);
+        const dashboard = await embedDashboard();
+        await dashboard.whenReady();
+
+        const selectedSheetChanged = dashboard.waitFor(MessageEventName.SELECTED_SHEET_CHANGED, {timeout: 1000});
+        await dashboard.setSelectedSheetId('sheet2');
+        await expect(selectedSheetChanged).resolves.toEqual(
+            expect.objectContaining({message: {selectedSheet: {Name: 'Sheet 2', SheetId: 'sheet2'}}})
+        );
+
+        const sizeChanged = embeddingContext.waitFor(event => event.eventName === MessageEventName.SIZE_CHANGED);
+        host.emit(MessageEventName.SIZE_CHANGED, {height: '500'});
+        await expect(sizeChanged).resolves.toEqual(expect.objectContaining({message: {height: '500'}}));
+        expect(contextListener).toBeCalledTimes(1);
+    });
+
+    it('should stream the events of the experience until its frame is removed', async () => {
+        const dashboard = await embedDashboard();
+        const changedParameters: unknown[] = [];
+        const complete = jest.fn();
+        dashboard.events(MessageEventName.PARAMETERS_CHANGED).subscribe({
+            next: event => changedParameters.push(event.message.changedParameters),
+            complete,
+        });
+        const contextEvents = embeddingContext.events([MessageEventName.SIZE_CHANGED])[Symbol.asyncIterator]();
+
+        await dashboard.setParameters([{Name: 'country', Values: ['France']}]);
+        host.emit(MessageEventName.SIZE_CHANGED, {height: '500'});
+        dashboard.unmount();
+
+        expect(changedParameters).toEqual([[{Name: 'country', Values: ['France']}]]);
+        expect(complete).toBeCalledTimes(1);
+        await expect(contextEvents.next()).resolves.toEqual(
+            expect.objectContaining({value: expect.objectContaining({message: {height: '500'}})})
+        );
+    });
+
+    it('should type the message of listeners from the event name', async () => {
+        const selectedSheets: string[] = [];
+        const onMessage = jest.fn((messageEvent: EmbeddingEventOf<MessageEventName>) => {
+            if (messageEvent.eventName === MessageEventName.SELECTED_SHEET_CHANGED) {
+                selectedSheets.push(messageEvent.message.selectedSheet.SheetId);
+            }
+        });
+        const dashboard = await embedDashboard(onMessage);
+        const changedParameters: Parameter[][] = [];
+        dashboard.addEventListener(MessageEventName.PARAMETERS_CHANGED, messageEvent => {
+            changedParameters.push(messageEvent.message.changedParameters);
+        });
+
+        await dashboard.setParameters([{Name: 'country', Values: ['France']}]);
+        await dashboard.setSelectedSheetId('sheet2');
+
+        expect(changedParameters).toEqual([[{Name: 'country', Values: ['France']}]]);
+        expect(selectedSheets).toEqual(['sheet2']);
+    });
+
+    it('should fail or time out scripted commands once', async () => {
+        const dashboard = await embedDashboard();
+        host.failNext(MessageEventName.GET_SHEETS, 'NOT_FOUND').timeoutNext(MessageEventName.GET_SHEETS);
+
+        await expect(dashboard.getSheets()).rejects.toThrow(CommandRejectedError);
+        await expect(dashboard.getSheets({timeoutMs: 10})).rejects.toThrow(CommandTimeoutError);
+        await expect(dashboard.getSheets()).resolves.toEqual(TEST_SHEETS);
+    });
+
+    it('should answer commands with custom responders', async () => {
+        const dashboard = await embedDashboard();
+        host.respondTo(MessageEventName.GET_SHEET_VISUALS, () => [{Name: 'Visual', VisualId: 'visual1'}]);
+        host.respondNext(MessageEventName.GET_SHEET_VISUALS, () => []);
+
+        await expect(dashboard.getSheetVisuals('sheet1')).resolves.toEqual([]);
+        await expect(dashboard.getSheetVisuals('sheet1')).resolves.toEqual([{Name: 'Visual', VisualId: 'visual1'}]);
+    });
+
+    it('should not initialize experiences when auto initialization is off', async () => {
+        host = new HostSimulator({autoInitialize: false});
+        embeddingContext.destroy();
+        embeddingContext = await createEmbeddingContext({createTransport: host.createTransport});
+        const dashboard = await embedDashboard();
+        const whenReady = jest.fn();
+        dashboard.whenReady().then(whenReady);
+
+        await new Promise(resolve => setTimeout(resolve));
+        expect(whenReady).not.toBeCalled();
+
+        host.initialize();
+        await dashboard.whenReady();
+        // Only the acknowledgments of the initialization events have been sent
+        expect(host.getMessages().map(({eventName}) => eventName)).toEqual([
+            MessageEventName.ACKNOWLEDGE,
+            MessageEventName.ACKNOWLEDGE,
+        ]);
+    });
+
+    it('should time out commands queued until an experience that is never initialized is ready', async () => {
+        host = new HostSimulator({autoInitialize: false});
+        embeddingContext.destroy();
+        embeddingContext = await createEmbeddingContext({createTransport: host.createTransport});
+        const dashboard = await embedDashboard();
+
+        await expect(dashboard.getSheets({timeoutMs: 50})).rejects.toThrow(CommandTimeoutError);
+    });
+});
@@ -0,0 +1,95 @@
+import {createEmbeddingContext} from '../../src';
+import {HostSimulator, TrafficReplayer} from '../../src/testing';
+import {MessageEventName} from '@common/events/types';
+import {TrafficEntryType} from '@common/recorder/types';
+import {EventManager} from '@common/event-manager/event-manager';
+import {EmbeddingContext} from '@common/embedding-context/embedding-context';
+import {DashboardExperience} from '@experience/dashboard-experience/dashboard-experience';
+
+describe('TrafficReplayer', () => {
+    const TEST_DASHBOARD_URL =
+        'https://us-east-1.quicksight.aws.amazon.com/embed/guid/dashboards/testDashboardId?authcode=1234';
+    const TEST_SHEETS = [{Name: 'Sheet 1', SheetId: 'sheet1'}];
+
+    let embeddingContexts: EmbeddingContext[];
+
+    const embedDashboard = async (host: HostSimulator, onMessage = jest.fn()) => {
+        const embeddingContext = await createEmbeddingContext({createTransport: host.createTransport});
+        embeddingContexts.push(embeddingContext);
+        const dashboard = await embeddingContext.embedDashboard(
+            {url: TEST_DASHBOARD_URL, container: window.document.createElement('div')},
+            {onMessage}
+        );
+        await dashboard.whenReady();
+
+        return {embeddingContext, dashboard};
+    };
+
+    const recordSession = async () => {
+        const host = new HostSimulator({state: {sheets: TEST_SHEETS}});
+        const {embeddingContext, dashboard} = await embedDashboard(host);
+
+        embeddingContext.startRecording();
+        await dashboard.getSheets();
+        host.emit(MessageEventName.SIZE_CHANGED, {height: '500'});
+
+        return embeddingContext.stopRecording();
+    };
+
+    beforeEach(() => {
+        embeddingContexts = [];
+    });
+
+    afterEach(() => {
+        embeddingContexts.forEach(embeddingContext => embeddingContext.destroy());
+    });
+
+    it('should record the commands, responses and events of the embedding context', async () => {
+        const recording = await recordSession();
+
+        expect(recording.entries.map(({type, eventName}) => [type, eventName])).toEqual([
+            [TrafficEntryType.COMMAND, MessageEventName.GET_SHEETS],
+            [TrafficEntryType.RESPONSE, MessageEventName.GET_SHEETS],
+            [TrafficEntryType.EVENT, MessageEventName.SIZE_CHANGED],
+            [TrafficEntryType.COMMAND, MessageEventName.ACKNOWLEDGE],
+        ]);
+        expect(recording.entries[1].messageEvent).toEqual(expect.objectContaining({message: TEST_SHEETS}));
+    });
+
+    it('should replay the recorded responses and events into the host simulator', async () => {
+        const replayer = new TrafficReplayer(JSON.stringify(await recordSession()));
+        const onMessage = jest.fn();
+        const host = new HostSimulator();
+        const {dashboard} = await embedDashboard(host, onMessage);
+
+        replayer.replayToHostSimulator(host);
+
+        await expect(dashboard.getSheets()).resolves.toEqual(TEST_SHEETS);
+        expect(onMessage).toBeCalledWith(
+            expect.objectContaining({eventName: MessageEventName.SIZE_CHANGED, message: {height: '500'}}),
+            expect.any(Object)
+        );
+    });
+
+    it('should replay the recorded events into the event manager of another embedding context', async () => {
+        const recording = await recordSession();
+        const replayer = new TrafficReplayer(recording);
+        const eventManager = new EventManager();
+        const listener = jest.fn();
+        const dashboard = new DashboardExperience(
+            {url: TEST_DASHBOARD_URL, container: window.document.createElement('div')},
+            {},
+            {eventManager, contextId: 'replayContextId', urlInfo: {sessionId: '1234', host: 'https://localhost.com'}},
+            new Set<string>()
+        );
+        dashboard.addEventListener(MessageEventName.SIZE_CHANGED, listener);
+
+        replayer.replayToEventManager(eventManager, 'replayContextId');
+
+        expect(replayer.getEntries(TrafficEntryType.EVENT)).toHaveLength(1);
+        expect(listener).toBeCalledTimes(1);
+        expect(listener.mock.calls[0][0]).toEqual(
+            expect.objectContaining({eventName: MessageEventName.SIZE_CHANGED, message: {height: '500'}})
+        );
+    });
+});